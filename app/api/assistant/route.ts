@@ -1,11 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openRouterClient } from '../../../lib/openrouter';
+import { ChatStreamEvent } from '../../../lib/llm-provider';
+import { chatStreamWithFallback, chatWithFallback, JSON_REPAIR_ROUNDS } from '../../../lib/model-fallback';
+import { errorResponse, readJsonObject, toErrorResponse } from '../../../lib/api-errors';
+import { UsageTracker } from '../../../lib/usage';
+import { assistantRateLimiter, checkRateLimit } from '../../../lib/rate-limit';
+import { parseRecommendationJson, parseTravelPlan } from '../../../lib/travel-plan-schema';
+import { diffPlans, mentionsCurrentPlans, parseRefinementDecision } from '../../../lib/plan-refinement';
+import {
+  applyPreferenceOverrides,
+  extractPreferences,
+  getMissingSlots,
+  isReadyForRecommendations,
+  PreferenceSlot,
+  toBasedOnPreferences
+} from '../../../lib/preferences';
 import { 
   AssistantRequest, 
   AssistantResponse, 
+  AssistantStreamEvent,
+  ErrorResponse,
   Message, 
   RecommendationResponse,
-  TravelPlan 
+  TravelPlan,
+  TravelPreferences
 } from '../../../lib/types';
 
 /**
@@ -15,57 +32,37 @@ import {
  * Requirements: 10.4, 3.1, 3.2, 4.1, 4.2, 4.3, 4.4, 5.4
  */
 
-/**
- * Analyze conversation to determine if sufficient information has been gathered
- * to generate travel recommendations
- * 
- * Requirements: 4.1
- */
-function shouldGenerateRecommendations(messages: Message[]): {
-  shouldGenerate: boolean;
-  missingInfo: string[];
-} {
-  // Combine all conversation text for analysis
-  const conversationText = messages
-    .filter(m => m.role === 'user' || m.role === 'assistant')
-    .map(m => m.content)
-    .join(' ')
-    .toLowerCase();
-
-  const missingInfo: string[] = [];
-
-  // Check for destination information
-  const hasDestination = /\b(want to|going to|visit|travel to|interested in|thinking about)\s+\w+/.test(conversationText) ||
-    /\b(beach|mountain|city|europe|asia|africa|america|country|island)\b/.test(conversationText);
-  
-  if (!hasDestination) {
-    missingInfo.push('destination');
-  }
+// Per-call LLM timeouts: short conversational replies vs. long JSON recommendations
+const CONVERSATION_TIMEOUT_MS = 20000;
+const RECOMMENDATION_TIMEOUT_MS = 45000;
 
-  // Check for budget information
-  const hasBudget = /\$\d+|budget|spend|afford|cost|price|cheap|expensive|\d+\s*(dollars|usd|euros|pounds)/.test(conversationText);
-  
-  if (!hasBudget) {
-    missingInfo.push('budget');
-  }
-
-  // Check for date/timeframe information
-  const hasDates = /\d{4}|\b(january|february|march|april|may|june|july|august|september|october|november|december)\b/.test(conversationText) ||
-    /next (week|month|year|summer|winter|spring|fall)/.test(conversationText) ||
-    /in \d+ (days|weeks|months)/.test(conversationText) ||
-    /\b(soon|later|planning)\b/.test(conversationText);
-  
-  if (!hasDates) {
-    missingInfo.push('dates');
-  }
+// Most plans a follow-up can refer to (a recommendation response has 2-3)
+const MAX_CURRENT_PLANS = 5;
 
-  // Need at least destination and one other piece of info to generate recommendations
-  const shouldGenerate = hasDestination && (hasBudget || hasDates);
+// How each missing slot is described to the model
+const SLOT_LABELS: Record<PreferenceSlot, string> = {
+  destination: 'destination',
+  dates: 'travel dates or timeframe',
+  budget: 'budget',
+  interests: 'interests and preferred activities',
+  partySize: 'number of travelers'
+};
 
-  return {
-    shouldGenerate,
-    missingInfo
-  };
+/**
+ * Describe what is already known so the model doesn't ask again
+ */
+function describeKnownPreferences(preferences: TravelPreferences): string {
+  const known = toBasedOnPreferences(preferences);
+  const lines = [
+    preferences.destination && `- Destination: ${preferences.destination}`,
+    known.dates && `- Dates: ${known.dates}`,
+    known.budget && `- Budget: ${known.budget}`,
+    preferences.interests.length > 0 && `- Interests: ${preferences.interests.join(', ')}`,
+    preferences.constraints.length > 0 && `- Constraints: ${preferences.constraints.join(', ')}`,
+    preferences.partySize && `- Travelers: ${preferences.partySize}`
+  ].filter(Boolean);
+
+  return lines.length > 0 ? lines.join('\n') : '- Nothing yet';
 }
 
 /**
@@ -73,7 +70,7 @@ function shouldGenerateRecommendations(messages: Message[]): {
  * 
  * Requirements: 4.2, 4.3
  */
-function getInformationGatheringPrompt(missingInfo: string[]): string {
+function getInformationGatheringPrompt(missingInfo: string[], preferences: TravelPreferences): string {
   return `You are a helpful travel advisor assistant. Your role is to gather travel requirements from users through natural conversation.
 
 CURRENT PHASE: Information Gathering
@@ -85,6 +82,9 @@ You are collecting the following information from the user:
 - Interests and preferred activities
 - Any constraints (dietary, accessibility, etc.)
 
+KNOWN SO FAR:
+${describeKnownPreferences(preferences)}
+
 MISSING INFORMATION: ${missingInfo.join(', ')}
 
 GUIDELINES:
@@ -103,13 +103,16 @@ Do NOT generate travel recommendations yet. Just continue the conversation to ga
  * 
  * Requirements: 4.4, 5.4
  */
-function getRecommendationPrompt(): string {
+function getRecommendationPrompt(preferences: TravelPreferences): string {
   return `You are a helpful travel advisor assistant. You have gathered sufficient information from the user and are now ready to provide personalized travel recommendations.
 
 CURRENT PHASE: Recommendation Generation
 
 Based on the conversation history, generate 2-3 distinct travel plan options that match the user's preferences.
 
+USER PREFERENCES:
+${describeKnownPreferences(preferences)}
+
 CRITICAL: You MUST respond with ONLY a valid JSON object. Do not include any text before or after the JSON.
 
 JSON FORMAT (respond with ONLY this structure, no additional text):
@@ -230,54 +233,190 @@ Respond with ONLY the JSON object, no additional text`;
 }
 
 /**
- * Validate that the response is valid JSON with the expected structure
+ * Construct system prompt for follow-ups once plans are on screen
+ * The model edits one plan in place, asks for new recommendations, or just answers
+ */
+function getRefinementPrompt(preferences: TravelPreferences, currentPlans: TravelPlan[]): string {
+  const planList = currentPlans
+    .map((plan, index) => `Plan ${index + 1} (id "${plan.id}"):\n${JSON.stringify(plan)}`)
+    .join('\n\n');
+
+  return `You are a helpful travel advisor assistant. You already gave the user the travel plans below, and they have replied.
+
+CURRENT PHASE: Plan Refinement
+
+USER PREFERENCES:
+${describeKnownPreferences(preferences)}
+
+CURRENT PLANS (numbered as the user sees them):
+${planList}
+
+Decide what the user's latest message asks for:
+1. "refine": change ONE of the plans (e.g. "make plan 2 cheaper", "swap the museum for something outdoors"). Work out which plan they mean from its number, destination or contents. Return the complete updated plan, changing only what the request needs and keeping everything else as it was.
+2. "regenerate": they want different recommendations altogether (another destination, other dates, or changes to every plan).
+3. "reply": a question or comment that needs no change to the plans.
+
+CRITICAL: You MUST respond with ONLY a valid JSON object in one of these forms, no text before or after it:
+{"action": "refine", "planId": "plan-2", "message": "One or two sentences on what you changed", "plan": { ...the complete updated plan, with the same fields as above... }}
+{"action": "regenerate"}
+{"action": "reply", "message": "Your answer (2-3 sentences)"}
+
+RULES for a refined plan:
+- Keep its id
+- Keep budget.estimated equal to the sum of the breakdown, in the same currency
+- Keep it a day trip (nights 0, same start and end date) unless the user asks otherwise`;
+}
+
+/**
+ * Validate the response against the shared travel plan schema, repairing
+ * common mistakes and rejecting anything unfixable with field paths
+ * The basedOnPreferences metadata comes from the extracted preferences, not the model
  * 
  * Requirements: 5.4
  */
-function validateRecommendationResponse(jsonString: string): RecommendationResponse {
-  try {
-    const parsed = JSON.parse(jsonString);
+function validateRecommendationResponse(rawContent: string, preferences: TravelPreferences): RecommendationResponse {
+  const recommendations = parseRecommendationJson(rawContent, { idPrefix: 'plan' }).value;
+  recommendations.metadata.basedOnPreferences = toBasedOnPreferences(preferences);
+  return recommendations;
+}
 
-    // Validate required top-level fields
-    if (!parsed.summary || typeof parsed.summary !== 'string') {
-      throw new Error('Missing or invalid summary field');
-    }
+/**
+ * Handle a follow-up on the plans on screen
+ * Returns the response for an edit or a reply, or null when the user wants new
+ * recommendations (the caller falls through to the normal phases)
+ */
+async function refinePlans(
+  messages: Message[],
+  currentPlans: TravelPlan[],
+  preferences: TravelPreferences,
+  signal: AbortSignal,
+  tracker: UsageTracker
+): Promise<AssistantResponse | null> {
+  const { result: decision, model, attemptedModels, repairRounds } = await chatWithFallback(
+    [
+      { role: 'system', content: getRefinementPrompt(preferences, currentPlans), timestamp: Date.now() },
+      ...messages
+    ],
+    {
+      temperature: 0.5,
+      maxTokens: 1500,
+      responseFormat: 'json',
+      timeoutMs: RECOMMENDATION_TIMEOUT_MS,
+      signal
+    },
+    'recommendation',
+    content => parseRefinementDecision(content, currentPlans),
+    tracker,
+    JSON_REPAIR_ROUNDS
+  );
+
+  if (decision.action === 'regenerate') {
+    return null;
+  }
 
-    if (!Array.isArray(parsed.plans) || parsed.plans.length === 0) {
-      throw new Error('Plans must be a non-empty array');
-    }
-    
-    // Trim to max 3 plans if AI generated too many
-    if (parsed.plans.length > 3) {
-      parsed.plans = parsed.plans.slice(0, 3);
-    }
+  const metadata = { model, attemptedModels, repairRounds, usage: tracker.toMetadata() };
 
-    // Validate each plan has required fields
-    parsed.plans.forEach((plan: TravelPlan, index: number) => {
-      if (!plan.destination || !plan.country) {
-        throw new Error(`Plan ${index + 1} missing destination or country`);
-      }
-      if (!plan.duration || !plan.duration.startDate || !plan.duration.endDate) {
-        throw new Error(`Plan ${index + 1} missing duration information`);
-      }
-      if (!plan.budget || typeof plan.budget.estimated !== 'number') {
-        throw new Error(`Plan ${index + 1} missing budget information`);
-      }
-      if (!Array.isArray(plan.highlights) || plan.highlights.length === 0) {
-        throw new Error(`Plan ${index + 1} missing highlights`);
-      }
-      if (!Array.isArray(plan.activities) || plan.activities.length === 0) {
-        throw new Error(`Plan ${index + 1} missing activities`);
+  if (decision.action === 'reply') {
+    return { message: decision.message, preferences, metadata };
+  }
+
+  // The edited plan replaces the original in place, so plan numbers and ids stay put
+  // (parseRefinementDecision only accepts current ids; without a match, fall back to new recommendations)
+  const original = currentPlans.find(plan => plan.id === decision.planId);
+  if (!original) {
+    return null;
+  }
+  return {
+    message: decision.message,
+    travelPlans: currentPlans.map(plan => plan.id === decision.planId ? decision.plan : plan),
+    refinement: { planId: decision.planId, changes: diffPlans(original, decision.plan) },
+    preferences,
+    metadata
+  };
+}
+
+/**
+ * Encode one server-sent event
+ */
+function encodeStreamEvent(encoder: TextEncoder, event: AssistantStreamEvent): Uint8Array {
+  const { type, ...data } = event;
+  return encoder.encode(`event: ${type}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+/**
+ * Stream an information-gathering reply back to the client as server-sent events
+ * Text arrives as delta events; a final done event carries the whole reply with the
+ * preferences and the model/usage metadata, known only once the model has finished.
+ * The first chunk is awaited before responding so upstream errors still
+ * surface as JSON error responses from the POST handler; later ones become an error event
+ */
+async function streamConversationResponse(
+  messages: Message[],
+  maxTokens: number,
+  signal: AbortSignal,
+  tracker: UsageTracker,
+  preferences: TravelPreferences
+): Promise<Response> {
+  const { events, first, model, attemptedModels } = await chatStreamWithFallback(messages, {
+    temperature: 0.7,
+    maxTokens,
+    responseFormat: 'text',
+    timeoutMs: CONVERSATION_TIMEOUT_MS,
+    signal
+  }, 'conversation');
+
+  // The first event was pulled while opening the stream; later events are pulled as the client reads
+  let pending: IteratorResult<ChatStreamEvent> | null = first;
+  let message = '';
+  let finalModel = model;
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        while (true) {
+          const result = pending ?? await events.next();
+          pending = null;
+
+          if (result.done) {
+            const response: AssistantResponse = {
+              message,
+              preferences,
+              metadata: { model: finalModel, attemptedModels, usage: tracker.toMetadata() }
+            };
+            controller.enqueue(encodeStreamEvent(encoder, { type: 'done', response }));
+            controller.close();
+            return;
+          }
+
+          if (result.value.type === 'delta') {
+            message += result.value.content;
+            controller.enqueue(encodeStreamEvent(encoder, { type: 'delta', content: result.value.content }));
+            return;
+          }
+
+          finalModel = result.value.model;
+          tracker.add(result.value.model, result.value.usage);
+        }
+      } catch (error) {
+        console.error('Streaming error:', error);
+        // Headers are already sent, so the error is reported in the stream with the usual ErrorResponse body
+        const body: ErrorResponse = await toErrorResponse(error).json();
+        controller.enqueue(encodeStreamEvent(encoder, { type: 'error', error: body }));
+        controller.close();
       }
-    });
+    },
+    async cancel() {
+      await events.return(undefined);
+    }
+  });
 
-    return parsed as RecommendationResponse;
-  } catch (error) {
-    if (error instanceof SyntaxError) {
-      throw new Error('Invalid JSON response from AI');
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-store'
     }
-    throw error;
-  }
+  });
 }
 
 /**
@@ -287,40 +426,89 @@ function validateRecommendationResponse(jsonString: string): RecommendationRespo
  * Requirements: 10.4, 3.1, 3.2
  */
 export async function POST(request: NextRequest) {
+  // Token bucket per client, so reloading or opening another tab doesn't bypass it
+  const limited = checkRateLimit(request, assistantRateLimiter);
+  if (limited) {
+    return limited;
+  }
+
   try {
-    // Parse request body
-    const body: AssistantRequest = await request.json();
+    // Parse request body (malformed JSON is answered with a 400 by toErrorResponse)
+    const body = await readJsonObject<AssistantRequest>(request);
 
     // Validate request
     if (!body.messages || !Array.isArray(body.messages)) {
-      return NextResponse.json(
+      return errorResponse(
         {
           error: 'Invalid request',
           message: 'Messages array is required',
           code: 'INVALID_REQUEST',
           retryable: false
         },
-        { status: 400 }
+        400
       );
     }
 
     // Validate messages structure
     for (const msg of body.messages) {
-      if (!msg.role || !msg.content || typeof msg.content !== 'string') {
-        return NextResponse.json(
+      if (!msg || typeof msg !== 'object' || !msg.role || !msg.content || typeof msg.content !== 'string') {
+        return errorResponse(
           {
             error: 'Invalid request',
             message: 'Each message must have role and content',
             code: 'INVALID_MESSAGE',
             retryable: false
           },
-          { status: 400 }
+          400
+        );
+      }
+    }
+
+    // Plans already on screen must be valid plans with distinct ids
+    let currentPlans: TravelPlan[] | null = null;
+    if (body.currentPlans !== undefined) {
+      try {
+        if (!Array.isArray(body.currentPlans) || body.currentPlans.length > MAX_CURRENT_PLANS) {
+          throw new Error(`currentPlans must be an array of at most ${MAX_CURRENT_PLANS} plans`);
+        }
+        currentPlans = body.currentPlans.map((plan, index) => parseTravelPlan(plan, `currentPlans[${index}]`).value);
+        if (currentPlans.some(plan => !plan.id) || new Set(currentPlans.map(plan => plan.id)).size !== currentPlans.length) {
+          throw new Error('currentPlans must have distinct ids');
+        }
+      } catch (validationError) {
+        return errorResponse(
+          {
+            error: 'Invalid request',
+            message: validationError instanceof Error ? validationError.message : 'currentPlans is invalid',
+            code: 'INVALID_REQUEST',
+            retryable: false
+          },
+          400
         );
       }
     }
 
-    // Analyze conversation to determine phase
-    const { shouldGenerate, missingInfo } = shouldGenerateRecommendations(body.messages);
+    // Aggregates token usage for this request and the conversation it belongs to
+    const tracker = new UsageTracker('conversation', body.conversationId);
+
+    // Extract the user's preferences (chips they edited win) and derive the phase from them
+    const preferences = applyPreferenceOverrides(
+      await extractPreferences(body.messages, request.signal, tracker),
+      body.preferenceOverrides
+    );
+
+    // Phase 3: with plans on screen, a follow-up about them edits one of them when it can
+    // (anything else skips the extra LLM call and goes straight to the normal phases)
+    const latestUserMessage = [...body.messages].reverse().find(msg => msg.role === 'user');
+    if (currentPlans && currentPlans.length > 0 && latestUserMessage && mentionsCurrentPlans(latestUserMessage.content, currentPlans)) {
+      const refined = await refinePlans(body.messages, currentPlans, preferences, request.signal, tracker);
+      if (refined) {
+        return NextResponse.json(refined);
+      }
+    }
+
+    const shouldGenerate = isReadyForRecommendations(preferences);
+    const missingInfo = getMissingSlots(preferences).map(slot => SLOT_LABELS[slot]);
 
     let systemPrompt: string;
     let responseFormat: 'json' | 'text' = 'text';
@@ -328,12 +516,12 @@ export async function POST(request: NextRequest) {
 
     if (shouldGenerate) {
       // Phase 2: Generate recommendations
-      systemPrompt = getRecommendationPrompt();
+      systemPrompt = getRecommendationPrompt(preferences);
       responseFormat = 'json';
       maxTokens = 2000;
     } else {
       // Phase 1: Gather information
-      systemPrompt = getInformationGatheringPrompt(missingInfo);
+      systemPrompt = getInformationGatheringPrompt(missingInfo, preferences);
       responseFormat = 'text';
       maxTokens = 300;
     }
@@ -348,45 +536,55 @@ export async function POST(request: NextRequest) {
       ...body.messages
     ];
 
-    // Call OpenRouter API
-    const response = await openRouterClient.chat(messages, {
+    // Phase 1 replies can be streamed token by token when the client asks for it
+    if (!shouldGenerate && body.stream) {
+      return streamConversationResponse(messages, maxTokens, request.signal, tracker, preferences);
+    }
+
+    // Abort the upstream call if the client disconnects
+    const chatOptions = {
       temperature: 0.7,
       maxTokens,
-      responseFormat
-    });
+      responseFormat,
+      timeoutMs: shouldGenerate ? RECOMMENDATION_TIMEOUT_MS : CONVERSATION_TIMEOUT_MS,
+      signal: request.signal
+    };
 
     // Handle response based on phase
     if (shouldGenerate) {
-      // Phase 2: Parse and validate recommendation response
-      try {
-        const recommendations = validateRecommendationResponse(response.content);
-        
-        const assistantResponse: AssistantResponse = {
-          travelPlans: recommendations.plans,
-          summary: recommendations.summary
-        };
-
-        return NextResponse.json(assistantResponse);
-      } catch (validationError) {
-        console.error('Validation error:', validationError);
-        
-        // Return error response
-        return NextResponse.json(
-          {
-            error: 'Invalid response format',
-            message: validationError instanceof Error 
-              ? validationError.message 
-              : 'The AI returned an invalid response format. Please try again.',
-            code: 'VALIDATION_ERROR',
-            retryable: true
-          },
-          { status: 500 }
-        );
-      }
+      // Phase 2: Generate, parse and validate recommendations. Invalid output is sent
+      // back to the model with the validation errors, then fails over to the next model
+      const { result: recommendations, model, attemptedModels, repairRounds } = await chatWithFallback(
+        messages,
+        chatOptions,
+        'recommendation',
+        content => validateRecommendationResponse(content, preferences),
+        tracker,
+        JSON_REPAIR_ROUNDS
+      );
+      
+      const assistantResponse: AssistantResponse = {
+        travelPlans: recommendations.plans,
+        summary: recommendations.summary,
+        preferences,
+        metadata: { model, attemptedModels, repairRounds, usage: tracker.toMetadata() }
+      };
+
+      return NextResponse.json(assistantResponse);
     } else {
       // Phase 1: Return text response
+      const { result: message, model, attemptedModels } = await chatWithFallback(
+        messages,
+        chatOptions,
+        'conversation',
+        content => content,
+        tracker
+      );
+
       const assistantResponse: AssistantResponse = {
-        message: response.content
+        message,
+        preferences,
+        metadata: { model, attemptedModels, usage: tracker.toMetadata() }
       };
 
       return NextResponse.json(assistantResponse);
@@ -395,55 +593,7 @@ export async function POST(request: NextRequest) {
   } catch (error) {
     console.error('API route error:', error);
 
-    // Handle different error types
-    if (error instanceof Error) {
-      // Check for specific error messages from OpenRouter client
-      if (error.message.includes('API key')) {
-        return NextResponse.json(
-          {
-            error: 'Configuration error',
-            message: 'The service is not properly configured. Please contact support.',
-            code: 'CONFIG_ERROR',
-            retryable: false
-          },
-          { status: 500 }
-        );
-      }
-
-      if (error.message.includes('Rate limit')) {
-        return NextResponse.json(
-          {
-            error: 'Rate limit exceeded',
-            message: 'Too many requests. Please wait a moment and try again.',
-            code: 'RATE_LIMIT',
-            retryable: true
-          },
-          { status: 429 }
-        );
-      }
-
-      if (error.message.includes('network') || error.message.includes('fetch')) {
-        return NextResponse.json(
-          {
-            error: 'Network error',
-            message: 'Unable to connect to the AI service. Please check your connection and try again.',
-            code: 'NETWORK_ERROR',
-            retryable: true
-          },
-          { status: 503 }
-        );
-      }
-    }
-
-    // Generic error response
-    return NextResponse.json(
-      {
-        error: 'Internal server error',
-        message: 'An unexpected error occurred. Please try again.',
-        code: 'INTERNAL_ERROR',
-        retryable: true
-      },
-      { status: 500 }
-    );
+    // Map typed provider and validation errors onto ErrorResponse
+    return toErrorResponse(error);
   }
 }
@@ -0,0 +1,132 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { buildAreaContext, buildLocationContext, buildRouteContext, isValidCoordinates } from '@/lib/geodata';
+import { errorResponse, readJsonObject, toErrorResponse } from '@/lib/api-errors';
+import { checkRateLimit, contextRateLimiter } from '@/lib/rate-limit';
+import { parseMapFilters } from '@/lib/map-filters';
+import { INVALID_AREA_MESSAGE, parseMapArea } from '@/lib/map-area';
+import { INVALID_ROUTE_MESSAGE, parseRouteEnds } from '@/lib/map-route';
+import { LocationContext, MapArea, MapSearchFilters, RouteEnds } from '@/lib/types';
+
+/**
+ * Respond with a context, listing cache hit/miss per source in a header
+ */
+function contextResponse(context: LocationContext): NextResponse {
+  // e.g. "reverse=hit, attractions=miss, cities=hit"
+  const cacheStatus = Object.entries(context.cache || {})
+    .map(([source, status]) => `${source}=${status}`)
+    .join(', ');
+
+  return NextResponse.json(context, { headers: { 'X-Geo-Cache': cacheStatus } });
+}
+
+/**
+ * API Route: /api/geo/context
+ * Reverse geocoding, attraction lookup (all registered place sources, filtered
+ * by radius and interests) and nearby-city search for a map click, done server-side
+ * Results are cached per coordinate tile (see lib/geo-cache.ts)
+ * Query: ?lat=49.28&lng=-123.12, optionally &radius=25 (km) and &interests=museums,food
+ */
+export async function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const coordinates = {
+    lat: Number(params.get('lat') || NaN),
+    lng: Number(params.get('lng') || NaN)
+  };
+
+  if (!isValidCoordinates(coordinates)) {
+    return errorResponse(
+      {
+        error: 'Invalid request',
+        message: 'lat and lng query parameters must be valid coordinates',
+        code: 'INVALID_REQUEST',
+        retryable: false
+      },
+      400
+    );
+  }
+
+  const limited = checkRateLimit(request, contextRateLimiter);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const filters = parseMapFilters(params.get('radius'), params.get('interests'));
+    const context: LocationContext = await buildLocationContext(coordinates, filters);
+
+    return contextResponse(context);
+  } catch (error) {
+    console.error('Error in geo context API:', error);
+    return toErrorResponse(error);
+  }
+}
+
+/**
+ * Context for a drawn area or a route instead of a click
+ * Area: attractions are searched around the area's center and limited to the shape
+ * Route: attractions are searched in a corridor along the driving route
+ * Body: { area: MapArea } or { route: RouteEnds }, plus optional filters: { interests }
+ * (the shape replaces the radius)
+ */
+export async function POST(request: NextRequest) {
+  const limited = checkRateLimit(request, contextRateLimiter);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const body = await readJsonObject<{ area: MapArea; route: RouteEnds; filters: Partial<MapSearchFilters> }>(request);
+    const filters = parseMapFilters(undefined, body.filters && typeof body.filters === 'object' ? body.filters.interests : undefined);
+
+    if (body.route !== undefined) {
+      const ends = parseRouteEnds(body.route);
+      if (!ends) {
+        return errorResponse(
+          {
+            error: 'Invalid request',
+            message: INVALID_ROUTE_MESSAGE,
+            code: 'INVALID_REQUEST',
+            retryable: false
+          },
+          400
+        );
+      }
+
+      const context = await buildRouteContext(ends, filters);
+      if (!context) {
+        return errorResponse(
+          {
+            error: 'No route',
+            message: 'Could not find a driving route between these points',
+            code: 'NO_ROUTE',
+            retryable: false
+          },
+          422
+        );
+      }
+
+      return contextResponse(context);
+    }
+
+    const area = parseMapArea(body.area);
+
+    if (!area) {
+      return errorResponse(
+        {
+          error: 'Invalid request',
+          message: INVALID_AREA_MESSAGE,
+          code: 'INVALID_REQUEST',
+          retryable: false
+        },
+        400
+      );
+    }
+
+    const context = await buildAreaContext(area, filters);
+
+    return contextResponse(context);
+  } catch (error) {
+    console.error('Error in geo context API:', error);
+    return toErrorResponse(error);
+  }
+}
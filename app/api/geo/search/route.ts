@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { searchPlaces } from '@/lib/geodata';
+import { errorResponse, toErrorResponse } from '@/lib/api-errors';
+import { checkRateLimit, searchRateLimiter } from '@/lib/rate-limit';
+import { GeoSearchResponse } from '@/lib/types';
+
+// Accepted query length
+const MIN_QUERY_LENGTH = 2;
+const MAX_QUERY_LENGTH = 100;
+
+/**
+ * API Route: /api/geo/search
+ * Forward geocoding for the map mode search box (autocomplete)
+ * Results are cached per query (see lib/geo-cache.ts)
+ * Query: ?q=rothenburg
+ */
+export async function GET(request: NextRequest) {
+  const query = (request.nextUrl.searchParams.get('q') || '').trim();
+
+  if (query.length < MIN_QUERY_LENGTH || query.length > MAX_QUERY_LENGTH) {
+    return errorResponse(
+      {
+        error: 'Invalid request',
+        message: `q must be between ${MIN_QUERY_LENGTH} and ${MAX_QUERY_LENGTH} characters`,
+        code: 'INVALID_REQUEST',
+        retryable: false
+      },
+      400
+    );
+  }
+
+  const limited = checkRateLimit(request, searchRateLimiter);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    const { value, cache } = await searchPlaces(query);
+    const response: GeoSearchResponse = { results: value };
+
+    return NextResponse.json(response, { headers: { 'X-Geo-Cache': `search=${cache}` } });
+  } catch (error) {
+    console.error('Error in geo search API:', error);
+    return toErrorResponse(error);
+  }
+}
@@ -0,0 +1,32 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { readJsonObject, toErrorResponse } from '@/lib/api-errors';
+import { buildItinerary, parseItineraryRequest } from '@/lib/itinerary';
+import { checkRateLimit, itineraryRateLimiter } from '@/lib/rate-limit';
+import { ItineraryResponse } from '@/lib/types';
+
+/**
+ * API Route: /api/itinerary
+ * Turns selected travel plans (from either mode) into a day-by-day schedule:
+ * plans are located, ordered by geography and laid out with travel legs and
+ * meal breaks (see lib/itinerary.ts). No LLM call.
+ * Body: { plans: TravelPlan[], startDate?: "YYYY-MM-DD" }
+ */
+export async function POST(request: NextRequest) {
+  const limited = checkRateLimit(request, itineraryRateLimiter);
+  if (limited) {
+    return limited;
+  }
+
+  try {
+    // Malformed bodies and invalid plans are answered with a 400 by toErrorResponse
+    const itineraryRequest = parseItineraryRequest(await readJsonObject(request));
+
+    const itinerary = await buildItinerary(itineraryRequest.plans, itineraryRequest.startDate);
+    const response: ItineraryResponse = { itinerary };
+
+    return NextResponse.json(response);
+  } catch (error) {
+    console.error('Error in itinerary API:', error);
+    return toErrorResponse(error);
+  }
+}
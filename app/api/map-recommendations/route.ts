@@ -1,60 +1,296 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { openRouterClient } from '@/lib/openrouter';
-import { MapRecommendationRequest, MapRecommendationResponse, TravelPlan } from '@/lib/types';
+import { createHash } from 'crypto';
+import { chatWithFallback, JSON_REPAIR_ROUNDS } from '@/lib/model-fallback';
+import { errorResponse, readJsonObject, toErrorResponse } from '@/lib/api-errors';
+import { UsageTracker } from '@/lib/usage';
+import { parseRecommendationJson } from '@/lib/travel-plan-schema';
+import { buildAreaContext, buildLocationContext, buildRouteContext, isValidCoordinates } from '@/lib/geodata';
+import { cachedGeoLookup } from '@/lib/geo-cache';
+import { applyGrounding, getGroundingMode } from '@/lib/grounding';
+import { filtersKey, MAP_INTERESTS, parseMapFilters } from '@/lib/map-filters';
+import { areaCenter, areaKey, areaSizeKm, INVALID_AREA_MESSAGE, parseMapArea } from '@/lib/map-area';
+import { INVALID_ROUTE_MESSAGE, orderRouteStops, parseRouteEnds, routeKey, routeMidpoint } from '@/lib/map-route';
+import { resolvePlanLocations } from '@/lib/plan-locations';
+import { checkRateLimit, getClientKey, mapRateLimiter } from '@/lib/rate-limit';
+import {
+  LocationContext,
+  MapRecommendationRequest,
+  MapRecommendationResponse,
+  Place,
+  RecommendationResponse
+} from '@/lib/types';
+
+// Per-call LLM timeout for generating map recommendations
+const MAP_TIMEOUT_MS = 45000;
+
+// Most plans kept per answer (route mode asks for more, smaller plans: one per stop)
+const MAX_MAP_PLANS = 3;
+const MAX_ROUTE_STOPS = 5;
+
+// Completion budget per plan, plus the summary
+const TOKENS_PER_PLAN = 500;
+
+/**
+ * Extract the JSON object from the LLM output and validate it against the
+ * shared travel plan schema (repairs ids, numbers and dates where possible)
+ * Throws a SchemaValidationError listing unfixable fields
+ */
+function parseMapRecommendationContent(rawContent: string, maxPlans: number): RecommendationResponse {
+  return parseRecommendationJson(rawContent, {
+    idPrefix: `map-plan-${Date.now()}`,
+    maxPlans,
+    defaultSummary: 'Here are some travel recommendations for this location.'
+  }).value;
+}
+
+/**
+ * Hash of everything the prompt says about the location: names, nearby cities, filters,
+ * drawn area or route, whether the user picked attractions, and each attraction with its
+ * details. Cached answers are shared by everyone clicking in the tile, so any change to
+ * the prompt's data gets fresh recommendations. Left out are the exact click and the
+ * distances from it, which only vary within the tile.
+ */
+function hashPromptInput(context: LocationContext, hasSelection: boolean): string {
+  const shape = context.route
+    ? `route:${routeKey(context.route)}`
+    : context.area ? areaKey(context.area) : 'point';
+  const attractions = [...context.attractions]
+    .sort((a, b) => a.id.localeCompare(b.id))
+    .map(({ id, name, category, popularity, details }) => ({ id, name, category, popularity, details }));
+
+  return createHash('sha1')
+    .update(JSON.stringify({
+      sources: context.placeSources,
+      filters: filtersKey(context.filters),
+      shape,
+      locationName: context.locationName,
+      nearbyCities: context.nearbyCities,
+      isRemote: context.isRemote,
+      isWater: context.isWater,
+      hasSelection,
+      attractions
+    }))
+    .digest('hex')
+    .slice(0, 12);
+}
+
+/**
+ * Indented detail lines for an enriched attraction in the prompt (empty when there are none)
+ */
+function describePlaceDetails(place: Place): string {
+  const details = place.details;
+  if (!details) {
+    return '';
+  }
+
+  const about = details.wikipediaExtract || details.description;
+  const lines = [
+    about ? `About: ${about}` : null,
+    details.openingHours ? `Opening hours: ${details.openingHours}` : null,
+    details.website ? `Website: ${details.website}` : null
+  ].filter((line): line is string => line !== null);
+
+  return lines.map(line => `\n   ${line}`).join('');
+}
+
+/**
+ * Call the LLM, asking it to correct unparseable output and failing over through
+ * the map model chain on rate limits, upstream errors or output it can't fix
+ */
+async function generateRecommendations(
+  systemPrompt: string,
+  userPrompt: string,
+  signal: AbortSignal,
+  tracker: UsageTracker,
+  maxPlans: number
+): Promise<MapRecommendationResponse> {
+  const { result: parsedResponse, model, attemptedModels, repairRounds } = await chatWithFallback(
+    [
+      { role: 'system', content: systemPrompt, timestamp: Date.now() },
+      { role: 'user', content: userPrompt, timestamp: Date.now() }
+    ],
+    {
+      temperature: 0.7,
+      maxTokens: (maxPlans + 1) * TOKENS_PER_PLAN,
+      timeoutMs: MAP_TIMEOUT_MS,
+      // Abort the upstream call if the client disconnects
+      signal,
+    },
+    'map',
+    rawContent => parseMapRecommendationContent(rawContent, maxPlans),
+    tracker,
+    JSON_REPAIR_ROUNDS
+  );
+
+  return {
+    travelPlans: parsedResponse.plans,
+    summary: parsedResponse.summary,
+    metadata: { model, attemptedModels, repairRounds },
+    cache: { status: 'miss', generatedAt: new Date().toISOString() }
+  };
+}
 
 export async function POST(request: NextRequest) {
+  // Token bucket per client, so reloading or opening another tab doesn't bypass it
+  const limited = checkRateLimit(request, mapRateLimiter);
+  if (limited) {
+    return limited;
+  }
+
   try {
-    const body: MapRecommendationRequest = await request.json();
-    const { coordinates, locationName, nearbyAttractions, nearbyCities } = body;
+    const body = await readJsonObject<MapRecommendationRequest>(request);
+
+    // A route replaces the clicked point with the midpoint between its ends
+    const requestedRoute = body.route;
+    const routeEnds = requestedRoute === undefined ? null : parseRouteEnds(requestedRoute);
+    if (requestedRoute !== undefined && !routeEnds) {
+      return errorResponse(
+        {
+          error: 'Invalid request',
+          message: INVALID_ROUTE_MESSAGE,
+          code: 'INVALID_REQUEST',
+          retryable: false
+        },
+        400
+      );
+    }
+
+    // A drawn area replaces the clicked point with the area's center
+    const requestedArea = routeEnds ? undefined : body.area;
+    const area = requestedArea === undefined ? null : parseMapArea(requestedArea);
+    if (requestedArea !== undefined && !area) {
+      return errorResponse(
+        {
+          error: 'Invalid request',
+          message: INVALID_AREA_MESSAGE,
+          code: 'INVALID_REQUEST',
+          retryable: false
+        },
+        400
+      );
+    }
+    const coordinates = routeEnds ? routeMidpoint(routeEnds) : area ? areaCenter(area) : body.coordinates;
 
     // Validate request
-    if (!coordinates || typeof coordinates.lat !== 'number' || typeof coordinates.lng !== 'number') {
-      return NextResponse.json(
-        { error: 'Invalid coordinates provided' },
-        { status: 400 }
+    if (!isValidCoordinates(coordinates)) {
+      return errorResponse(
+        {
+          error: 'Invalid request',
+          message: 'Invalid coordinates provided',
+          code: 'INVALID_REQUEST',
+          retryable: false
+        },
+        400
       );
     }
 
+    // Everything the prompt says about the location is looked up here, never taken from the client
+    // (the lookups are cached, so this reuses what /api/geo/context just fetched)
+    const requestFilters = parseMapFilters(body.filters?.radiusKm, body.filters?.interests);
+    const fullContext = await (routeEnds
+      ? buildRouteContext(routeEnds, requestFilters)
+      : area
+        ? buildAreaContext(area, requestFilters)
+        : buildLocationContext(coordinates, requestFilters));
+
+    if (!fullContext) {
+      return errorResponse(
+        {
+          error: 'No route',
+          message: 'Could not find a driving route between these points',
+          code: 'NO_ROUTE',
+          retryable: false
+        },
+        422
+      );
+    }
+    const { filters } = fullContext;
+
+    // Narrow the attractions to the ones the user ticked on the map, if any
+    const selectedIds = Array.isArray(body.selectedPlaceIds)
+      ? body.selectedPlaceIds.filter((id): id is string => typeof id === 'string')
+      : [];
+    const hasSelection = selectedIds.length > 0;
+    const context = hasSelection
+      ? { ...fullContext, attractions: fullContext.attractions.filter(a => selectedIds.includes(a.id)) }
+      : fullContext;
+
+    if (hasSelection && context.attractions.length === 0) {
+      return errorResponse(
+        {
+          error: 'Invalid request',
+          message: 'None of the selected attractions belong to this location',
+          code: 'INVALID_REQUEST',
+          retryable: false
+        },
+        400
+      );
+    }
+    const { locationName, attractions: nearbyAttractions, nearbyCities, isRemote, isWater, route } = context;
+
     // Build context about the location
-    const hasAttractions = nearbyAttractions && nearbyAttractions.length > 0;
-    const attractionsSource = hasAttractions && nearbyAttractions[0]?.kinds?.includes('wikipedia') 
-      ? '(from Wikipedia - notable places)'
-      : '(from OpenTripMap - tourist attractions)';
-    
+    const hasAttractions = nearbyAttractions.length > 0;
+    const attractionsSource = route
+      ? `(merged from ${context.placeSources.join(', ')}; in driving order, with the distance along the route and off it)`
+      : `(merged from ${context.placeSources.join(', ')}; ranked by popularity and how many sources list them)`;
+
+    // Along a route, list attractions in the order they are passed
+    const listedAttractions = route
+      ? [...nearbyAttractions.slice(0, 15)].sort((a, b) => (a.routeKm ?? 0) - (b.routeKm ?? 0))
+      : nearbyAttractions.slice(0, 15);
+
     const attractionsText = hasAttractions
-      ? `${attractionsSource}\n` + nearbyAttractions
-          .slice(0, 15)
-          .map((a, idx) => `${idx + 1}. ${a.name} - ${(a.dist / 1000).toFixed(1)} km away${a.rate > 0 && a.rate !== 3 ? ` (rating: ${a.rate}/7)` : ''}`)
+      ? `${attractionsSource}\n` + listedAttractions
+          .map((a, idx) => {
+            const details = [
+              a.category !== 'other' ? a.category : null,
+              a.popularity !== undefined ? `popularity: ${Math.round(a.popularity * 10)}/10` : null
+            ].filter(Boolean).join(', ');
+            const where = route
+              ? `at km ${Math.round(a.routeKm ?? 0)} of the route, ${(a.distance / 1000).toFixed(1)} km off it`
+              : `${(a.distance / 1000).toFixed(1)} km away`;
+            return `${idx + 1}. ${a.name} - ${where}${details ? ` (${details})` : ''}${describePlaceDetails(a)}`;
+          })
           .join('\n')
       : 'No major attractions found in the database for this area. Focus on general local experiences and culture.';
 
-    const citiesText = nearbyCities && nearbyCities.length > 0
+    const citiesText = nearbyCities.length > 0
       ? nearbyCities.slice(0, 5).join(', ')
       : 'No major cities found nearby';
 
-    // Handle edge cases
-    const isRemote = (!nearbyAttractions || nearbyAttractions.length === 0) && 
-                     (!nearbyCities || nearbyCities.length === 0);
-    
-    const isWater = locationName.toLowerCase().includes('ocean') || 
-                    locationName.toLowerCase().includes('sea') ||
-                    locationName.toLowerCase().includes('atlantic') ||
-                    locationName.toLowerCase().includes('pacific');
+    const interestsText = filters.interests.length > 0
+      ? `\nThe user is interested in: ${filters.interests
+          .map(id => MAP_INTERESTS.find(interest => interest.id === id)?.label.toLowerCase() || id)
+          .join(', ')}. Every plan should fit at least one of these interests.\n`
+      : '';
+
+    // A drawn area is a hard boundary, on top of the radius
+    const areaSize = area ? areaSizeKm(area) : null;
+    const areaText = area && areaSize
+      ? `\nThe user drew a ${area.shape} on the map, about ${Math.max(1, Math.round(areaSize.width))} × ${Math.max(1, Math.round(areaSize.height))} km, centered on these coordinates. Every plan MUST be inside this area; the attractions listed are the ones within it.\n`
+      : '';
+
+    // Route mode asks for more, smaller plans: stops on the way rather than destinations
+    const maxPlans = route ? MAX_ROUTE_STOPS : MAX_MAP_PLANS;
+    const planCount = route ? `3-${MAX_ROUTE_STOPS}` : `2-${MAX_MAP_PLANS}`;
 
     // Construct the prompt
-    const systemPrompt = `You are a helpful travel advisor assistant. A user has clicked on a location on a map, and you need to provide personalized travel recommendations for that SPECIFIC area.
+    const systemPrompt = `You are a helpful travel advisor assistant. ${route
+      ? 'A user is planning a drive between two points on a map, and you need to suggest stops along that SPECIFIC route.'
+      : 'A user has clicked on a location on a map, and you need to provide personalized travel recommendations for that SPECIFIC area.'}
 
-Your task is to analyze the location information and nearby attractions, then create 2-3 compelling travel plan options.
+Your task is to analyze the location information and nearby attractions, then create ${planCount} compelling travel plan options.
 
 CRITICAL RULES:
-1. ALL travel plans MUST be centered around the clicked location
-2. ALL destinations MUST be in the same city/region as the clicked location or within 100km
+1. ALL travel plans MUST be ${route ? 'stops along the route' : 'centered around the clicked location'}
+2. ALL destinations MUST be ${route ? `within ${filters.radiusKm}km of the route` : `in the same city/region as the clicked location or within ${filters.radiusKm}km`}
 3. Do NOT recommend destinations in other countries or distant cities
 4. Focus on the local area, nearby attractions, and regional day trips only
 5. If the location is a small town, recommend exploring that town and its immediate surroundings
 6. ONLY use attractions from the "Nearby attractions" list provided - do NOT make up or add attractions from your general knowledge
 7. Do NOT mention activities that aren't supported by the provided data (e.g., don't say "hiking in mountains" if no mountains are listed)
 8. If the provided attractions list is empty or limited, focus on the general area and local experiences rather than inventing specific attractions
+9. Treat the "About" and "Opening hours" details of an attraction as facts; do NOT state opening hours, admission rules or history that aren't given
 
 IMPORTANT: You must respond with ONLY a valid JSON object. Do not include any text before or after the JSON.
 
@@ -69,7 +305,8 @@ The JSON must follow this exact structure:
       "duration": {
         "startDate": "YYYY-MM-DD",
         "endDate": "YYYY-MM-DD",
-        "nights": number
+        "nights": number,
+        "hours": number
       },
       "budget": {
         "estimated": number,
@@ -106,7 +343,7 @@ FIELD DEFINITIONS:
   Example for Grouse Mountain: ["Ride the Skyride gondola", "Hike mountain trails", "Watch bear shows"]
 
 CRITICAL RULES:
-- Generate 2-3 SEPARATE plans (this means 2-3 items in the "plans" array)
+- Generate ${planCount} SEPARATE plans (this means ${planCount} items in the "plans" array)
 - EACH plan focuses on ONE SINGLE attraction
 - "highlights" = WHY this place is special (features, not the place name)
 - "activities" = WHAT you can do there (specific actions)
@@ -115,10 +352,15 @@ CRITICAL RULES:
   - Focus on what it costs to visit this ONE attraction for a day
   - Be realistic about admission fees, activity costs, meals, and local transport
 - Duration should reflect REALISTIC visit time in hours
-  - "hours": Estimated time needed to visit this attraction (e.g., 2-8 hours)
+${route
+  ? `  - "hours": Time to spend at this stop before driving on (usually 1-4 hours)
+  - Consider: the remaining drive, activities, meals
+  - Examples: Viewpoint (1h), Museum (2-3h), Old town (2-4h)
+  - nights should be 0 (a break in the drive)`
+  : `  - "hours": Estimated time needed to visit this attraction (e.g., 2-8 hours)
   - Consider: travel time, activities, meals
   - Examples: Museum (2-3h), Theme park (6-8h), Mountain (4-6h), Park (2-4h)
-  - nights should be 0 (day trip)
+  - nights should be 0 (day trip)`}
   - startDate and endDate should be the same
 
 EXAMPLE:
@@ -131,60 +373,85 @@ Plan 2: Stanley Park
 
     let userPrompt = '';
 
-    if (isWater) {
+    // A selection or a drawn area means the user chose where to go, so use the attraction prompt even over water
+    const userChosePlaces = hasSelection || area !== null;
+    if (route) {
+      userPrompt = `The user is driving from ${route.originName} to ${route.destinationName}: ${route.distanceKm} km, about ${Math.floor(route.durationMinutes / 60)}h ${route.durationMinutes % 60}min without stops.
+
+=== ATTRACTIONS ALONG THE ROUTE (USE ONLY THESE) ===
+${attractionsText}
+=== END OF ATTRACTIONS LIST ===
+${interestsText}
+IMPORTANT: Create ${planCount} travel plans, each ONE stop on the way, listed in driving order from ${route.originName}.
+${hasSelection ? `
+The user picked the attractions above on the map. Build every stop around them and nothing else.
+` : ''}
+Requirements:
+1. Every stop must be one of the attractions listed above; they are all within ${route.corridorKm}km of the route
+2. Prefer stops spread along the route with short detours, so the trip still gets done in a day or two
+3. In "considerations", give the stop's detour (there and back, about twice its distance off the route) and where along the route it is, using the figures above
+4. "duration": a stop is a break in the drive, so "hours" is the visit time (usually 1-4 hours); nights 0
+5. Budget covers admission, a meal or snacks and the extra fuel for the detour
+6. Do NOT suggest ${route.originName} or ${route.destinationName} themselves, or anything that isn't in the list
+
+CRITICAL: Base your recommendations ONLY on the provided data. Do NOT invent attractions, towns or roadside stops that aren't in the list.`;
+    } else if (isWater && !userChosePlaces) {
       userPrompt = `The user clicked on a water location: ${locationName}
 Coordinates: ${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}
 
 Nearby cities: ${citiesText}
-
+${interestsText}
 IMPORTANT: Since this is a water location, recommend ONLY the nearest coastal cities and beach destinations.
 
 Create 2-3 travel plans that:
 1. Focus on the CLOSEST coastal cities to these coordinates
 2. Include beach destinations and water-based activities in THIS REGION
-3. Stay within 200km of the clicked location
+3. Stay within ${filters.radiusKm}km of the clicked location
 4. Do NOT recommend distant countries or far-away destinations
+5. Are day trips: give each a realistic visit time in "hours" (nights 0)
 
 All destinations must be near the clicked coordinates: ${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}`;
-    } else if (isRemote) {
+    } else if (isRemote && !userChosePlaces) {
       userPrompt = `The user clicked on a remote location: ${locationName}
 Coordinates: ${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}
 
-IMPORTANT: This is a remote area. Recommend experiences focused on THIS SPECIFIC LOCATION.
+${interestsText}IMPORTANT: This is a remote area. Recommend experiences focused on THIS SPECIFIC LOCATION.
 
 Create 2-3 travel plans that:
 1. Focus on ${locationName} and its immediate surroundings
 2. Include adventure and nature-focused experiences in THIS AREA
-3. Suggest nearby towns (within 100km) that could serve as base camps
+3. Suggest nearby towns (within ${filters.radiusKm}km) that could serve as base camps
 4. Embrace the remote, off-the-beaten-path nature of THIS SPECIFIC LOCATION
 5. Do NOT recommend distant cities or other countries
 
 All destinations must be centered around: ${locationName}`;
     } else {
-      userPrompt = `The user clicked on this location: ${locationName}
+      userPrompt = `The user ${area ? 'selected an area around' : 'clicked on'} this location: ${locationName}
 Coordinates: ${coordinates.lat.toFixed(4)}, ${coordinates.lng.toFixed(4)}
-
+${areaText}
 === NEARBY ATTRACTIONS (USE ONLY THESE) ===
 ${attractionsText}
 === END OF ATTRACTIONS LIST ===
 
 Nearby cities: ${citiesText}
-
+${interestsText}
 IMPORTANT: Create 2-3 diverse travel plan options that are ALL focused on ${locationName} and its immediate surroundings.
-
+${hasSelection ? `
+The user picked the attractions above on the map. Build every plan around them (one per plan, or a combination) and nothing else.
+` : ''}
 YOU MUST USE ONLY THE ATTRACTIONS LISTED ABOVE. These are the actual attractions near this location based on real geographic data.
 
 NOTE: The list may include some infrastructure (subway stations, roads). Focus on actual tourist attractions, landmarks, parks, museums, historic sites, and cultural venues. Ignore pure infrastructure.
 
 Requirements:
-1. ALL plans must have "${locationName}" or a nearby location (within 100km) as the destination
+1. ALL plans must have "${locationName}" or a nearby location (within ${filters.radiusKm}km) as the destination
 2. ONLY use attractions from the "Nearby attractions" list above - these are the ACTUAL attractions near this location
 3. Do NOT add attractions from your general knowledge that aren't in the list
 4. If an attraction is listed with a distance, respect that distance - don't suggest things that are far away
 5. Include day trip options to nearby cities ONLY if they are in the "Nearby cities" list
 6. Cater to different travel styles (budget, luxury, adventure, cultural, etc.)
 7. Provide realistic budget estimates
-8. Suggest appropriate trip durations (2-7 nights)
+8. Give each plan a realistic visit time in "hours" (a day trip, so nights 0)
 9. If the attractions list is limited, focus on local experiences, food, culture, and exploring the neighborhood
 
 CRITICAL: Base your recommendations ONLY on the provided data. Do NOT invent attractions, mountains, beaches, or other features that aren't mentioned in the nearby attractions list.
@@ -192,69 +459,44 @@ CRITICAL: Base your recommendations ONLY on the provided data. Do NOT invent att
 DO NOT recommend destinations in other countries or distant cities. Keep everything focused on the clicked location: ${locationName}.`;
     }
 
-    // Call OpenRouter API
-    const response = await openRouterClient.chat(
-      [
-        { role: 'system', content: systemPrompt, timestamp: Date.now() },
-        { role: 'user', content: userPrompt, timestamp: Date.now() }
-      ],
-      {
-        temperature: 0.7,
-        maxTokens: 2000,
-      }
+    // Aggregates token usage of every LLM call made for this map click
+    const tracker = new UsageTracker('map');
+
+    // Reuse the answer generated for the same tile and prompt data unless the user asked to regenerate
+    const { value: recommendations, cache } = await cachedGeoLookup(
+      'recommendations',
+      coordinates,
+      signal => generateRecommendations(systemPrompt, userPrompt, signal, tracker, maxPlans),
+      { variant: hashPromptInput(context, hasSelection), refresh: body.regenerate === true, signal: request.signal }
     );
 
-    // Parse the response
-    let parsedResponse;
-    try {
-      // Try to extract JSON from the response
-      const content = response.content.trim();
-      
-      // Remove markdown code blocks if present
-      const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) || 
-                       content.match(/(\{[\s\S]*\})/);
-      
-      if (jsonMatch) {
-        parsedResponse = JSON.parse(jsonMatch[1]);
-      } else {
-        parsedResponse = JSON.parse(content);
-      }
-    } catch (parseError) {
-      console.error('Failed to parse LLM response:', response.content);
-      return NextResponse.json(
-        { error: 'Failed to generate valid recommendations. Please try again.' },
-        { status: 500 }
-      );
+    // A cached answer didn't cost an LLM call, so it doesn't count against the limit
+    if (cache === 'hit') {
+      mapRateLimiter.refund(getClientKey(request));
     }
 
-    // Validate the response structure
-    if (!parsedResponse.plans || !Array.isArray(parsedResponse.plans)) {
-      return NextResponse.json(
-        { error: 'Invalid response format from AI' },
-        { status: 500 }
-      );
-    }
+    // Verify against this click's context (cached answers were generated from the same attractions)
+    const groundingMode = getGroundingMode();
+    const { plans, droppedPlans } = applyGrounding(recommendations.travelPlans, context, coordinates, groundingMode);
 
-    // Ensure each plan has an ID
-    const travelPlans: TravelPlan[] = parsedResponse.plans.map((plan: any, index: number) => ({
-      ...plan,
-      id: plan.id || `map-plan-${Date.now()}-${index}`
-    }));
+    // Pin each plan on the map, and put route stops in driving order
+    const pinnedPlans = await resolvePlanLocations(plans, context, coordinates);
+    const travelPlans = route ? orderRouteStops(pinnedPlans, route) : pinnedPlans;
 
     const result: MapRecommendationResponse = {
+      ...recommendations,
       travelPlans,
-      summary: parsedResponse.summary || 'Here are some travel recommendations for this location.',
+      // Report this request's usage (none on a cache hit)
+      metadata: recommendations.metadata && { ...recommendations.metadata, usage: tracker.toMetadata() },
+      cache: { status: cache, generatedAt: recommendations.cache?.generatedAt || new Date().toISOString() },
+      grounding: { mode: groundingMode, droppedPlans }
     };
 
     return NextResponse.json(result);
   } catch (error) {
     console.error('Error in map-recommendations API:', error);
-    
-    const errorMessage = error instanceof Error ? error.message : 'An unexpected error occurred';
-    
-    return NextResponse.json(
-      { error: errorMessage },
-      { status: 500 }
-    );
+
+    // Map typed provider and validation errors onto ErrorResponse
+    return toErrorResponse(error);
   }
 }
@@ -0,0 +1,62 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { MAX_USAGE_WINDOW_MINUTES, summarizeUsage } from '@/lib/usage';
+import { errorResponse } from '@/lib/api-errors';
+
+// Default summary window
+const DEFAULT_WINDOW_MINUTES = 60;
+
+/**
+ * Whether the request may read usage: it must send USAGE_ADMIN_TOKEN as a bearer
+ * token; without a configured token, usage is only served in development
+ */
+function isAuthorized(request: NextRequest): boolean {
+  const token = process.env.USAGE_ADMIN_TOKEN;
+  if (!token) {
+    return process.env.NODE_ENV === 'development';
+  }
+
+  const provided = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1] ?? '';
+  // Compare digests so the comparison takes the same time whatever was sent
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(provided), digest(token));
+}
+
+/**
+ * API Route: /api/usage
+ * Summarises recent token consumption and estimated cost per model and route
+ * Query: ?minutes=60 (window size)
+ * Requires "Authorization: Bearer <USAGE_ADMIN_TOKEN>" (open in development when no token is set)
+ *
+ * Usage is kept in memory, so the summary covers this server instance since it started
+ */
+export async function GET(request: NextRequest) {
+  if (!isAuthorized(request)) {
+    return errorResponse(
+      {
+        error: 'Unauthorized',
+        message: 'Usage requires the admin token (USAGE_ADMIN_TOKEN) as a bearer token',
+        code: 'UNAUTHORIZED',
+        retryable: false
+      },
+      401
+    );
+  }
+
+  const minutesParam = request.nextUrl.searchParams.get('minutes');
+  const windowMinutes = minutesParam === null ? DEFAULT_WINDOW_MINUTES : Number(minutesParam);
+
+  if (!Number.isFinite(windowMinutes) || windowMinutes <= 0 || windowMinutes > MAX_USAGE_WINDOW_MINUTES) {
+    return errorResponse(
+      {
+        error: 'Invalid request',
+        message: `minutes must be between 1 and ${MAX_USAGE_WINDOW_MINUTES}`,
+        code: 'INVALID_REQUEST',
+        retryable: false
+      },
+      400
+    );
+  }
+
+  return NextResponse.json(summarizeUsage(windowMinutes));
+}
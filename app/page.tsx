@@ -5,79 +5,132 @@ import VoiceRecorder from '@/components/VoiceRecorder';
 import VoiceSynthesis from '@/components/VoiceSynthesis';
 import ConversationDisplay from '@/components/ConversationDisplay';
 import TravelCard from '@/components/TravelCard';
+import PreferenceChips from '@/components/PreferenceChips';
+import ItineraryBar from '@/components/ItineraryBar';
+import ItineraryTimeline from '@/components/ItineraryTimeline';
+import PlanChanges from '@/components/PlanChanges';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
-import { Message, TravelPlan, AssistantResponse } from '@/lib/types';
+import { Message, TravelPlan, AssistantResponse, AssistantStreamEvent, TravelPreferences, PreferenceOverrides, PlanRefinement } from '@/lib/types';
+import { ApiRequestError, apiErrorFromResponse } from '@/lib/errors';
+import { useRetryCountdown } from '@/lib/use-retry-countdown';
+import { useItinerary } from '@/lib/use-itinerary';
 
 // Lazy load MapView to avoid SSR issues with Leaflet
 const MapView = lazy(() => import('@/components/MapView'));
 
+// Generate a random id for a new conversation
+const createConversationId = () => `conv-${Date.now()}-${Math.random().toString(36).slice(2, 10)}`;
+
 export default function Home() {
   // Initialize state
   const [messages, setMessages] = useState<Message[]>([]);
   const [travelPlans, setTravelPlans] = useState<TravelPlan[] | null>(null);
   const [summary, setSummary] = useState<string | null>(null);
+  // What the last follow-up changed in a single plan ("make plan 2 cheaper")
+  const [refinement, setRefinement] = useState<PlanRefinement | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [hasStarted, setHasStarted] = useState(false);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
   const [mode, setMode] = useState<'voice' | 'map' | null>(null);
   const [currentSpeech, setCurrentSpeech] = useState<string | null>(null);
-
-  // Retry mechanism with exponential backoff
-  const callAssistantWithRetry = async (
-    messages: Message[],
-    maxRetries = 3,
-    baseDelay = 1000
+  const [isStreaming, setIsStreaming] = useState(false);
+  // Identifies this conversation so the server can aggregate its token usage
+  const [conversationId, setConversationId] = useState(createConversationId);
+  // Preferences the assistant has gathered, and the chips the user edited (sent with every request)
+  const [preferences, setPreferences] = useState<TravelPreferences | null>(null);
+  const [preferenceOverrides, setPreferenceOverrides] = useState<PreferenceOverrides>({});
+  // Seconds until the server's rate limiter accepts another message
+  const { secondsLeft: retryIn, start: startRetryCountdown } = useRetryCountdown();
+  // Plans ticked for a multi-day itinerary, kept across new recommendations
+  const itinerary = useItinerary();
+
+  // Read a streamed reply (server-sent events), reporting the accumulated text as it grows
+  // Resolves with the final done event's response, which carries preferences and metadata
+  const readStreamedResponse = async (
+    response: Response,
+    onDelta: (partial: string) => void
   ): Promise<AssistantResponse> => {
-    let lastError: Error | null = null;
-
-    for (let attempt = 0; attempt < maxRetries; attempt++) {
-      try {
-        const response = await fetch('/api/assistant', {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-          },
-          body: JSON.stringify({ messages }),
-        });
-
-        if (!response.ok) {
-          const errorData = await response.json().catch(() => ({}));
-          
-          // Don't retry on client errors (400-499) except 429 (rate limit)
-          if (response.status >= 400 && response.status < 500 && response.status !== 429) {
-            throw new Error(errorData.message || `Request failed with status ${response.status}`);
-          }
+    if (!response.body) {
+      throw new ApiRequestError('The reply stream could not be read', 'STREAM_ERROR', response.status, true);
+    }
 
-          // Retry on server errors (500+) and rate limits (429)
-          throw new Error(errorData.message || `Server error: ${response.status}`);
-        }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    // Events are separated by a blank line; the last piece may still be incomplete
+    const handleEvent = (block: string): AssistantResponse | null => {
+      const type = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (!type || data === undefined) return null;
+
+      const event = { type, ...JSON.parse(data) } as AssistantStreamEvent;
+      switch (event.type) {
+        case 'delta':
+          text += event.content;
+          onDelta(text);
+          return null;
+        case 'done':
+          return event.response;
+        case 'error':
+          throw new ApiRequestError(event.error.message, event.error.code, response.status, event.error.retryable, event.error.retryAfter);
+      }
+    };
 
-        const data: AssistantResponse = await response.json();
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
 
-        // Check for error in response
-        if (data.error) {
-          throw new Error(data.error);
-        }
+      const blocks = buffer.split('\n\n');
+      buffer = done ? '' : blocks.pop() ?? '';
+      for (const block of blocks) {
+        const final = handleEvent(block);
+        if (final) return final;
+      }
 
-        return data;
-      } catch (err) {
-        lastError = err instanceof Error ? err : new Error('Unknown error');
-        
-        // If this is the last attempt, throw the error
-        if (attempt === maxRetries - 1) {
-          throw lastError;
-        }
+      if (done) break;
+    }
 
-        // Wait before retrying (exponential backoff)
-        const delay = baseDelay * Math.pow(2, attempt);
-        console.log(`Retry attempt ${attempt + 1}/${maxRetries} after ${delay}ms`);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+    throw new ApiRequestError('The reply stream ended unexpectedly', 'STREAM_ERROR', response.status, true);
+  };
+
+  // Call the assistant API; retries with Retry-After handling happen server-side
+  const callAssistant = async (
+    messages: Message[],
+    onDelta: (partial: string) => void
+  ): Promise<AssistantResponse> => {
+    const response = await fetch('/api/assistant', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      // Plans on screen let follow-ups edit one plan instead of regenerating them all
+      body: JSON.stringify({ messages, conversationId, stream: true, preferenceOverrides, currentPlans: travelPlans ?? undefined }),
+    }).catch((err) => {
+      // fetch only rejects when the server can't be reached
+      throw new ApiRequestError(err instanceof Error ? err.message : 'Network error', 'NETWORK_ERROR', 0, true);
+    });
+
+    if (!response.ok) {
+      throw await apiErrorFromResponse(response);
+    }
+
+    // Conversational replies arrive as a stream of events, recommendations as JSON
+    if (response.headers.get('Content-Type')?.startsWith('text/event-stream')) {
+      return readStreamedResponse(response, onDelta);
     }
 
-    throw lastError || new Error('Failed after retries');
+    const data: AssistantResponse = await response.json();
+
+    // Check for error in response
+    if (data.error) {
+      throw new Error(data.error);
+    }
+
+    return data;
   };
 
   // Handle voice transcript from VoiceRecorder
@@ -101,9 +154,24 @@ export default function Home() {
     // Set loading state
     setIsLoading(true);
 
+    // Timestamp of the first streamed token, reused so the message bubble stays stable
+    let streamTimestamp: number | null = null;
+
     try {
-      // Call API with retry mechanism
-      const data = await callAssistantWithRetry(updatedMessages);
+      // Call API, rendering partial replies as they stream in
+      const data = await callAssistant(updatedMessages, (partial) => {
+        streamTimestamp = streamTimestamp ?? Date.now();
+        setIsStreaming(true);
+        setMessages([
+          ...updatedMessages,
+          { role: 'assistant', content: partial, timestamp: streamTimestamp },
+        ]);
+        setCurrentSpeech(partial);
+      });
+
+      if (data.preferences) {
+        setPreferences(data.preferences);
+      }
 
       // Handle text response or travel plans
       if (data.message) {
@@ -111,7 +179,7 @@ export default function Home() {
         const assistantMessage: Message = {
           role: 'assistant',
           content: data.message,
-          timestamp: Date.now(),
+          timestamp: streamTimestamp ?? Date.now(),
         };
         setMessages([...updatedMessages, assistantMessage]);
         
@@ -122,36 +190,64 @@ export default function Home() {
       // Update UI based on response type
       if (data.travelPlans && data.travelPlans.length > 0) {
         setTravelPlans(data.travelPlans);
-        setSummary(data.summary || null);
-        
-        // Speak the summary if available
-        if (data.summary) {
-          setCurrentSpeech(data.summary);
+
+        if (data.refinement) {
+          // One plan was edited in place: keep the summary and show what changed
+          setRefinement(data.refinement);
+
+          // If it was picked for the itinerary, the itinerary uses the edited version
+          const { planId } = data.refinement;
+          const previous = travelPlans?.find(plan => plan.id === planId);
+          const updated = data.travelPlans.find(plan => plan.id === planId);
+          if (previous && updated) {
+            itinerary.replacePlan(previous, updated);
+          }
+        } else {
+          setRefinement(null);
+          setSummary(data.summary || null);
+
+          // Speak the summary if available
+          if (data.summary) {
+            setCurrentSpeech(data.summary);
+          }
         }
       }
     } catch (err) {
+      // Drop any partially streamed reply so the last message is the user's again
+      setMessages(updatedMessages);
+
       // Enhanced error handling with user-friendly messages
       const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
+      const errorCode = err instanceof ApiRequestError ? err.code : null;
       
       let userFriendlyMessage = errorMessage;
       
       // Provide specific guidance based on error type
-      if (errorMessage.includes('network') || errorMessage.includes('fetch')) {
-        userFriendlyMessage = '🌐 Network error: Please check your internet connection and try again.';
-      } else if (errorMessage.includes('rate limit') || errorMessage.includes('429')) {
-        userFriendlyMessage = '⏱️ Too many requests: Please wait a moment before trying again.';
-      } else if (errorMessage.includes('timeout')) {
-        userFriendlyMessage = '⏰ Request timed out: The server took too long to respond. Please try again.';
-      } else if (errorMessage.includes('Invalid JSON') || errorMessage.includes('parse')) {
-        userFriendlyMessage = '🔧 Response error: Received an invalid response. Please try again.';
-      } else {
-        userFriendlyMessage = `❌ ${errorMessage}`;
+      switch (errorCode) {
+        case 'NETWORK_ERROR':
+          userFriendlyMessage = '🌐 Network error: Please check your internet connection and try again.';
+          break;
+        case 'RATE_LIMIT':
+          userFriendlyMessage = '⏱️ Too many requests: Please wait a moment before trying again.';
+          if (err instanceof ApiRequestError && err.retryAfter) {
+            startRetryCountdown(err.retryAfter);
+          }
+          break;
+        case 'TIMEOUT':
+          userFriendlyMessage = '⏰ Request timed out: The server took too long to respond. Please try again.';
+          break;
+        case 'VALIDATION_ERROR':
+          userFriendlyMessage = '🔧 Response error: Received an invalid response. Please try again.';
+          break;
+        default:
+          userFriendlyMessage = `❌ ${errorMessage}`;
       }
       
       setError(userFriendlyMessage);
       console.error('Error calling assistant API:', err);
     } finally {
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
@@ -176,9 +272,15 @@ export default function Home() {
     setHasStarted(false);
     setMode(null);
     setMessages([]);
+    setConversationId(createConversationId());
+    setPreferences(null);
+    setPreferenceOverrides({});
     setTravelPlans(null);
     setSummary(null);
+    setRefinement(null);
     setError(null);
+    itinerary.clear();
+    itinerary.close();
   };
 
   // Map mode
@@ -216,7 +318,7 @@ export default function Home() {
               Travle.ai
             </h1>
             <p className="text-lg sm:text-xl text-foreground/80 px-4 font-medium">
-              Travel advisor - tell me about your dream vacation, and I'll create personalized travel plans just for you
+              Travel advisor - tell me about your dream vacation, and I&apos;ll create personalized travel plans just for you
             </p>
           </div>
 
@@ -239,7 +341,7 @@ export default function Home() {
                   </li>
                   <li className="flex items-start">
                     <span className="font-bold mr-2 text-secondary flex-shrink-0">2.</span>
-                    <span>I'll ask questions to understand your needs</span>
+                    <span>I&apos;ll ask questions to understand your needs</span>
                   </li>
                   <li className="flex items-start">
                     <span className="font-bold mr-2 text-accent flex-shrink-0">3.</span>
@@ -339,9 +441,21 @@ export default function Home() {
           </div>
         </div>
 
+        {/* Gathered preferences, editable as chips */}
+        {(preferences || Object.keys(preferenceOverrides).length > 0) && (
+          <div className="border-b border-primary/10 px-4 sm:px-6 py-3 bg-card/60 backdrop-blur-sm">
+            <PreferenceChips
+              preferences={preferences}
+              overrides={preferenceOverrides}
+              onChange={setPreferenceOverrides}
+              disabled={isLoading}
+            />
+          </div>
+        )}
+
         {/* Conversation area */}
         <div className="flex-1 overflow-hidden min-h-0">
-          <ConversationDisplay messages={messages} isLoading={isLoading} />
+          <ConversationDisplay messages={messages} isLoading={isLoading && !isStreaming} />
         </div>
 
         {/* Voice recorder footer */}
@@ -349,6 +463,7 @@ export default function Home() {
           {/* Voice synthesis indicator */}
           <VoiceSynthesis
             text={currentSpeech}
+            isStreaming={isStreaming}
             autoPlay={true}
             onEnd={() => setCurrentSpeech(null)}
             onError={(error) => console.error('Voice synthesis error:', error)}
@@ -357,7 +472,7 @@ export default function Home() {
           <VoiceRecorder
             onTranscript={handleTranscript}
             onError={handleVoiceError}
-            disabled={isLoading}
+            disabled={isLoading || retryIn > 0}
           />
 
           {error && (
@@ -365,6 +480,9 @@ export default function Home() {
               <AlertTitle>Error</AlertTitle>
               <AlertDescription className="text-sm space-y-3">
                 <p>{error}</p>
+                {retryIn > 0 && (
+                  <p className="font-medium">You can try again in {retryIn} second{retryIn !== 1 ? 's' : ''}.</p>
+                )}
                 <div className="flex gap-2">
                   <Button
                     onClick={() => setError(null)}
@@ -385,6 +503,7 @@ export default function Home() {
                       variant="outline"
                       size="sm"
                       className="text-xs"
+                      disabled={retryIn > 0}
                     >
                       Retry Last Message
                     </Button>
@@ -460,10 +579,34 @@ export default function Home() {
                     </div>
                   )}
 
+                  {/* Plans ticked for a multi-day itinerary */}
+                  <ItineraryBar
+                    selectedCount={itinerary.selectedPlans.length}
+                    isBuilding={itinerary.isBuilding}
+                    error={itinerary.error}
+                    onBuild={itinerary.build}
+                    onClear={itinerary.clear}
+                  />
+
                   {/* Travel plan cards */}
                   <div className="space-y-4 sm:space-y-6">
                     {travelPlans.map((plan, index) => (
-                      <TravelCard key={plan.id || index} plan={plan} index={index} />
+                      <div key={plan.id || index}>
+                        {refinement?.planId === plan.id && (
+                          <PlanChanges
+                            destination={plan.destination}
+                            changes={refinement.changes}
+                            onDismiss={() => setRefinement(null)}
+                          />
+                        )}
+                        <TravelCard
+                          plan={plan}
+                          index={index}
+                          isHighlighted={refinement?.planId === plan.id}
+                          isSelected={itinerary.isSelected(plan)}
+                          onSelectChange={(selected) => itinerary.setSelected(plan, selected)}
+                        />
+                      </div>
                     ))}
                   </div>
                 </div>
@@ -472,6 +615,14 @@ export default function Home() {
           </div>
         </>
       )}
+
+      {itinerary.built && (
+        <ItineraryTimeline
+          itinerary={itinerary.built.itinerary}
+          plans={itinerary.built.plans}
+          onClose={itinerary.close}
+        />
+      )}
     </main>
   );
 }
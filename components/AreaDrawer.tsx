@@ -0,0 +1,117 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { CircleMarker, Polyline, Rectangle, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { AreaDrawerProps, LocationCoordinates } from '@/lib/types';
+import { MIN_POLYGON_POINTS, rectangleArea } from '@/lib/map-area';
+
+// Clicks this close (pixels) to the first vertex close the polygon; this close to
+// the previous vertex they are ignored (the two clicks of a double-click)
+const SNAP_PIXELS = 12;
+
+// Dashed outline for the shape being drawn
+const DRAFT_STYLE: L.PathOptions = { color: '#ef4444', weight: 2, dashArray: '6 6', fillOpacity: 0.08 };
+
+/**
+ * Draws a search area on the map
+ * Rectangle: click two opposite corners. Polygon: click the vertices, then
+ * double-click or click the first vertex to finish. Escape cancels.
+ */
+export default function AreaDrawer({ shape, onComplete, onCancel }: AreaDrawerProps) {
+  const map = useMap();
+  const [points, setPoints] = useState<LocationCoordinates[]>([]);
+  const [cursor, setCursor] = useState<LocationCoordinates | null>(null);
+
+  // A double-click finishes a polygon, so it mustn't zoom while drawing
+  useEffect(() => {
+    const container = map.getContainer();
+    map.doubleClickZoom.disable();
+    container.style.cursor = 'crosshair';
+    return () => {
+      map.doubleClickZoom.enable();
+      container.style.cursor = '';
+    };
+  }, [map]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onCancel();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onCancel]);
+
+  const pixelDistance = (a: LocationCoordinates, b: L.Point) =>
+    map.latLngToContainerPoint([a.lat, a.lng]).distanceTo(b);
+
+  const finishPolygon = () => {
+    if (points.length >= MIN_POLYGON_POINTS) {
+      setPoints([]);
+      onComplete({ shape: 'polygon', points });
+    }
+  };
+
+  useMapEvents({
+    click: (e) => {
+      const point = { lat: e.latlng.lat, lng: e.latlng.lng };
+
+      if (shape === 'rectangle') {
+        if (points.length === 0) {
+          setPoints([point]);
+        } else {
+          setPoints([]);
+          onComplete(rectangleArea(points[0], point));
+        }
+        return;
+      }
+
+      if (points.length >= MIN_POLYGON_POINTS && pixelDistance(points[0], e.containerPoint) < SNAP_PIXELS) {
+        finishPolygon();
+      } else if (points.length === 0 || pixelDistance(points[points.length - 1], e.containerPoint) >= SNAP_PIXELS) {
+        setPoints([...points, point]);
+      }
+    },
+    dblclick: () => {
+      if (shape === 'polygon') {
+        finishPolygon();
+      }
+    },
+    mousemove: (e) => setCursor({ lat: e.latlng.lat, lng: e.latlng.lng })
+  });
+
+  if (points.length === 0) {
+    return null;
+  }
+
+  if (shape === 'rectangle') {
+    return cursor && (
+      <Rectangle
+        bounds={[[points[0].lat, points[0].lng], [cursor.lat, cursor.lng]]}
+        pathOptions={DRAFT_STYLE}
+        interactive={false}
+      />
+    );
+  }
+
+  return (
+    <>
+      <Polyline
+        positions={[...points, ...(cursor ? [cursor] : [])].map(point => [point.lat, point.lng] as [number, number])}
+        pathOptions={DRAFT_STYLE}
+        interactive={false}
+      />
+      {points.map((point, index) => (
+        <CircleMarker
+          key={index}
+          center={[point.lat, point.lng]}
+          radius={index === 0 ? 6 : 4}
+          pathOptions={{ color: '#ef4444', fillColor: '#ffffff', fillOpacity: 1, weight: 2 }}
+          interactive={false}
+        />
+      ))}
+    </>
+  );
+}
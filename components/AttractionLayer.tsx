@@ -0,0 +1,179 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import Image from 'next/image';
+import { Marker, Popup, useMap, useMapEvents } from 'react-leaflet';
+import L from 'leaflet';
+import { AttractionLayerProps, Place, PlaceCategory } from '@/lib/types';
+
+// Marker emoji per place category
+const CATEGORY_ICONS: Record<PlaceCategory, string> = {
+  museum: '🏛️',
+  historic: '🏰',
+  religion: '⛪',
+  architecture: '🏙️',
+  culture: '🎭',
+  nature: '🌳',
+  viewpoint: '🔭',
+  entertainment: '🎡',
+  food: '🍜',
+  nightlife: '🍸',
+  other: '📍'
+};
+
+// Markers closer than this on screen (pixels) are grouped into one cluster
+const CLUSTER_CELL_PIXELS = 56;
+
+interface Cluster {
+  key: string;
+  places: Place[];
+  center: L.LatLng;
+}
+
+/**
+ * Group places that fall into the same screen grid cell at the current zoom
+ */
+function clusterPlaces(map: L.Map, places: Place[], zoom: number): Cluster[] {
+  const cells = new Map<string, Place[]>();
+
+  for (const place of places) {
+    const point = map.project([place.coordinates.lat, place.coordinates.lng], zoom);
+    const key = `${Math.floor(point.x / CLUSTER_CELL_PIXELS)}:${Math.floor(point.y / CLUSTER_CELL_PIXELS)}`;
+    cells.set(key, [...(cells.get(key) || []), place]);
+  }
+
+  return Array.from(cells.entries()).map(([key, members]) => ({
+    key,
+    places: members,
+    center: L.latLngBounds(members.map(p => [p.coordinates.lat, p.coordinates.lng] as [number, number])).getCenter()
+  }));
+}
+
+/**
+ * Round marker showing the place's category (outlined when selected)
+ */
+function categoryIcon(category: PlaceCategory, selected: boolean): L.DivIcon {
+  return L.divIcon({
+    className: '',
+    html: `<div class="flex h-8 w-8 items-center justify-center rounded-full bg-white text-lg shadow-md ${selected ? 'ring-4 ring-primary' : 'border border-primary/30'}">${CATEGORY_ICONS[category]}</div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16],
+    popupAnchor: [0, -16]
+  });
+}
+
+/**
+ * Bubble with the number of places in a cluster
+ */
+function clusterIcon(count: number): L.DivIcon {
+  return L.divIcon({
+    className: '',
+    html: `<div class="flex h-10 w-10 items-center justify-center rounded-full bg-secondary/90 text-sm font-bold text-white shadow-lg border-2 border-white">${count}</div>`,
+    iconSize: [40, 40],
+    iconAnchor: [20, 20]
+  });
+}
+
+/**
+ * Nearby attractions as clustered category markers with selectable popups
+ */
+export default function AttractionLayer({ places, selectedIds, onToggleSelect }: AttractionLayerProps) {
+  const map = useMap();
+  const [zoom, setZoom] = useState(map.getZoom());
+
+  useMapEvents({
+    zoomend: () => setZoom(map.getZoom())
+  });
+
+  const clusters = useMemo(() => clusterPlaces(map, places, zoom), [map, places, zoom]);
+
+  return (
+    <>
+      {clusters.map(cluster => {
+        if (cluster.places.length > 1) {
+          return (
+            <Marker
+              key={`cluster-${cluster.key}`}
+              position={cluster.center}
+              icon={clusterIcon(cluster.places.length)}
+              eventHandlers={{
+                // Zoom in until the cluster splits up
+                click: () => map.fitBounds(
+                  L.latLngBounds(cluster.places.map(p => [p.coordinates.lat, p.coordinates.lng] as [number, number])),
+                  { padding: [60, 60], maxZoom: Math.max(zoom + 2, 16) }
+                )
+              }}
+            />
+          );
+        }
+
+        const attraction = cluster.places[0];
+        const selected = selectedIds.includes(attraction.id);
+
+        return (
+          <Marker
+            key={attraction.id}
+            position={[attraction.coordinates.lat, attraction.coordinates.lng]}
+            icon={categoryIcon(attraction.category, selected)}
+          >
+            <Popup>
+              <div className="text-sm max-w-[240px]">
+                {attraction.details?.image && (
+                  // Thumbnails come from arbitrary Wikimedia/OpenTripMap hosts, so they skip the optimizer
+                  <div className="relative w-full h-28 mb-2">
+                    <Image
+                      src={attraction.details.image}
+                      alt={attraction.name}
+                      fill
+                      unoptimized
+                      sizes="240px"
+                      className="object-cover rounded"
+                    />
+                  </div>
+                )}
+                <p className="font-bold">{CATEGORY_ICONS[attraction.category]} {attraction.name}</p>
+                <p className="text-xs text-foreground/70 mt-1">
+                  {(attraction.distance / 1000).toFixed(1)} km away
+                  {attraction.category !== 'other' && ` · ${attraction.category}`}
+                </p>
+                {attraction.popularity !== undefined && (
+                  <p className="text-xs text-foreground/70">
+                    Rating: {Math.round(attraction.popularity * 10)}/10
+                  </p>
+                )}
+                {(attraction.details?.wikipediaExtract || attraction.details?.description) && (
+                  <p className="text-xs mt-2 line-clamp-4">
+                    {attraction.details.wikipediaExtract || attraction.details.description}
+                  </p>
+                )}
+                {attraction.details?.openingHours && (
+                  <p className="text-xs text-foreground/70 mt-1">
+                    🕒 {attraction.details.openingHours}
+                  </p>
+                )}
+                {(attraction.details?.website || attraction.details?.wikipediaUrl) && (
+                  <p className="text-xs mt-1 flex gap-3">
+                    {attraction.details.website && (
+                      <a href={attraction.details.website} target="_blank" rel="noopener noreferrer">Website</a>
+                    )}
+                    {attraction.details.wikipediaUrl && (
+                      <a href={attraction.details.wikipediaUrl} target="_blank" rel="noopener noreferrer">Wikipedia</a>
+                    )}
+                  </p>
+                )}
+                <label className="mt-2 flex items-center gap-2 text-xs font-medium cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    onChange={() => onToggleSelect(attraction.id)}
+                  />
+                  Include in my plan
+                </label>
+              </div>
+            </Popup>
+          </Marker>
+        );
+      })}
+    </>
+  );
+}
@@ -72,7 +72,7 @@ class ErrorBoundary extends Component<Props, State> {
             <Alert variant="destructive" className="fade-in">
               <AlertTitle className="text-lg font-bold">Something went wrong</AlertTitle>
               <AlertDescription className="mt-2 space-y-2">
-                <p>We encountered an unexpected error. This has been logged and we'll look into it.</p>
+                <p>We encountered an unexpected error. This has been logged and we&apos;ll look into it.</p>
                 {this.state.error && (
                   <details className="mt-4">
                     <summary className="cursor-pointer text-sm font-medium">
@@ -0,0 +1,46 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ItineraryBarProps } from '@/lib/types';
+
+/**
+ * Selected-plan count with build and clear actions, shown above the plan list
+ * while at least one plan is ticked for an itinerary
+ */
+export default function ItineraryBar({ selectedCount, isBuilding, error, onBuild, onClear }: ItineraryBarProps) {
+  if (selectedCount === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="rounded-xl border-2 border-primary/30 bg-primary/5 p-3 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="text-sm font-semibold">
+          🗓️ {selectedCount} {selectedCount === 1 ? 'plan' : 'plans'} selected
+        </span>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onClear}
+            disabled={isBuilding || selectedCount === 0}
+          >
+            Clear
+          </Button>
+          <Button
+            size="sm"
+            onClick={onBuild}
+            disabled={isBuilding || selectedCount < 2}
+            title={selectedCount < 2 ? 'Select at least 2 plans' : undefined}
+          >
+            {isBuilding ? 'Building...' : 'Build itinerary'}
+          </Button>
+        </div>
+      </div>
+      {error && (
+        <p className="text-xs font-medium text-destructive">{error}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+'use client';
+
+import React, { useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { ItineraryItem, ItineraryTimelineProps, TravelMode } from '@/lib/types';
+
+// Timeline dot per item type, and per travel mode for travel legs
+const ITEM_ICONS: Record<ItineraryItem['type'], string> = { visit: '📍', travel: '🚗', meal: '🍽️' };
+const TRAVEL_ICONS: Record<TravelMode, string> = { walk: '🚶', drive: '🚗', flight: '✈️' };
+
+/**
+ * "2h 15m" for a number of minutes
+ */
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  return hours > 0 ? `${hours}h${rest > 0 ? ` ${rest}m` : ''}` : `${rest}m`;
+}
+
+/**
+ * Day-by-day itinerary as a vertical timeline, in a full-screen overlay
+ */
+export default function ItineraryTimeline({ itinerary, plans, onClose }: ItineraryTimelineProps) {
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const planFor = (planId?: string) => plans.find(plan => plan.id === planId);
+
+  const formatDate = (date: string) =>
+    new Date(`${date}T00:00:00`).toLocaleDateString('en-US', { weekday: 'short', month: 'short', day: 'numeric' });
+
+  const formatBudget = (amount: number, currency: string) =>
+    new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+
+  return (
+    <div
+      className="fixed inset-0 z-[2000] flex items-center justify-center bg-black/50 p-4"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-label="Itinerary"
+    >
+      <div
+        className="max-h-full w-full max-w-2xl overflow-y-auto rounded-2xl bg-background p-4 sm:p-6 shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="mb-4 flex items-start justify-between gap-4">
+          <div>
+            <h2 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent">
+              🗓️ Your {itinerary.days.length}-day itinerary
+            </h2>
+            <p className="mt-1 text-xs sm:text-sm text-foreground/70">
+              {itinerary.planIds.length} stops · {formatMinutes(itinerary.totalTravelMinutes)} of travel
+              {itinerary.budget && ` · ${formatBudget(itinerary.budget.estimated, itinerary.budget.currency)} estimated`}
+            </p>
+          </div>
+          <Button variant="outline" size="sm" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+
+        {itinerary.unlocatedPlans.length > 0 && (
+          <p className="mb-4 rounded-lg bg-destructive/10 px-3 py-2 text-xs font-medium text-destructive">
+            ⚠️ Couldn&apos;t locate {itinerary.unlocatedPlans.join(', ')}: placed at the end, travel times unknown
+          </p>
+        )}
+
+        <div className="space-y-6">
+          {itinerary.days.map(day => (
+            <section key={day.day}>
+              <h3 className="mb-3 text-sm font-bold text-primary">
+                Day {day.day} · {formatDate(day.date)}
+              </h3>
+              <ol className="relative ml-3 border-l-2 border-primary/20">
+                {day.items.map((item, index) => {
+                  const plan = item.type === 'visit' ? planFor(item.planId) : undefined;
+                  const icon = item.travel ? TRAVEL_ICONS[item.travel.mode] : ITEM_ICONS[item.type];
+
+                  return (
+                    <li key={index} className="relative mb-4 ml-6 last:mb-0">
+                      <span className="absolute -left-[37px] flex h-6 w-6 items-center justify-center rounded-full bg-background text-sm ring-2 ring-primary/20">
+                        {icon}
+                      </span>
+                      <div className="text-xs font-semibold text-foreground/60">
+                        {item.start} – {item.end}
+                      </div>
+                      <div className={item.type === 'visit' ? 'font-semibold' : 'text-sm text-foreground/80'}>
+                        {item.title}
+                        {item.travel && (
+                          <span className="text-foreground/60"> · {item.travel.distanceKm} km</span>
+                        )}
+                      </div>
+                      {plan?.highlights && plan.highlights.length > 0 && (
+                        <div className="text-xs text-foreground/70">{plan.highlights.slice(0, 3).join(' · ')}</div>
+                      )}
+                      {item.note && (
+                        <div className="text-xs italic text-foreground/60">{item.note}</div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ol>
+            </section>
+          ))}
+        </div>
+
+        <p className="mt-6 text-xs text-foreground/50">
+          Travel times are estimates from straight-line distance; check opening hours before you go.
+        </p>
+      </div>
+    </div>
+  );
+}
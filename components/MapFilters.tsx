@@ -0,0 +1,63 @@
+'use client';
+
+import React from 'react';
+import { MapFiltersProps, MapInterest } from '@/lib/types';
+import { MAP_INTERESTS, RADIUS_OPTIONS_KM } from '@/lib/map-filters';
+import { cn } from '@/lib/utils';
+
+/**
+ * Search radius and interest toggles for map mode
+ */
+export default function MapFilters({ filters, onChange, disabled = false, radiusNote }: MapFiltersProps) {
+  const toggleInterest = (id: MapInterest) => {
+    const interests = filters.interests.includes(id)
+      ? filters.interests.filter(interest => interest !== id)
+      : [...filters.interests, id];
+    onChange({ ...filters, interests });
+  };
+
+  return (
+    <div className="space-y-2">
+      {radiusNote ? (
+        <p className="text-xs text-foreground/60">{radiusNote}</p>
+      ) : (
+        <label className="flex items-center justify-between gap-2 text-xs font-medium">
+          <span>Search radius</span>
+          <select
+            value={filters.radiusKm}
+            onChange={(e) => onChange({ ...filters, radiusKm: Number(e.target.value) })}
+            disabled={disabled}
+            className="rounded-md border border-primary/30 bg-background px-2 py-1 text-xs"
+          >
+            {RADIUS_OPTIONS_KM.map(km => (
+              <option key={km} value={km}>{km} km</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      <div className="flex flex-wrap gap-1" role="group" aria-label="Interests">
+        {MAP_INTERESTS.map(interest => {
+          const active = filters.interests.includes(interest.id);
+          return (
+            <button
+              key={interest.id}
+              type="button"
+              onClick={() => toggleInterest(interest.id)}
+              disabled={disabled}
+              aria-pressed={active}
+              className={cn(
+                'rounded-full border px-2 py-0.5 text-xs transition-colors disabled:opacity-50',
+                active
+                  ? 'border-primary bg-primary text-primary-foreground'
+                  : 'border-primary/30 hover:bg-primary/10'
+              )}
+            >
+              {interest.icon} {interest.label}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,25 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { MapContainer, TileLayer, Marker, Popup, useMapEvents } from 'react-leaflet';
+import { MapContainer, TileLayer, Marker, Polygon, Polyline, Popup, useMap, useMapEvents } from 'react-leaflet';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-import { LocationCoordinates, OpenTripMapPlace, TravelPlan } from '@/lib/types';
+import { LocationContext, LocationCoordinates, MapArea, MapAreaShape, MapRecommendationResponse, MapSearchFilters, Place, RouteEnds, TravelPlan } from '@/lib/types';
 import { Button } from '@/components/ui/button';
 import TravelCard from '@/components/TravelCard';
+import AttractionLayer from '@/components/AttractionLayer';
+import PlaceSearch from '@/components/PlaceSearch';
+import MapFilters from '@/components/MapFilters';
+import AreaDrawer from '@/components/AreaDrawer';
+import ItineraryBar from '@/components/ItineraryBar';
+import ItineraryTimeline from '@/components/ItineraryTimeline';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
-
-// Fix for default marker icons in Leaflet with Next.js
-const icon = L.icon({
-  iconUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon.png',
-  iconRetinaUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-icon-2x.png',
-  shadowUrl: 'https://unpkg.com/leaflet@1.9.4/dist/images/marker-shadow.png',
-  iconSize: [25, 41],
-  iconAnchor: [12, 41],
-  popupAnchor: [1, -34],
-  shadowSize: [41, 41]
-});
+import { ApiRequestError, apiErrorFromResponse } from '@/lib/errors';
+import { useRetryCountdown } from '@/lib/use-retry-countdown';
+import { useItinerary } from '@/lib/use-itinerary';
+import { DEFAULT_MAP_FILTERS, filtersKey } from '@/lib/map-filters';
+import { areaCenter } from '@/lib/map-area';
+import { ROUTE_CORRIDOR_KM, routeMidpoint } from '@/lib/map-route';
 
 const clickedIcon = L.icon({
   iconUrl: 'https://raw.githubusercontent.com/pointhi/leaflet-color-markers/master/img/marker-icon-2x-red.png',
@@ -29,10 +30,39 @@ const clickedIcon = L.icon({
   shadowSize: [41, 41]
 });
 
+/**
+ * Lettered marker for the start (A) or end (B) of a route
+ */
+function routeEndIcon(label: 'A' | 'B'): L.DivIcon {
+  return L.divIcon({
+    className: '',
+    html: `<div class="flex h-8 w-8 items-center justify-center rounded-full bg-red-500 text-sm font-bold text-white shadow-lg border-2 border-white">${label}</div>`,
+    iconSize: [32, 32],
+    iconAnchor: [16, 16]
+  });
+}
+
+/**
+ * Numbered marker for a recommended plan (larger and outlined while highlighted)
+ */
+function planIcon(number: number, highlighted: boolean): L.DivIcon {
+  const size = highlighted ? 36 : 28;
+  return L.divIcon({
+    className: '',
+    html: `<div style="width:${size}px;height:${size}px;line-height:${size}px" class="rounded-full bg-gradient-to-r from-secondary to-primary text-white text-center font-bold text-sm shadow-lg ${highlighted ? 'ring-4 ring-white' : 'border-2 border-white'}">${number}</div>`,
+    iconSize: [size, size],
+    iconAnchor: [size / 2, size / 2],
+    popupAnchor: [0, -size / 2]
+  });
+}
+
 interface MapViewProps {
   onBack: () => void;
 }
 
+// What a lookup covers instead of just a clicked point
+type SearchShape = { area: MapArea } | { route: RouteEnds };
+
 // Component to handle map click events
 function MapClickHandler({ onClick }: { onClick: (coords: LocationCoordinates) => void }) {
   useMapEvents({
@@ -43,6 +73,20 @@ function MapClickHandler({ onClick }: { onClick: (coords: LocationCoordinates) =
   return null;
 }
 
+// Zoom used when jumping to a searched place or the user's location
+const FLY_TO_ZOOM = 12;
+
+// Component to move the map to a location picked outside the map (search, geolocation)
+function MapFlyTo({ target }: { target: LocationCoordinates | null }) {
+  const map = useMap();
+  useEffect(() => {
+    if (target) {
+      map.flyTo([target.lat, target.lng], Math.max(map.getZoom(), FLY_TO_ZOOM));
+    }
+  }, [map, target]);
+  return null;
+}
+
 export default function MapView({ onBack }: MapViewProps) {
   const [clickedLocation, setClickedLocation] = useState<LocationCoordinates | null>(null);
   const [locationName, setLocationName] = useState<string>('');
@@ -51,268 +95,272 @@ export default function MapView({ onBack }: MapViewProps) {
   const [travelPlans, setTravelPlans] = useState<TravelPlan[] | null>(null);
   const [summary, setSummary] = useState<string | null>(null);
   const [isPanelOpen, setIsPanelOpen] = useState(false);
-  const [nearbyAttractions, setNearbyAttractions] = useState<OpenTripMapPlace[]>([]);
-  const [lastClickTime, setLastClickTime] = useState<number>(0);
-
-  // Handle map click with cooldown
-  const handleMapClick = async (coords: LocationCoordinates) => {
-    // Implement cooldown to prevent rate limiting (20 seconds between clicks)
-    const now = Date.now();
-    const timeSinceLastClick = now - lastClickTime;
-    const cooldownPeriod = 20000; // 20 seconds
+  const [nearbyAttractions, setNearbyAttractions] = useState<Place[]>([]);
+  // Seconds until the server's rate limiter accepts another request
+  const { secondsLeft: retryIn, start: startRetryCountdown } = useRetryCountdown();
+  // Plans ticked for a multi-day itinerary, kept across clicks so several searches can be combined
+  const itinerary = useItinerary();
+  const [locationContext, setLocationContext] = useState<LocationContext | null>(null);
+  const [cacheInfo, setCacheInfo] = useState<MapRecommendationResponse['cache'] | null>(null);
+  const [droppedPlans, setDroppedPlans] = useState<string[]>([]);
+  // Plan whose card or marker is hovered, and which of the two was hovered
+  const [highlight, setHighlight] = useState<{ planId: string; from: 'card' | 'marker' } | null>(null);
+  const [showAttractions, setShowAttractions] = useState(true);
+  // Attractions the user ticked to build recommendations around
+  const [selectedPlaceIds, setSelectedPlaceIds] = useState<string[]>([]);
+  // Location picked with the search box or geolocation, for the map to fly to
+  const [flyTarget, setFlyTarget] = useState<LocationCoordinates | null>(null);
+  // Search radius and interests for the next lookup
+  const [filters, setFilters] = useState<MapSearchFilters>(DEFAULT_MAP_FILTERS);
+  // Shape being drawn (map clicks draw instead of picking a point), and the area searched last
+  const [drawShape, setDrawShape] = useState<MapAreaShape | null>(null);
+  // Route mode: null when not picking, else the ends picked so far (origin first)
+  const [routePick, setRoutePick] = useState<LocationCoordinates[] | null>(null);
+  // Area or route the current results were searched for
+  const [searchShape, setSearchShape] = useState<SearchShape | null>(null);
+  const selectedArea = searchShape && 'area' in searchShape ? searchShape.area : null;
+  const selectedRoute = searchShape && 'route' in searchShape ? searchShape.route : null;
+
+  // Bring the card of a hovered marker into view
+  useEffect(() => {
+    if (highlight?.from === 'marker' && isPanelOpen) {
+      document.getElementById(`plan-card-${highlight.planId}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    }
+  }, [highlight, isPanelOpen]);
+
+  // Show a user-friendly message for a failed request
+  const handleRequestError = (err: unknown) => {
+    const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
     
-    if (timeSinceLastClick < cooldownPeriod && lastClickTime > 0) {
-      const remainingTime = Math.ceil((cooldownPeriod - timeSinceLastClick) / 1000);
-      setError(`⏱️ Please wait ${remainingTime} seconds before clicking another location to avoid rate limits.`);
+    // Provide helpful error messages based on error type
+    let userFriendlyMessage = errorMessage;
+    
+    if (err instanceof ApiRequestError && err.code === 'RATE_LIMIT' && err.retryAfter) {
+      // The countdown banner shows how long to wait
+      startRetryCountdown(err.retryAfter);
+      console.warn('Rate limited, retry in', err.retryAfter, 'seconds');
       return;
+    } else if (err instanceof ApiRequestError && err.code === 'RATE_LIMIT') {
+      userFriendlyMessage = '⏱️ Rate limit reached: Free models have limits. Please wait 30-60 seconds before clicking another location, or consider upgrading to a paid model for unlimited usage.';
+    } else if (err instanceof ApiRequestError && err.code === 'TIMEOUT') {
+      userFriendlyMessage = '⏰ Request timed out: The AI took too long to respond. Please try again.';
     }
     
-    setLastClickTime(now);
+    setError(userFriendlyMessage);
+    console.error('Error processing map click:', err);
+  };
+
+  // Get AI recommendations for a location, from the server cache unless regenerating
+  // The server looks the context up again (from its cache), so only where and how to search is sent
+  const requestRecommendations = async (
+    coords: LocationCoordinates,
+    context: LocationContext,
+    regenerate: boolean,
+    selectedIds: string[] = []
+  ) => {
+    const recommendationsResponse = await fetch('/api/map-recommendations', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        coordinates: coords,
+        ...(context.area && { area: context.area }),
+        ...(context.route && { route: { origin: context.route.origin, destination: context.route.destination } }),
+        filters: context.filters,
+        regenerate,
+        ...(selectedIds.length > 0 && { selectedPlaceIds: selectedIds }),
+      }),
+    });
+
+    if (!recommendationsResponse.ok) {
+      throw await apiErrorFromResponse(recommendationsResponse);
+    }
+
+    const recommendationsData: MapRecommendationResponse = await recommendationsResponse.json();
+
+    if (recommendationsData.error) {
+      throw new Error(recommendationsData.error);
+    }
+
+    setTravelPlans(recommendationsData.travelPlans || []);
+    setSummary(recommendationsData.summary || null);
+    setCacheInfo(recommendationsData.cache || null);
+    setDroppedPlans(recommendationsData.grounding?.droppedPlans || []);
+    setIsPanelOpen(true);
+  };
+
+  // Look up a clicked point, or a drawn area or route around its center, then get recommendations (ignored while rate limited)
+  const exploreLocation = async (coords: LocationCoordinates, shape: SearchShape | null) => {
+    if (retryIn > 0) {
+      return;
+    }
+
     setClickedLocation(coords);
+    setSearchShape(shape);
     setIsLoading(true);
     setError(null);
     setTravelPlans(null);
     setSummary(null);
+    setCacheInfo(null);
+    setDroppedPlans([]);
+    setHighlight(null);
+    setLocationContext(null);
     setNearbyAttractions([]);
+    setSelectedPlaceIds([]);
 
     try {
-      // Step 1: Reverse geocoding with Nominatim
-      const nominatimResponse = await fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${coords.lat}&lon=${coords.lng}&zoom=10`,
-        {
-          headers: {
-            'User-Agent': 'Travle.ai Travel Advisor App'
-          }
-        }
-      );
-
-      if (!nominatimResponse.ok) {
-        throw new Error('Failed to fetch location information');
+      // Step 1: Reverse geocoding, attractions and nearby cities, looked up server-side
+      const params = new URLSearchParams({
+        lat: String(coords.lat),
+        lng: String(coords.lng),
+        radius: String(filters.radiusKm),
+        interests: filters.interests.join(',')
+      });
+      const contextResponse = shape
+        ? await fetch('/api/geo/context', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ ...shape, filters: { interests: filters.interests } }),
+          })
+        : await fetch(`/api/geo/context?${params}`);
+
+      if (!contextResponse.ok) {
+        throw await apiErrorFromResponse(contextResponse);
       }
 
-      const locationData = await nominatimResponse.json();
-      const displayName = locationData.display_name || `${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`;
-      setLocationName(displayName);
-
-      // Step 2: Fetch nearby attractions with OpenTripMap
-      let attractions = await fetchNearbyAttractions(coords);
-      
-      // Fallback to Wikipedia if OpenTripMap has no data
-      if (attractions.length === 0) {
-        console.log('OpenTripMap has no data, trying Wikipedia...');
-        attractions = await fetchWikipediaPlaces(coords);
-      }
-      
-      setNearbyAttractions(attractions);
+      const context: LocationContext = await contextResponse.json();
+      setLocationContext(context);
+      setLocationName(context.locationName);
+      setNearbyAttractions(context.attractions);
       
       // Log attractions for debugging
-      console.log(`Found ${attractions.length} attractions near ${displayName}:`, 
-        attractions.slice(0, 10).map(a => `${a.name} (${(a.dist / 1000).toFixed(1)}km)`)
+      console.log(`Found ${context.attractions.length} attractions (${context.placeSources.join(', ') || 'no sources'}) near ${context.locationName}:`, 
+        context.attractions.slice(0, 10).map(a => `${a.name} (${(a.distance / 1000).toFixed(1)}km, ${a.sources.join('+')})`),
+        'cache:', context.cache
       );
 
-      // Step 3: Fetch nearby cities
-      const cities = await fetchNearbyCities(coords);
-
-      // Step 4: Get AI recommendations
-      const recommendationsResponse = await fetch('/api/map-recommendations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          coordinates: coords,
-          locationName: displayName,
-          nearbyAttractions: attractions,
-          nearbyCities: cities,
-        }),
-      });
+      // Step 2: Get AI recommendations
+      await requestRecommendations(coords, context, false);
+    } catch (err) {
+      handleRequestError(err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
 
-      if (!recommendationsResponse.ok) {
-        const errorData = await recommendationsResponse.json().catch(() => ({}));
-        throw new Error(errorData.error || 'Failed to generate recommendations');
-      }
+  const handleMapClick = (coords: LocationCoordinates) => exploreLocation(coords, null);
 
-      const recommendationsData = await recommendationsResponse.json();
+  const handleAreaDrawn = (area: MapArea) => {
+    setDrawShape(null);
+    exploreLocation(areaCenter(area), { area });
+  };
 
-      if (recommendationsData.error) {
-        throw new Error(recommendationsData.error);
-      }
+  // Route mode: the first click is the origin, the second the destination
+  const handleRoutePoint = (coords: LocationCoordinates) => {
+    if (!routePick || routePick.length === 0) {
+      setRoutePick([coords]);
+      return;
+    }
+
+    const route = { origin: routePick[0], destination: coords };
+    setRoutePick(null);
+    exploreLocation(routeMidpoint(route), { route });
+  };
+
+  // Only one of area drawing and route picking at a time
+  const startDrawing = (shape: MapAreaShape) => {
+    setRoutePick(null);
+    setDrawShape(shape);
+  };
 
-      setTravelPlans(recommendationsData.travelPlans || []);
-      setSummary(recommendationsData.summary || null);
-      setIsPanelOpen(true);
+  const startRoutePick = () => {
+    setDrawShape(null);
+    setRoutePick([]);
+  };
+
+  // Regenerate recommendations for the current location, bypassing the cache
+  const handleRegenerate = async () => {
+    if (!clickedLocation || !locationContext || retryIn > 0) {
+      return;
+    }
+
+    setIsPanelOpen(false);
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      await requestRecommendations(clickedLocation, locationContext, true, selectedPlaceIds);
     } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : 'An unexpected error occurred';
-      
-      // Provide helpful error messages based on error type
-      let userFriendlyMessage = errorMessage;
-      
-      if (errorMessage.toLowerCase().includes('rate limit')) {
-        userFriendlyMessage = '⏱️ Rate limit reached: Free models have limits. Please wait 30-60 seconds before clicking another location, or consider upgrading to a paid model for unlimited usage.';
-      } else if (errorMessage.toLowerCase().includes('429')) {
-        userFriendlyMessage = '⏱️ Too many requests: Please wait a moment before trying again.';
-      }
-      
-      setError(userFriendlyMessage);
-      console.error('Error processing map click:', err);
+      handleRequestError(err);
     } finally {
       setIsLoading(false);
     }
   };
 
-  // Fetch nearby attractions from OpenTripMap
-  const fetchNearbyAttractions = async (coords: LocationCoordinates): Promise<OpenTripMapPlace[]> => {
-    const allAttractions: OpenTripMapPlace[] = [];
-
-    // Multi-radius search strategy
-    const radii = [5000, 50000]; // 5km and 50km in meters
-
-    for (const radius of radii) {
-      try {
-        const response = await fetch(
-          `https://api.opentripmap.com/0.1/en/places/radius?radius=${radius}&lon=${coords.lng}&lat=${coords.lat}&kinds=interesting_places,tourist_facilities,cultural,natural&format=json&limit=20`
-        );
-
-        if (response.ok) {
-          const data = await response.json();
-          if (Array.isArray(data)) {
-            allAttractions.push(...data);
-          }
-        }
-      } catch (err) {
-        console.warn(`Failed to fetch attractions for radius ${radius}:`, err);
-      }
+  // Search results and geolocation go through the same pipeline as a map click
+  // (or pick the next route end while picking a route)
+  const handlePickLocation = (coords: LocationCoordinates) => {
+    if (retryIn > 0) {
+      return;
+    }
+    setFlyTarget(coords);
+    if (routePick) {
+      handleRoutePoint(coords);
+    } else {
+      handleMapClick(coords);
     }
-
-    // Remove duplicates and sort by distance and rating
-    const uniqueAttractions = Array.from(
-      new Map(allAttractions.map(item => [item.xid, item])).values()
-    );
-
-    return uniqueAttractions
-      .filter(a => a.name && a.name.trim() !== '')
-      .sort((a, b) => {
-        // Sort by rate first (higher is better), then by distance (closer is better)
-        if (b.rate !== a.rate) {
-          return b.rate - a.rate;
-        }
-        return a.dist - b.dist;
-      })
-      .slice(0, 15); // Limit to top 15
   };
 
-  // Fetch nearby cities using Nominatim search
-  const fetchNearbyCities = async (coords: LocationCoordinates): Promise<string[]> => {
-    try {
-      const response = await fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=city&lat=${coords.lat}&lon=${coords.lng}&limit=5`,
-        {
-          headers: {
-            'User-Agent': 'Travle.ai Travel Advisor App'
-          }
-        }
-      );
+  const handleToggleAttraction = (placeId: string) => {
+    setSelectedPlaceIds(ids => ids.includes(placeId) ? ids.filter(id => id !== placeId) : [...ids, placeId]);
+  };
 
-      if (response.ok) {
-        const data = await response.json();
-        return data.map((city: any) => city.display_name).filter((name: string) => name);
-      }
-    } catch (err) {
-      console.warn('Failed to fetch nearby cities:', err);
+  // Recommendations built only around the ticked attractions
+  const handlePlanSelected = async () => {
+    if (!clickedLocation || !locationContext || selectedPlaceIds.length === 0 || retryIn > 0) {
+      return;
     }
 
-    return [];
-  };
+    setIsPanelOpen(false);
+    setIsLoading(true);
+    setError(null);
 
-  // Fallback: Search Wikipedia for nearby places when OpenTripMap has no data
-  const fetchWikipediaPlaces = async (coords: LocationCoordinates): Promise<OpenTripMapPlace[]> => {
     try {
-      // Use Wikipedia geosearch API
-      const response = await fetch(
-        `https://en.wikipedia.org/w/api.php?action=query&list=geosearch&gscoord=${coords.lat}|${coords.lng}&gsradius=10000&gslimit=30&format=json&origin=*`
-      );
-
-      if (response.ok) {
-        const data = await response.json();
-        const places = data.query?.geosearch || [];
-        
-        // Filter out obvious non-tourist places (be conservative to avoid false positives)
-        const filteredPlaces = places.filter((place: any) => {
-          const title = place.title.toLowerCase();
-          
-          // Exclude subway/metro stations (very specific patterns)
-          if (title.includes('station')) {
-            // Only exclude if it's clearly a transit station
-            if (title.includes('subway') || title.includes('metro') || 
-                title.match(/line \d+/) || title.includes('mrt') ||
-                title.includes('underground station')) {
-              return false;
-            }
-            // Keep historic stations, train stations that might be attractions
-          }
-          
-          // Exclude highway interchanges and overpasses (not roads/streets in general)
-          if (title.includes('interchange') || title.includes('overpass') || 
-              title.includes('underpass') || title.includes('flyover')) {
-            return false;
-          }
-          
-          // Exclude pure administrative divisions (but keep if they have other context)
-          if (title.match(/^.+ (district|subdistrict|county|province)$/)) {
-            return false;
-          }
-          
-          // Exclude generic infrastructure terminals
-          if (title.includes('bus terminal') || title.includes('airport terminal')) {
-            return false;
-          }
-          
-          // Exclude parking lots and garages
-          if (title.includes('parking') || title.includes('car park')) {
-            return false;
-          }
-          
-          return true;
-        });
-        
-        // Convert Wikipedia results to OpenTripMapPlace format
-        return filteredPlaces.map((place: any) => ({
-          xid: `wiki-${place.pageid}`,
-          name: place.title,
-          dist: place.dist || 0,
-          rate: 3, // Default rating for Wikipedia places
-          osm: '',
-          kinds: 'wikipedia',
-          point: {
-            lon: place.lon,
-            lat: place.lat
-          }
-        }));
-      }
+      await requestRecommendations(clickedLocation, locationContext, false, selectedPlaceIds);
     } catch (err) {
-      console.warn('Failed to fetch Wikipedia places:', err);
+      handleRequestError(err);
+    } finally {
+      setIsLoading(false);
     }
-
-    return [];
   };
 
+  // Start of the route being picked, or of the route searched last
+  const routeOrigin = routePick ? routePick[0] ?? null : selectedRoute?.origin ?? null;
+
   return (
     <div className="relative h-screen w-full">
       {/* Header */}
       <div className="absolute top-0 left-0 right-0 z-[1000] bg-card/95 backdrop-blur-sm border-b border-primary/20 p-4 shadow-lg">
-        <div className="flex items-center justify-between gap-3">
+        <div className="flex flex-wrap items-center justify-between gap-3">
           <div className="flex items-center gap-3">
             <span className="text-3xl">🗺️</span>
             <div>
               <h1 className="text-xl sm:text-2xl font-bold text-secondary">Map Mode</h1>
               <p className="text-xs sm:text-sm text-foreground/70 mt-1">
-                Click anywhere on the map to discover travel recommendations
+                Click anywhere on the map, draw an area, search for a place or use your location
               </p>
               <p className="text-xs text-foreground/50 mt-1">
                 ℹ️ Free models: Wait a couple minutes between clicks to avoid rate limits
               </p>
             </div>
           </div>
+          {/* Search box wraps below the title on small screens */}
+          <div className="order-last w-full sm:order-none sm:w-auto sm:flex-1 flex justify-center">
+            <PlaceSearch onSelect={handlePickLocation} disabled={isLoading || retryIn > 0} />
+          </div>
           <Button
             onClick={onBack}
             variant="outline"
@@ -335,6 +383,18 @@ export default function MapView({ onBack }: MapViewProps) {
         </div>
       )}
 
+      {/* Rate limit countdown, driven by the server's Retry-After */}
+      {retryIn > 0 && (
+        <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-[1000] max-w-md w-full px-4 fade-in">
+          <Alert>
+            <AlertTitle>⏱️ Rate limit reached</AlertTitle>
+            <AlertDescription>
+              You can explore another location in {retryIn} second{retryIn !== 1 ? 's' : ''}.
+            </AlertDescription>
+          </Alert>
+        </div>
+      )}
+
       {/* Error alert */}
       {error && (
         <div className="absolute top-20 left-1/2 transform -translate-x-1/2 z-[1000] max-w-md w-full px-4 fade-in">
@@ -366,10 +426,39 @@ export default function MapView({ onBack }: MapViewProps) {
           attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
         />
-        <MapClickHandler onClick={handleMapClick} />
+        {drawShape ? (
+          <AreaDrawer shape={drawShape} onComplete={handleAreaDrawn} onCancel={() => setDrawShape(null)} />
+        ) : (
+          <MapClickHandler onClick={routePick ? handleRoutePoint : handleMapClick} />
+        )}
+        <MapFlyTo target={flyTarget} />
+
+        {/* Area the current results were searched in */}
+        {selectedArea && (
+          <Polygon
+            positions={selectedArea.points.map(point => [point.lat, point.lng] as [number, number])}
+            pathOptions={{ color: '#ef4444', weight: 2, fillOpacity: 0.08 }}
+            interactive={false}
+          />
+        )}
+
+        {/* Route of the current results, and its ends (or the origin being picked) */}
+        {locationContext?.route && (
+          <Polyline
+            positions={locationContext.route.points.map(point => [point.lat, point.lng] as [number, number])}
+            pathOptions={{ color: '#ef4444', weight: 4, opacity: 0.7 }}
+            interactive={false}
+          />
+        )}
+        {routeOrigin && (
+          <Marker position={[routeOrigin.lat, routeOrigin.lng]} icon={routeEndIcon('A')} />
+        )}
+        {!routePick && selectedRoute && (
+          <Marker position={[selectedRoute.destination.lat, selectedRoute.destination.lng]} icon={routeEndIcon('B')} />
+        )}
         
-        {/* Clicked location marker */}
-        {clickedLocation && (
+        {/* Clicked location marker (a route's midpoint isn't a place of its own) */}
+        {clickedLocation && !selectedRoute && (
           <Marker position={[clickedLocation.lat, clickedLocation.lng]} icon={clickedIcon}>
             <Popup>
               <div className="text-sm">
@@ -382,30 +471,162 @@ export default function MapView({ onBack }: MapViewProps) {
           </Marker>
         )}
 
-        {/* Nearby attractions markers */}
-        {nearbyAttractions.slice(0, 10).map((attraction) => (
+        {/* Recommended plan markers, numbered like the cards */}
+        {travelPlans?.map((plan, index) => plan.location && (
           <Marker
-            key={attraction.xid}
-            position={[attraction.point.lat, attraction.point.lon]}
-            icon={icon}
+            key={`plan-${plan.id}`}
+            position={[plan.location.coordinates.lat, plan.location.coordinates.lng]}
+            icon={planIcon(index + 1, highlight?.planId === plan.id)}
+            zIndexOffset={1000}
+            eventHandlers={{
+              mouseover: () => setHighlight({ planId: plan.id, from: 'marker' }),
+              mouseout: () => setHighlight(null),
+              click: () => setIsPanelOpen(true)
+            }}
           >
             <Popup>
               <div className="text-sm">
-                <p className="font-bold">{attraction.name}</p>
+                <p className="font-bold">{index + 1}. {plan.destination}</p>
                 <p className="text-xs text-foreground/70 mt-1">
-                  {(attraction.dist / 1000).toFixed(1)} km away
+                  {plan.location.source === 'attraction' ? 'Nearby attraction' : 'Approximate location'}
                 </p>
-                {attraction.rate > 0 && (
-                  <p className="text-xs text-foreground/70">
-                    Rating: {attraction.rate}/7
-                  </p>
-                )}
               </div>
             </Popup>
           </Marker>
         ))}
+
+        {/* Nearby attractions, clustered by category */}
+        {showAttractions && nearbyAttractions.length > 0 && (
+          <AttractionLayer
+            places={nearbyAttractions}
+            selectedIds={selectedPlaceIds}
+            onToggleSelect={handleToggleAttraction}
+          />
+        )}
       </MapContainer>
 
+      {/* Search filters, attraction layer toggle and selection */}
+      <div className="absolute bottom-6 left-6 z-[1000] bg-card/95 backdrop-blur-sm border border-primary/20 rounded-xl p-3 shadow-lg space-y-3 text-sm max-w-[260px]">
+        <MapFilters
+          filters={filters}
+          onChange={setFilters}
+          disabled={isLoading}
+          radiusNote={selectedRoute
+            ? `Searching within ${ROUTE_CORRIDOR_KM} km of the route`
+            : selectedArea ? 'Searching within the drawn area' : undefined}
+        />
+        {clickedLocation && locationContext &&
+          // An area or route sets its own radius, so only the interests count there
+          filtersKey(searchShape ? { ...filters, radiusKm: locationContext.filters.radiusKm } : filters) !== filtersKey(locationContext.filters) && (
+          <Button
+            onClick={() => exploreLocation(clickedLocation, searchShape)}
+            variant="outline"
+            size="sm"
+            disabled={isLoading || retryIn > 0}
+            className="w-full text-xs"
+          >
+            Search again with these filters
+          </Button>
+        )}
+
+        <div className="space-y-2 border-t border-primary/10 pt-3">
+          {drawShape || routePick ? (
+            <>
+              <p className="text-xs text-foreground/70">
+                {routePick
+                  ? routePick.length === 0 ? 'Click where the drive starts' : 'Click where the drive ends'
+                  : drawShape === 'rectangle'
+                    ? 'Click two opposite corners of the area'
+                    : 'Click the corners of the area, then double-click or click the first point to finish'}
+              </p>
+              <Button
+                onClick={() => {
+                  setDrawShape(null);
+                  setRoutePick(null);
+                }}
+                variant="outline"
+                size="sm"
+                className="text-xs"
+              >
+                Cancel
+              </Button>
+            </>
+          ) : (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-xs font-medium">Draw an area</span>
+              <Button
+                onClick={() => startDrawing('rectangle')}
+                variant="outline"
+                size="sm"
+                disabled={isLoading || retryIn > 0}
+                title="Draw a rectangle"
+                className="text-xs"
+              >
+                ▭ Box
+              </Button>
+              <Button
+                onClick={() => startDrawing('polygon')}
+                variant="outline"
+                size="sm"
+                disabled={isLoading || retryIn > 0}
+                title="Draw a polygon"
+                className="text-xs"
+              >
+                ⬠ Shape
+              </Button>
+              <span className="text-xs font-medium">or find stops</span>
+              <Button
+                onClick={startRoutePick}
+                variant="outline"
+                size="sm"
+                disabled={isLoading || retryIn > 0}
+                title="Pick a start and destination to find stops along the way"
+                className="text-xs"
+              >
+                🚗 Along a route
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {nearbyAttractions.length > 0 && (
+          <div className="space-y-2 border-t border-primary/10 pt-3">
+            <label className="flex items-center gap-2 font-medium cursor-pointer">
+              <input
+                type="checkbox"
+                checked={showAttractions}
+                onChange={(e) => setShowAttractions(e.target.checked)}
+              />
+              Nearby attractions ({nearbyAttractions.length})
+            </label>
+            {selectedPlaceIds.length > 0 ? (
+              <div className="flex items-center gap-2">
+                <Button
+                  onClick={handlePlanSelected}
+                  size="sm"
+                  disabled={isLoading || retryIn > 0}
+                  className="text-xs"
+                >
+                  Plan around {selectedPlaceIds.length} selected
+                </Button>
+                <Button
+                  onClick={() => setSelectedPlaceIds([])}
+                  variant="outline"
+                  size="sm"
+                  className="text-xs"
+                >
+                  Clear
+                </Button>
+              </div>
+            ) : (
+              <p className="text-xs text-foreground/60">
+                Tick attractions in their popups to plan around them
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+
       {/* Floating travel plans button */}
       {travelPlans && travelPlans.length > 0 && !isPanelOpen && (
         <button
@@ -458,6 +679,33 @@ export default function MapView({ onBack }: MapViewProps) {
             <div className="flex-1 overflow-y-auto p-4 sm:p-6 custom-scrollbar">
               {travelPlans && travelPlans.length > 0 ? (
                 <div className="space-y-4 sm:space-y-6 fade-in">
+                  {/* Cached answer label */}
+                  {cacheInfo && (
+                    <div className="flex items-center justify-between gap-3 rounded-xl border border-primary/20 bg-primary/5 px-4 py-3 text-xs sm:text-sm text-foreground/70">
+                      <span>
+                        {cacheInfo.status === 'hit'
+                          ? `♻️ Cached result from ${new Date(cacheInfo.generatedAt).toLocaleString()}`
+                          : '✨ Freshly generated'}
+                      </span>
+                      <Button
+                        onClick={handleRegenerate}
+                        variant="outline"
+                        size="sm"
+                        disabled={isLoading || retryIn > 0}
+                        className="text-xs"
+                      >
+                        {retryIn > 0 ? `Regenerate (${retryIn}s)` : 'Regenerate'}
+                      </Button>
+                    </div>
+                  )}
+
+                  {/* Plans removed by the grounding check */}
+                  {droppedPlans.length > 0 && (
+                    <div className="rounded-xl border border-accent/30 bg-accent/10 px-4 py-3 text-xs sm:text-sm text-foreground/70">
+                      🔎 Hidden {droppedPlans.length} {droppedPlans.length === 1 ? 'suggestion' : 'suggestions'} that referenced places outside the map data: {droppedPlans.join(', ')}
+                    </div>
+                  )}
+
                   {/* Summary section */}
                   {summary && (
                     <div className="bg-gradient-to-br from-accent/20 to-accent/10 border-2 border-accent/30 rounded-2xl p-4 sm:p-6 shadow-lg hover:shadow-xl transition-all">
@@ -469,10 +717,28 @@ export default function MapView({ onBack }: MapViewProps) {
                     </div>
                   )}
 
+                  {/* Plans ticked for a multi-day itinerary */}
+                  <ItineraryBar
+                    selectedCount={itinerary.selectedPlans.length}
+                    isBuilding={itinerary.isBuilding}
+                    error={itinerary.error}
+                    onBuild={itinerary.build}
+                    onClear={itinerary.clear}
+                  />
+
                   {/* Travel plan cards */}
                   <div className="space-y-4 sm:space-y-6">
                     {travelPlans.map((plan, index) => (
-                      <TravelCard key={plan.id || index} plan={plan} index={index} />
+                      <div key={plan.id || index} id={`plan-card-${plan.id}`}>
+                        <TravelCard
+                          plan={plan}
+                          index={index}
+                          isHighlighted={highlight?.planId === plan.id}
+                          onHoverChange={(hovered) => setHighlight(hovered ? { planId: plan.id, from: 'card' } : null)}
+                          isSelected={itinerary.isSelected(plan)}
+                          onSelectChange={(selected) => itinerary.setSelected(plan, selected)}
+                        />
+                      </div>
                     ))}
                   </div>
                 </div>
@@ -481,6 +747,14 @@ export default function MapView({ onBack }: MapViewProps) {
           </div>
         </>
       )}
+
+      {itinerary.built && (
+        <ItineraryTimeline
+          itinerary={itinerary.built.itinerary}
+          plans={itinerary.built.plans}
+          onClose={itinerary.close}
+        />
+      )}
     </div>
   );
 }
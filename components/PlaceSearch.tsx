@@ -0,0 +1,186 @@
+'use client';
+
+import React, { useEffect, useRef, useState } from 'react';
+import { GeoSearchResponse, GeoSearchResult, PlaceSearchProps } from '@/lib/types';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+
+// Wait for a pause in typing before searching (ms)
+const SEARCH_DEBOUNCE_MS = 350;
+const MIN_QUERY_LENGTH = 2;
+
+// Browser geolocation timeout (ms)
+const GEOLOCATION_TIMEOUT_MS = 10000;
+
+/**
+ * Place search box with autocomplete and a "use my location" button for map mode
+ */
+export default function PlaceSearch({ onSelect, disabled = false }: PlaceSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<GeoSearchResult[]>([]);
+  const [isOpen, setIsOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [isSearching, setIsSearching] = useState(false);
+  const [isLocating, setIsLocating] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  // Skips the search triggered by filling the box with a picked result
+  const skipNextSearch = useRef(false);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (skipNextSearch.current || trimmed.length < MIN_QUERY_LENGTH) {
+      skipNextSearch.current = false;
+      setResults([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsSearching(true);
+      try {
+        const response = await fetch(`/api/geo/search?q=${encodeURIComponent(trimmed)}`, { signal: controller.signal });
+        if (!response.ok) {
+          setMessage(response.status === 429 ? 'Searching too fast, slow down a little' : 'Search is unavailable right now');
+          setResults([]);
+          return;
+        }
+
+        const data: GeoSearchResponse = await response.json();
+        setResults(data.results);
+        setActiveIndex(-1);
+        setIsOpen(true);
+        setMessage(data.results.length === 0 ? 'No places found' : null);
+      } catch (err) {
+        // Superseded by newer input
+        if (!(err instanceof DOMException && err.name === 'AbortError')) {
+          setMessage('Search is unavailable right now');
+        }
+      } finally {
+        setIsSearching(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const selectResult = (result: GeoSearchResult) => {
+    skipNextSearch.current = true;
+    setQuery(result.name);
+    setResults([]);
+    setIsOpen(false);
+    setMessage(null);
+    onSelect(result.coordinates);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && results.length > 0) {
+      e.preventDefault();
+      setIsOpen(true);
+      setActiveIndex(index => (index + 1) % results.length);
+    } else if (e.key === 'ArrowUp' && results.length > 0) {
+      e.preventDefault();
+      setActiveIndex(index => (index <= 0 ? results.length - 1 : index - 1));
+    } else if (e.key === 'Enter' && results.length > 0) {
+      e.preventDefault();
+      selectResult(results[Math.max(activeIndex, 0)]);
+    } else if (e.key === 'Escape') {
+      setIsOpen(false);
+    }
+  };
+
+  const handleUseMyLocation = () => {
+    if (!navigator.geolocation) {
+      setMessage('Your browser does not support geolocation');
+      return;
+    }
+
+    setIsLocating(true);
+    setMessage(null);
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        setIsLocating(false);
+        onSelect({ lat: position.coords.latitude, lng: position.coords.longitude });
+      },
+      (err) => {
+        setIsLocating(false);
+        setMessage(err.code === err.PERMISSION_DENIED
+          ? 'Location access was denied'
+          : 'Could not determine your location');
+      },
+      { timeout: GEOLOCATION_TIMEOUT_MS, maximumAge: 5 * 60 * 1000 }
+    );
+  };
+
+  return (
+    <div className="relative w-full max-w-md">
+      <div className="flex items-center gap-2">
+        <div className="relative flex-1">
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={handleKeyDown}
+            onFocus={() => results.length > 0 && setIsOpen(true)}
+            // Delay so a click on a result registers before the list closes
+            onBlur={() => setTimeout(() => setIsOpen(false), 150)}
+            placeholder="Search for a town or place..."
+            disabled={disabled}
+            role="combobox"
+            aria-expanded={isOpen}
+            aria-controls="place-search-results"
+            aria-autocomplete="list"
+            className="w-full rounded-lg border border-primary/30 bg-background px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-primary/40 disabled:opacity-50"
+          />
+          {isSearching && (
+            <div className="absolute right-3 top-1/2 -translate-y-1/2 animate-spin rounded-full h-4 w-4 border-b-2 border-primary"></div>
+          )}
+        </div>
+        <Button
+          onClick={handleUseMyLocation}
+          variant="outline"
+          size="sm"
+          disabled={disabled || isLocating}
+          title="Use my location"
+          className="shrink-0 border-secondary/30"
+        >
+          {isLocating ? '…' : '📍'}
+          <span className="hidden md:inline ml-1">My location</span>
+        </Button>
+      </div>
+
+      {isOpen && results.length > 0 && (
+        <ul
+          id="place-search-results"
+          role="listbox"
+          className="absolute left-0 right-0 mt-1 max-h-72 overflow-y-auto rounded-lg border border-primary/20 bg-card shadow-xl"
+        >
+          {results.map((result, index) => (
+            <li
+              key={result.id}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => selectResult(result)}
+              className={cn(
+                'cursor-pointer px-3 py-2 text-sm hover:bg-primary/10',
+                index === activeIndex && 'bg-primary/10'
+              )}
+            >
+              <p className="font-medium">{result.name}</p>
+              <p className="text-xs text-foreground/60">
+                {[result.type, result.description].filter(Boolean).join(' · ')}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {message && (
+        <p className="mt-1 text-xs text-foreground/60">{message}</p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+'use client';
+
+import React from 'react';
+import { PlanChangesProps } from '@/lib/types';
+
+/**
+ * What the last follow-up changed in a plan, shown above its card
+ * Single values as old → new, lists as added and removed items
+ */
+export default function PlanChanges({ destination, changes, onDismiss }: PlanChangesProps) {
+  return (
+    <div className="mb-2 rounded-xl border-2 border-secondary/30 bg-secondary/5 p-3 sm:p-4 fade-in">
+      <div className="mb-2 flex items-center justify-between gap-2">
+        <h4 className="text-sm font-bold text-secondary">✏️ Updated {destination}</h4>
+        <button
+          onClick={onDismiss}
+          className="text-xs font-medium text-foreground/60 hover:text-foreground"
+          aria-label="Dismiss changes"
+        >
+          Dismiss
+        </button>
+      </div>
+
+      {changes.length === 0 ? (
+        <p className="text-xs text-foreground/70">Nothing in the plan changed.</p>
+      ) : (
+        <ul className="space-y-1.5 text-xs sm:text-sm">
+          {changes.map(change => (
+            <li key={change.label}>
+              <span className="font-semibold">{change.label}: </span>
+              {change.before !== undefined && (
+                <>
+                  <span className="text-destructive line-through">{change.before}</span>
+                  {' → '}
+                  <span className="font-medium text-primary">{change.after}</span>
+                </>
+              )}
+              {change.added?.map(item => (
+                <span key={`+${item}`} className="mr-2 inline-block text-primary">+ {item}</span>
+              ))}
+              {change.removed?.map(item => (
+                <span key={`-${item}`} className="mr-2 inline-block text-destructive line-through">− {item}</span>
+              ))}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,175 @@
+'use client';
+
+import React, { useState } from 'react';
+import { PreferenceChipsProps, PreferenceOverrides, TravelPreferences } from '@/lib/types';
+import { cn } from '@/lib/utils';
+
+// Editable slots in display order
+type ChipSlot = 'destination' | 'dates' | 'budget' | 'interests' | 'constraints' | 'partySize';
+
+const CHIPS: { slot: ChipSlot; icon: string; label: string; placeholder: string }[] = [
+  { slot: 'destination', icon: '📍', label: 'Destination', placeholder: 'e.g. Lisbon' },
+  { slot: 'dates', icon: '📅', label: 'Dates', placeholder: 'e.g. 2025-07-01 to 2025-07-07 or next summer' },
+  { slot: 'budget', icon: '💰', label: 'Budget', placeholder: 'e.g. 1500 EUR' },
+  { slot: 'interests', icon: '🎯', label: 'Interests', placeholder: 'e.g. hiking, food' },
+  { slot: 'constraints', icon: '⚠️', label: 'Constraints', placeholder: 'e.g. vegetarian' },
+  { slot: 'partySize', icon: '👥', label: 'Travelers', placeholder: 'e.g. 2' }
+];
+
+/**
+ * Combine server preferences with local edits so chips update immediately
+ */
+function mergePreferences(preferences: TravelPreferences | null, overrides: PreferenceOverrides): TravelPreferences {
+  const merged: Record<string, unknown> = { interests: [], constraints: [], ...preferences };
+  for (const [slot, value] of Object.entries(overrides)) {
+    if (value === null) {
+      delete merged[slot];
+    } else if (value !== undefined) {
+      merged[slot] = value;
+    }
+  }
+  return { interests: [], constraints: [], ...merged } as TravelPreferences;
+}
+
+/**
+ * Format a slot for display; empty string when unknown
+ */
+function formatSlot(preferences: TravelPreferences, slot: ChipSlot): string {
+  switch (slot) {
+    case 'destination':
+      return preferences.destination || '';
+    case 'dates': {
+      const dates = preferences.dates;
+      if (!dates) return '';
+      if (dates.start && dates.end && dates.start !== dates.end) return `${dates.start} to ${dates.end}`;
+      return dates.start || dates.end || dates.description || '';
+    }
+    case 'budget': {
+      const budget = preferences.budget;
+      if (!budget) return '';
+      return budget.amount !== undefined ? `${budget.amount} ${budget.currency}` : budget.description || '';
+    }
+    case 'interests':
+    case 'constraints':
+      return preferences[slot].join(', ');
+    case 'partySize':
+      return preferences.partySize ? String(preferences.partySize) : '';
+  }
+}
+
+/**
+ * Parse what the user typed into a chip; null clears the slot
+ */
+function parseSlot(slot: ChipSlot, text: string): PreferenceOverrides[ChipSlot] {
+  const value = text.trim();
+
+  switch (slot) {
+    case 'destination':
+      return value || null;
+    case 'dates': {
+      if (!value) return null;
+      const range = value.match(/^(\d{4}-\d{2}-\d{2})(?:\s*(?:to|-|–)\s*(\d{4}-\d{2}-\d{2}))?$/);
+      return range ? { start: range[1], end: range[2] || range[1] } : { description: value };
+    }
+    case 'budget': {
+      if (!value) return null;
+      const amount = value.match(/[\d.,]+/);
+      const currency = value.match(/\b[A-Za-z]{3}\b/);
+      const parsedAmount = amount ? parseFloat(amount[0].replace(/,/g, '')) : NaN;
+      return Number.isFinite(parsedAmount)
+        ? { amount: parsedAmount, currency: currency ? currency[0].toUpperCase() : 'USD' }
+        : { currency: 'USD', description: value };
+    }
+    case 'interests':
+    case 'constraints':
+      return value ? value.split(',').map(item => item.trim()).filter(Boolean) : null;
+    case 'partySize': {
+      const size = parseInt(value, 10);
+      return Number.isInteger(size) && size > 0 ? size : null;
+    }
+  }
+}
+
+export default function PreferenceChips({ preferences, overrides, onChange, disabled }: PreferenceChipsProps) {
+  const [editing, setEditing] = useState<ChipSlot | null>(null);
+  const [draft, setDraft] = useState('');
+
+  // Nothing to show before the first reply
+  if (!preferences && Object.keys(overrides).length === 0) {
+    return null;
+  }
+
+  const current = mergePreferences(preferences, overrides);
+
+  const startEditing = (slot: ChipSlot) => {
+    if (disabled) return;
+    setEditing(slot);
+    setDraft(formatSlot(current, slot));
+  };
+
+  // Save the edit as an override sent with the next request
+  const commitEdit = () => {
+    if (!editing) return;
+    if (draft.trim() !== formatSlot(current, editing)) {
+      onChange({ ...overrides, [editing]: parseSlot(editing, draft) });
+    }
+    setEditing(null);
+  };
+
+  return (
+    <div className="flex flex-wrap gap-2" aria-label="Travel preferences">
+      {CHIPS.map(({ slot, icon, label, placeholder }) => {
+        const value = formatSlot(current, slot);
+        const isEdited = overrides[slot] !== undefined;
+
+        if (editing === slot) {
+          return (
+            <form
+              key={slot}
+              onSubmit={(e) => {
+                e.preventDefault();
+                commitEdit();
+              }}
+              className="flex items-center gap-1 rounded-full border-2 border-primary bg-card px-3 py-1 text-xs sm:text-sm"
+            >
+              <span>{icon}</span>
+              <input
+                autoFocus
+                value={draft}
+                placeholder={placeholder}
+                onChange={(e) => setDraft(e.target.value)}
+                onBlur={commitEdit}
+                onKeyDown={(e) => {
+                  if (e.key === 'Escape') setEditing(null);
+                }}
+                aria-label={label}
+                className="bg-transparent outline-none min-w-[8rem]"
+              />
+            </form>
+          );
+        }
+
+        return (
+          <button
+            key={slot}
+            type="button"
+            onClick={() => startEditing(slot)}
+            disabled={disabled}
+            title={value ? `Edit ${label.toLowerCase()}` : `Add ${label.toLowerCase()}`}
+            className={cn(
+              'flex items-center gap-1 rounded-full border px-3 py-1 text-xs sm:text-sm transition-all hover:scale-105 disabled:opacity-50 disabled:hover:scale-100',
+              value
+                ? 'border-primary/30 bg-primary/10 text-foreground'
+                : 'border-dashed border-foreground/30 text-foreground/50',
+              isEdited && 'border-secondary bg-secondary/10'
+            )}
+          >
+            <span>{icon}</span>
+            <span className="font-medium">{label}:</span>
+            <span className="truncate max-w-[12rem]">{value || 'Add'}</span>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
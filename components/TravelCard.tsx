@@ -2,7 +2,7 @@ import React from 'react';
 import { Card, CardHeader, CardTitle, CardDescription, CardContent } from '@/components/ui/card';
 import { TravelCardProps } from '@/lib/types';
 
-export default function TravelCard({ plan, index }: TravelCardProps) {
+export default function TravelCard({ plan, index, isHighlighted = false, onHoverChange, isSelected = false, onSelectChange }: TravelCardProps) {
   // Format currency
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-US', {
@@ -23,12 +23,23 @@ export default function TravelCard({ plan, index }: TravelCardProps) {
   };
 
   return (
-    <Card className="w-full hover:shadow-2xl transition-all duration-300 hover:scale-[1.02] fade-in border-2 border-primary/20 hover:border-primary/40 bg-gradient-to-br from-card to-primary/5">
+    <Card
+      className={`w-full hover:shadow-2xl transition-all duration-300 hover:scale-[1.02] fade-in border-2 hover:border-primary/40 bg-gradient-to-br from-card to-primary/5 ${isHighlighted ? 'border-primary shadow-2xl scale-[1.02]' : 'border-primary/20'}`}
+      onMouseEnter={onHoverChange && (() => onHoverChange(true))}
+      onMouseLeave={onHoverChange && (() => onHoverChange(false))}
+    >
       <CardHeader className="pb-4 bg-gradient-to-r from-primary/10 to-secondary/10 rounded-t-xl">
         <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3 sm:gap-4">
           <div className="flex-1">
             <div className="flex items-center gap-2 mb-2">
-              <span className="text-2xl">📍</span>
+              {/* Pinned plans show the number of their map marker */}
+              {plan.location ? (
+                <span className="flex h-7 w-7 shrink-0 items-center justify-center rounded-full bg-gradient-to-r from-secondary to-primary text-sm font-bold text-white">
+                  {index + 1}
+                </span>
+              ) : (
+                <span className="text-2xl">📍</span>
+              )}
               <CardTitle className="text-xl sm:text-2xl leading-tight bg-gradient-to-r from-primary to-secondary bg-clip-text text-transparent font-bold">
                 {plan.destination}
               </CardTitle>
@@ -55,6 +66,35 @@ export default function TravelCard({ plan, index }: TravelCardProps) {
           <span>📅</span>
           {formatDateRange()}
         </div>
+        {onSelectChange && (
+          <label className="mt-2 flex w-fit cursor-pointer items-center gap-2 text-xs sm:text-sm font-medium text-foreground/80">
+            <input
+              type="checkbox"
+              checked={isSelected}
+              onChange={(e) => onSelectChange(e.target.checked)}
+              className="h-4 w-4 accent-primary"
+            />
+            🗓️ Add to itinerary
+          </label>
+        )}
+        {/* Map mode: whether the plan matches the attractions found near the clicked point */}
+        {plan.routeStop && (
+          <p className="mt-2 text-xs font-medium text-foreground/70">
+            🚗 Stop {plan.routeStop.order} · km {plan.routeStop.routeKm} of the route · +{plan.routeStop.detourKm} km detour
+          </p>
+        )}
+        {plan.grounding && (
+          <div
+            className={`mt-2 rounded-lg px-3 py-2 text-xs font-medium ${plan.grounding.grounded
+              ? 'bg-primary/10 text-foreground/70'
+              : 'bg-destructive/10 text-destructive'}`}
+            title={plan.grounding.reasons.join('\n') || undefined}
+          >
+            {plan.grounding.grounded
+              ? `✅ Matches nearby map data (${Math.round(plan.grounding.score * 100)}%)`
+              : `⚠️ Unverified: ${plan.grounding.reasons[0] || 'references places outside the map data'}`}
+          </div>
+        )}
       </CardHeader>
 
       <CardContent className="space-y-4 sm:space-y-6">
@@ -5,10 +5,11 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { VoiceRecorderProps } from '@/lib/types';
 import { cn } from '@/lib/utils';
+import { useBrowserSupport } from '@/lib/use-browser-support';
 
 export default function VoiceRecorder({ onTranscript, onError, disabled = false }: VoiceRecorderProps) {
   const [isListening, setIsListening] = useState(false);
-  const [isSupported, setIsSupported] = useState(true);
+  const isSupported = useBrowserSupport(() => Boolean(window.SpeechRecognition || window.webkitSpeechRecognition));
   const [interimTranscript, setInterimTranscript] = useState('');
   const recognitionRef = useRef<SpeechRecognition | null>(null);
 
@@ -18,7 +19,6 @@ export default function VoiceRecorder({ onTranscript, onError, disabled = false
       const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
       
       if (!SpeechRecognition) {
-        setIsSupported(false);
         onError('Speech recognition is not supported in this browser. Please use Chrome, Edge, or Safari.');
         return;
       }
@@ -2,9 +2,11 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { useBrowserSupport } from '@/lib/use-browser-support';
 
 export interface VoiceSynthesisProps {
   text: string | null;
+  isStreaming?: boolean; // Text is still being generated; speak completed sentences as they arrive
   autoPlay?: boolean;
   onStart?: () => void;
   onEnd?: () => void;
@@ -13,53 +15,66 @@ export interface VoiceSynthesisProps {
 
 export default function VoiceSynthesis({
   text,
+  isStreaming = false,
   autoPlay = true,
   onStart,
   onEnd,
   onError,
 }: VoiceSynthesisProps) {
   const [isSpeaking, setIsSpeaking] = useState(false);
-  const [isSupported, setIsSupported] = useState(true);
+  const isSupported = useBrowserSupport(() => Boolean(window.speechSynthesis));
   const [isPaused, setIsPaused] = useState(false);
   const utteranceRef = useRef<SpeechSynthesisUtterance | null>(null);
   const currentTextRef = useRef<string | null>(null);
+  // Characters of a streamed text already queued for speech (null when not streaming)
+  const spokenLengthRef = useRef<number | null>(null);
+  // Number of queued utterances that have not finished yet
+  const pendingUtterancesRef = useRef(0);
 
   useEffect(() => {
-    // Check for browser support
-    if (typeof window !== 'undefined') {
-      if (!window.speechSynthesis) {
-        setIsSupported(false);
-        onError?.('Text-to-speech is not supported in this browser.');
-        return;
-      }
+    if (!isSupported) {
+      onError?.('Text-to-speech is not supported in this browser.');
     }
-  }, [onError]);
+  }, [isSupported, onError]);
 
   useEffect(() => {
-    // Handle new text
-    if (!text || !isSupported) return;
-
-    // If text hasn't changed, don't restart
-    if (text === currentTextRef.current) return;
-
-    currentTextRef.current = text;
-
-    // Stop any currently playing speech
-    if (window.speechSynthesis.speaking) {
-      window.speechSynthesis.cancel();
-    }
-
-    if (autoPlay) {
-      speak(text);
-    }
-
     // Cleanup on unmount
     return () => {
-      if (window.speechSynthesis.speaking) {
+      if (window.speechSynthesis?.speaking) {
         window.speechSynthesis.cancel();
       }
     };
-  }, [text, autoPlay, isSupported]);
+  }, []);
+
+  // Queue the completed sentences of a streamed text that haven't been spoken yet.
+  // Once the stream has finished, the remaining tail is queued as well.
+  const speakStreamed = (fullText: string, stillStreaming: boolean) => {
+    const spokenLength = spokenLengthRef.current ?? 0;
+    const unspoken = fullText.slice(spokenLength);
+
+    let speakUpTo = spokenLength;
+    if (stillStreaming) {
+      // Find the last sentence terminator followed by whitespace
+      const sentenceEnds = [...unspoken.matchAll(/[.!?](?=\s)/g)];
+      const lastEnd = sentenceEnds[sentenceEnds.length - 1];
+      if (lastEnd?.index !== undefined) {
+        speakUpTo = spokenLength + lastEnd.index + 1;
+      }
+    } else {
+      speakUpTo = fullText.length;
+    }
+
+    const chunk = fullText.slice(spokenLength, speakUpTo).trim();
+    spokenLengthRef.current = stillStreaming ? speakUpTo : null;
+
+    if (chunk) {
+      speak(chunk);
+    } else if (!stillStreaming && pendingUtterancesRef.current === 0) {
+      // Nothing left to say and nothing queued
+      setIsSpeaking(false);
+      onEnd?.();
+    }
+  };
 
   const speak = (textToSpeak: string) => {
     if (!isSupported || !textToSpeak.trim()) return;
@@ -85,6 +100,8 @@ export default function VoiceSynthesis({
         utterance.voice = preferredVoice;
       }
 
+      pendingUtterancesRef.current += 1;
+
       // Handle events
       utterance.onstart = () => {
         setIsSpeaking(true);
@@ -93,6 +110,13 @@ export default function VoiceSynthesis({
       };
 
       utterance.onend = () => {
+        pendingUtterancesRef.current = Math.max(0, pendingUtterancesRef.current - 1);
+
+        // Wait for the rest of a streamed text before reporting the end
+        if (pendingUtterancesRef.current > 0 || spokenLengthRef.current !== null) {
+          return;
+        }
+
         setIsSpeaking(false);
         setIsPaused(false);
         onEnd?.();
@@ -100,6 +124,7 @@ export default function VoiceSynthesis({
 
       utterance.onerror = (event) => {
         console.error('Speech synthesis error:', event);
+        pendingUtterancesRef.current = Math.max(0, pendingUtterancesRef.current - 1);
         setIsSpeaking(false);
         setIsPaused(false);
         
@@ -137,7 +162,52 @@ export default function VoiceSynthesis({
     }
   };
 
+  useEffect(() => {
+    // Handle new text
+    if (!text || !isSupported) return;
+
+    // Streamed text that extends what we've already started speaking
+    const isContinuation = spokenLengthRef.current !== null &&
+      currentTextRef.current !== null &&
+      text.startsWith(currentTextRef.current);
+
+    if (isContinuation) {
+      currentTextRef.current = text;
+      if (autoPlay) {
+        speakStreamed(text, isStreaming);
+      }
+      return;
+    }
+
+    // If text hasn't changed, don't restart
+    if (text === currentTextRef.current) return;
+
+    currentTextRef.current = text;
+    spokenLengthRef.current = null;
+    pendingUtterancesRef.current = 0;
+
+    // Stop any currently playing speech
+    if (window.speechSynthesis.speaking) {
+      window.speechSynthesis.cancel();
+    }
+
+    if (isStreaming) {
+      spokenLengthRef.current = 0;
+      if (autoPlay) {
+        speakStreamed(text, true);
+      }
+    } else if (autoPlay) {
+      speak(text);
+    }
+  }, [text, isStreaming, autoPlay, isSupported]);
+
   const stop = () => {
+    pendingUtterancesRef.current = 0;
+    // Skip whatever is still to come from a streamed text
+    if (spokenLengthRef.current !== null) {
+      spokenLengthRef.current = Number.POSITIVE_INFINITY;
+    }
+
     if (window.speechSynthesis.speaking) {
       window.speechSynthesis.cancel();
       setIsSpeaking(false);
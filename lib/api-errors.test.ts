@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { readJsonObject, toErrorResponse } from './api-errors';
+import { InvalidRequestError } from './errors';
+
+/**
+ * A POST request with a raw body
+ */
+function requestWith(body: string): Request {
+  return new Request('http://localhost/api/test', { method: 'POST', body });
+}
+
+describe('readJsonObject', () => {
+  it('returns a JSON object body', async () => {
+    expect(await readJsonObject(requestWith('{"area": null}'))).toEqual({ area: null });
+  });
+
+  it('rejects malformed JSON and bodies that are not objects', async () => {
+    for (const body of ['{"area":', 'null', '[1, 2]', '"text"', '42']) {
+      await expect(readJsonObject(requestWith(body))).rejects.toBeInstanceOf(InvalidRequestError);
+    }
+  });
+});
+
+describe('toErrorResponse', () => {
+  it('answers an invalid request body with a 400', async () => {
+    const response = toErrorResponse(new InvalidRequestError('Request body must be a JSON object'));
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toEqual({
+      error: 'Invalid request',
+      message: 'Request body must be a JSON object',
+      code: 'INVALID_REQUEST',
+      retryable: false
+    });
+  });
+});
@@ -0,0 +1,143 @@
+import { NextResponse } from 'next/server';
+import { ErrorResponse } from './types';
+import {
+  InvalidRequestError,
+  InvalidResponseError,
+  OpenRouterAuthError,
+  OpenRouterBadRequestError,
+  OpenRouterCancelledError,
+  OpenRouterError,
+  OpenRouterNetworkError,
+  OpenRouterRateLimitError,
+  OpenRouterTimeoutError
+} from './errors';
+
+/**
+ * Shared mapping from thrown errors to the ErrorResponse shape used by every API route
+ */
+
+/**
+ * Build an ErrorResponse JSON response
+ * Sets the Retry-After header when a retry delay is known
+ */
+export function errorResponse(body: ErrorResponse, status: number): NextResponse<ErrorResponse> {
+  const headers: Record<string, string> = {};
+  if (body.retryAfter !== undefined) {
+    headers['Retry-After'] = String(body.retryAfter);
+  }
+
+  return NextResponse.json(body, { status, headers });
+}
+
+/**
+ * Read a request body that must be a JSON object
+ * @throws InvalidRequestError for malformed JSON or any other JSON value
+ */
+export async function readJsonObject<T extends object>(request: Request): Promise<Partial<T>> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    throw new InvalidRequestError('Request body must be valid JSON');
+  }
+
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    throw new InvalidRequestError('Request body must be a JSON object');
+  }
+  return body as Partial<T>;
+}
+
+/**
+ * Map any error thrown while handling a request onto an ErrorResponse
+ */
+export function toErrorResponse(error: unknown): NextResponse<ErrorResponse> {
+  if (error instanceof InvalidRequestError) {
+    return errorResponse({
+      error: 'Invalid request',
+      message: error.message,
+      code: 'INVALID_REQUEST',
+      retryable: false
+    }, 400);
+  }
+
+  if (error instanceof OpenRouterAuthError) {
+    return errorResponse({
+      error: 'Configuration error',
+      message: 'The service is not properly configured. Please contact support.',
+      code: 'CONFIG_ERROR',
+      retryable: false
+    }, 500);
+  }
+
+  if (error instanceof OpenRouterRateLimitError) {
+    return errorResponse({
+      error: 'Rate limit exceeded',
+      message: 'Too many requests. Please wait a moment and try again.',
+      code: 'RATE_LIMIT',
+      retryable: true,
+      retryAfter: error.retryAfter
+    }, 429);
+  }
+
+  if (error instanceof OpenRouterTimeoutError) {
+    return errorResponse({
+      error: 'Timeout',
+      message: 'The AI service took too long to respond. Please try again.',
+      code: 'TIMEOUT',
+      retryable: true
+    }, 504);
+  }
+
+  if (error instanceof OpenRouterCancelledError) {
+    return errorResponse({
+      error: 'Request cancelled',
+      message: 'The request was cancelled.',
+      code: 'CANCELLED',
+      retryable: false
+    }, 499);
+  }
+
+  if (error instanceof OpenRouterNetworkError) {
+    return errorResponse({
+      error: 'Network error',
+      message: 'Unable to connect to the AI service. Please check your connection and try again.',
+      code: 'NETWORK_ERROR',
+      retryable: true
+    }, 503);
+  }
+
+  if (error instanceof OpenRouterBadRequestError) {
+    return errorResponse({
+      error: 'Bad request',
+      message: 'The AI service rejected the request. Please try rephrasing.',
+      code: 'BAD_REQUEST',
+      retryable: false
+    }, 502);
+  }
+
+  if (error instanceof OpenRouterError) {
+    return errorResponse({
+      error: 'AI service error',
+      message: 'The AI service is having trouble right now. Please try again.',
+      code: 'UPSTREAM_ERROR',
+      retryable: error.retryable
+    }, 502);
+  }
+
+  if (error instanceof InvalidResponseError) {
+    return errorResponse({
+      error: 'Invalid response format',
+      message: error.message || 'The AI returned an invalid response format. Please try again.',
+      code: 'VALIDATION_ERROR',
+      retryable: true
+    }, 500);
+  }
+
+  // Generic error response
+  return errorResponse({
+    error: 'Internal server error',
+    message: 'An unexpected error occurred. Please try again.',
+    code: 'INTERNAL_ERROR',
+    retryable: true
+  }, 500);
+}
@@ -0,0 +1,165 @@
+/**
+ * Typed errors raised by LLM providers
+ * Each class carries the equivalent HTTP status and whether retrying can help,
+ * so callers never have to inspect error messages
+ */
+
+/**
+ * Base class for errors raised while calling OpenRouter (or any other LLM provider)
+ */
+export class OpenRouterError extends Error {
+  readonly status: number;
+  readonly retryable: boolean;
+
+  constructor(message: string, status: number, retryable: boolean) {
+    super(message);
+    this.name = 'OpenRouterError';
+    this.status = status;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Missing or rejected API key (401/403)
+ */
+export class OpenRouterAuthError extends OpenRouterError {
+  constructor(message: string, status = 401) {
+    super(message, status, false);
+    this.name = 'OpenRouterAuthError';
+  }
+}
+
+/**
+ * Rate limit exceeded (429)
+ */
+export class OpenRouterRateLimitError extends OpenRouterError {
+  readonly retryAfter?: number; // Seconds to wait, from the Retry-After header
+
+  constructor(message: string, retryAfter?: number) {
+    super(message, 429, true);
+    this.name = 'OpenRouterRateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Upstream service failure (5xx, interrupted stream or unexpected status)
+ */
+export class OpenRouterUpstreamError extends OpenRouterError {
+  constructor(message: string, status = 502) {
+    super(message, status, true);
+    this.name = 'OpenRouterUpstreamError';
+  }
+}
+
+/**
+ * The upstream service could not be reached at all (DNS, connection refused, offline)
+ */
+export class OpenRouterNetworkError extends OpenRouterError {
+  constructor(message: string) {
+    super(message, 503, true);
+    this.name = 'OpenRouterNetworkError';
+  }
+}
+
+/**
+ * The request took longer than the configured timeout
+ */
+export class OpenRouterTimeoutError extends OpenRouterError {
+  constructor(message: string) {
+    super(message, 504, true);
+    this.name = 'OpenRouterTimeoutError';
+  }
+}
+
+/**
+ * The caller aborted the request (e.g. the browser disconnected)
+ */
+export class OpenRouterCancelledError extends OpenRouterError {
+  constructor(message: string) {
+    super(message, 499, false);
+    this.name = 'OpenRouterCancelledError';
+  }
+}
+
+/**
+ * The upstream API rejected the request as malformed (400)
+ */
+export class OpenRouterBadRequestError extends OpenRouterError {
+  constructor(message: string) {
+    super(message, 400, false);
+    this.name = 'OpenRouterBadRequestError';
+  }
+}
+
+/**
+ * The model answered, but its output failed parsing or validation
+ */
+export class InvalidResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidResponseError';
+  }
+}
+
+/**
+ * The model's JSON didn't match the travel plan schema, even after automatic repair
+ * Lists every unfixable field by path, e.g. "plans[1].budget.estimated"
+ */
+export class SchemaValidationError extends InvalidResponseError {
+  readonly issues: { path: string; message: string }[];
+
+  constructor(message: string, issues: { path: string; message: string }[]) {
+    super(message);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * A request to one of our API routes had a body that isn't usable (malformed
+ * JSON, or not a JSON object); API routes answer it with a 400
+ */
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidRequestError';
+  }
+}
+
+/**
+ * Client-side error for a failed call to one of our API routes
+ * Carries the ErrorResponse code so the UI can pick a message without string matching
+ */
+export class ApiRequestError extends Error {
+  readonly code: string;
+  readonly status: number;
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+
+  constructor(message: string, code: string, status: number, retryable: boolean, retryAfter?: number) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+    this.status = status;
+    this.retryable = retryable;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Build an ApiRequestError from a non-OK response carrying an ErrorResponse body
+ */
+export async function apiErrorFromResponse(response: Response): Promise<ApiRequestError> {
+  const errorData = await response.json().catch(() => ({}));
+  const retryAfterHeader = Number(response.headers.get('Retry-After'));
+
+  return new ApiRequestError(
+    errorData.message || errorData.error || `Request failed with status ${response.status}`,
+    errorData.code || 'HTTP_ERROR',
+    response.status,
+    // Without an explicit flag, only server errors and rate limits are worth retrying
+    errorData.retryable ?? (response.status >= 500 || response.status === 429),
+    errorData.retryAfter ?? (Number.isFinite(retryAfterHeader) && retryAfterHeader > 0 ? retryAfterHeader : undefined)
+  );
+}
@@ -0,0 +1,147 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { distanceMeters } from './geo-utils';
+import { cachedLookup, encodeGeohash, geoTile } from './geo-cache';
+
+describe('geoTile', () => {
+  it('gives every point in a tile the same center, inside the tile', () => {
+    const point = { lat: 38.7101, lng: -9.1402 };
+    const a = geoTile('places', point);
+    const other = { lat: a.center.lat + 0.015, lng: a.center.lng - 0.015 };
+    const b = geoTile('places', other);
+
+    expect(encodeGeohash(other, 5)).toBe(encodeGeohash(point, 5));
+    expect(b).toEqual(a);
+    expect(encodeGeohash(a.center, 5)).toBe(encodeGeohash(point, 5));
+  });
+
+  it('covers the whole tile from its center', () => {
+    const tile = geoTile('places', { lat: 38.7101, lng: -9.1402 });
+    const step = 0.0439; // Precision 5 tile size (degrees)
+
+    // Points near the tile's edges stay within the radius
+    for (const [dLat, dLng] of [[-0.5, -0.5], [-0.5, 0.5], [0.5, -0.5], [0.5, 0.5]]) {
+      const corner = { lat: tile.center.lat + dLat * step * 0.99, lng: tile.center.lng + dLng * step * 0.99 };
+      expect(distanceMeters(tile.center, corner) / 1000).toBeLessThanOrEqual(tile.radiusKm);
+    }
+    expect(tile.radiusKm).toBeGreaterThan(2);
+    expect(tile.radiusKm).toBeLessThan(4);
+  });
+});
+
+describe('cachedLookup', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('shares one load between concurrent misses for the same key', async () => {
+    let release: (value: string) => void = () => undefined;
+    const loader = vi.fn(() => new Promise<string>(resolve => {
+      release = resolve;
+    }));
+
+    const first = cachedLookup('test-concurrent', 60_000, loader);
+    const second = cachedLookup('test-concurrent', 60_000, loader);
+    await vi.waitFor(() => expect(loader).toHaveBeenCalled());
+    release('fresh');
+
+    expect(await first).toEqual({ value: 'fresh', cache: 'miss' });
+    // The second lookup ran no load of its own
+    expect(await second).toEqual({ value: 'fresh', cache: 'hit' });
+    expect(loader).toHaveBeenCalledTimes(1);
+    expect(await cachedLookup('test-concurrent', 60_000, loader)).toEqual({ value: 'fresh', cache: 'hit' });
+  });
+
+  it('keeps a shared load going for the others when one caller aborts', async () => {
+    let release: (value: string) => void = () => undefined;
+    let loadSignal: AbortSignal | undefined;
+    const loader = vi.fn((signal: AbortSignal) => {
+      loadSignal = signal;
+      return new Promise<string>(resolve => {
+        release = resolve;
+      });
+    });
+
+    const client = new AbortController();
+    const first = cachedLookup('test-abort', 60_000, loader, { signal: client.signal });
+    const second = cachedLookup('test-abort', 60_000, loader, { signal: new AbortController().signal });
+    await vi.waitFor(() => expect(loader).toHaveBeenCalled());
+
+    client.abort();
+    await expect(first).rejects.toThrow();
+    expect(loadSignal?.aborted).toBe(false);
+
+    release('fresh');
+    expect(await second).toEqual({ value: 'fresh', cache: 'hit' });
+  });
+
+  it('aborts a shared load once every caller has gone', async () => {
+    let loadSignal: AbortSignal | undefined;
+    const loader = (signal: AbortSignal) => {
+      loadSignal = signal;
+      return new Promise<string>(() => undefined);
+    };
+
+    const clients = [new AbortController(), new AbortController()];
+    const lookups = clients.map(client => cachedLookup('test-abort-all', 60_000, loader, { signal: client.signal }));
+    await vi.waitFor(() => expect(loadSignal).toBeDefined());
+
+    clients.forEach(client => client.abort());
+    await Promise.allSettled(lookups);
+    expect(loadSignal?.aborted).toBe(true);
+  });
+
+  it('runs its own load for a refresh instead of joining a pending one', async () => {
+    let release: (value: string) => void = () => undefined;
+    const pending = cachedLookup('test-refresh', 60_000, () => new Promise<string>(resolve => {
+      release = resolve;
+    }));
+
+    expect(await cachedLookup('test-refresh', 60_000, async () => 'regenerated', { refresh: true }))
+      .toEqual({ value: 'regenerated', cache: 'miss' });
+
+    release('stale');
+    await pending;
+  });
+
+  it('deletes expired entries from the file store when they are read', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'geo-cache-'));
+    vi.stubEnv('GEO_CACHE_STORE', 'file');
+    vi.stubEnv('GEO_CACHE_DIR', dir);
+    const { cachedLookup: lookup } = await import('./geo-cache');
+
+    try {
+      const file = path.join(dir, `${createHash('sha256').update('test-expired').digest('hex')}.json`);
+      await fs.writeFile(file, JSON.stringify({ value: 'stale', expiresAt: Date.now() - 1000 }));
+
+      // A failed load isn't cached, so nothing is written back
+      expect(await lookup('test-expired', 60_000, async () => null)).toEqual({ value: null, cache: 'miss' });
+      await expect(fs.access(file)).rejects.toThrow();
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('keeps keys that differ only in punctuation or script apart in the file store', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'geo-cache-'));
+    vi.stubEnv('GEO_CACHE_STORE', 'file');
+    vi.stubEnv('GEO_CACHE_DIR', dir);
+    const { cachedLookup: lookup } = await import('./geo-cache');
+
+    try {
+      const keys = ['geocode-a.b', 'geocode-a:b', 'geocode-東京', 'geocode-Москва'];
+      for (const key of keys) {
+        await lookup(key, 60_000, async () => key);
+      }
+      for (const key of keys) {
+        expect(await lookup(key, 60_000, async () => 'reloaded')).toEqual({ value: key, cache: 'hit' });
+      }
+    } finally {
+      await fs.rm(dir, { recursive: true, force: true });
+    }
+  });
+});
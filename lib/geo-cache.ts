@@ -0,0 +1,368 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { LocationCoordinates } from './types';
+import { distanceMeters } from './geo-utils';
+
+/**
+ * Geodata cache keyed by geohash tile
+ * Nearby clicks land in the same tile and reuse results across clicks and users.
+ * Each source has its own tile size and TTL; entries live in memory or on disk.
+ * Map recommendations are cached the same way (see /api/map-recommendations).
+ */
+
+// Everything cached per tile: geodata lookups, place sources, place details, plan geocoding and generated map recommendations
+export type TileCacheSource = 'reverse' | 'cities' | 'places' | 'details' | 'geocode' | 'recommendations';
+
+// Tile size (geohash precision) and TTL per source
+// Precision 6 ≈ 1.2 × 0.6 km, 5 ≈ 4.9 × 4.9 km, 4 ≈ 39 × 20 km
+const SOURCE_CONFIG: Record<TileCacheSource, { precision: number; ttlMs: number }> = {
+  reverse: { precision: 6, ttlMs: 7 * 24 * 60 * 60 * 1000 },
+  cities: { precision: 4, ttlMs: 7 * 24 * 60 * 60 * 1000 },
+  places: { precision: 5, ttlMs: 24 * 60 * 60 * 1000 },
+  // Keyed by the place's own id as well; details change rarely
+  details: { precision: 7, ttlMs: 7 * 24 * 60 * 60 * 1000 },
+  // Keyed by the searched name as well, within the region around the click
+  geocode: { precision: 4, ttlMs: 7 * 24 * 60 * 60 * 1000 },
+  recommendations: { precision: 5, ttlMs: 6 * 60 * 60 * 1000 }
+};
+
+// Most entries kept by the in-memory store
+const MAX_MEMORY_ENTRIES = 2000;
+
+// Most entries kept by the file store, and how often it sweeps out expired
+// entries and the oldest ones past the limit
+const MAX_FILE_ENTRIES = 10000;
+const FILE_SWEEP_INTERVAL_MS = 60 * 60 * 1000;
+
+const GEOHASH_ALPHABET = '0123456789bcdefghjkmnpqrstuvwxyz';
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+}
+
+// Storage backend for cache entries
+interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+}
+
+/**
+ * In-memory store (per server instance), evicting the least recently used entries
+ */
+class MemoryCacheStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      if (entry.expiresAt <= Date.now()) {
+        return undefined;
+      }
+      // Re-insert so the Map stays ordered by most recent use
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    if (this.entries.size > MAX_MEMORY_ENTRIES) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) {
+        this.entries.delete(oldest);
+      }
+    }
+  }
+}
+
+/**
+ * File-backed store (one JSON file per entry), survives restarts
+ * Expired entries are deleted when read, and by a sweep at most once per
+ * FILE_SWEEP_INTERVAL_MS that also caps the store at MAX_FILE_ENTRIES
+ */
+class FileCacheStore implements CacheStore {
+  private dir: string;
+  private lastSweep = 0;
+  private sweeping: Promise<void> | null = null;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  /**
+   * One file per key, named by the key's hash (keys hold place names, ids and any script)
+   */
+  private filePath(key: string): string {
+    return path.join(this.dir, `${createHash('sha256').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    let entry: CacheEntry;
+    try {
+      entry = JSON.parse(await fs.readFile(this.filePath(key), 'utf8')) as CacheEntry;
+    } catch {
+      return undefined;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      await fs.rm(this.filePath(key), { force: true }).catch(() => undefined);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await fs.mkdir(this.dir, { recursive: true });
+      await fs.writeFile(this.filePath(key), JSON.stringify(entry));
+    } catch (error) {
+      console.warn('[GeoCache] Failed to write cache entry:', error instanceof Error ? error.message : error);
+    }
+
+    if (!this.sweeping && Date.now() - this.lastSweep >= FILE_SWEEP_INTERVAL_MS) {
+      this.lastSweep = Date.now();
+      this.sweeping = this.sweep()
+        .catch(error => {
+          console.warn('[GeoCache] Failed to sweep cache entries:', error instanceof Error ? error.message : error);
+        })
+        .finally(() => {
+          this.sweeping = null;
+        });
+    }
+  }
+
+  /**
+   * Delete expired (and unreadable) entries, then the least recently written
+   * ones past MAX_FILE_ENTRIES
+   */
+  async sweep(): Promise<void> {
+    const now = Date.now();
+    const names = (await fs.readdir(this.dir)).filter(name => name.endsWith('.json'));
+    const kept: { file: string; writtenAt: number }[] = [];
+
+    for (const name of names) {
+      const file = path.join(this.dir, name);
+      try {
+        const [content, stats] = await Promise.all([fs.readFile(file, 'utf8'), fs.stat(file)]);
+        const { expiresAt } = JSON.parse(content) as CacheEntry;
+        if (typeof expiresAt === 'number' && expiresAt > now) {
+          kept.push({ file, writtenAt: stats.mtimeMs });
+          continue;
+        }
+      } catch {
+        // Unreadable entries are dropped like expired ones
+      }
+      await fs.rm(file, { force: true });
+    }
+
+    const excess = kept.sort((a, b) => a.writtenAt - b.writtenAt).slice(0, Math.max(0, kept.length - MAX_FILE_ENTRIES));
+    for (const { file } of excess) {
+      await fs.rm(file, { force: true });
+    }
+  }
+}
+
+/**
+ * Create the store selected by GEO_CACHE_STORE (memory | file)
+ */
+function createStore(): CacheStore {
+  if (process.env.GEO_CACHE_STORE === 'file') {
+    return new FileCacheStore(process.env.GEO_CACHE_DIR || path.join(process.cwd(), '.cache', 'geo'));
+  }
+  return new MemoryCacheStore();
+}
+
+let store: CacheStore | null = null;
+
+// A load in progress, shared by every lookup of its key that missed meanwhile
+// It runs on its own signal, aborted only once every caller waiting on it has gone
+interface PendingLoad {
+  value: Promise<unknown>;
+  controller: AbortController;
+  waiters: number;
+}
+
+// Loads in progress per key, so concurrent identical lookups share one fetch
+const inFlight = new Map<string, PendingLoad>();
+
+function getStore(): CacheStore {
+  if (!store) {
+    store = createStore();
+  }
+  return store;
+}
+
+/**
+ * Encode coordinates as a geohash of the given precision
+ */
+export function encodeGeohash(coords: LocationCoordinates, precision: number): string {
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+  let hash = '';
+  let bits = 0;
+  let bitCount = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    // Bits alternate between longitude and latitude, starting with longitude
+    const range = evenBit ? lngRange : latRange;
+    const value = evenBit ? coords.lng : coords.lat;
+    const mid = (range[0] + range[1]) / 2;
+
+    bits <<= 1;
+    if (value >= mid) {
+      bits |= 1;
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+
+    evenBit = !evenBit;
+    if (++bitCount === 5) {
+      hash += GEOHASH_ALPHABET[bits];
+      bits = 0;
+      bitCount = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * The tile a source caches the coordinates under: its center, and the distance
+ * from the center to its corners (km)
+ * Lookups that serve a whole tile fetch around the center, widened by the radius
+ */
+export function geoTile(source: TileCacheSource, coords: LocationCoordinates): { center: LocationCoordinates; radiusKm: number } {
+  const bits = SOURCE_CONFIG[source].precision * 5;
+  const latRange = [-90, 90];
+  const lngRange = [-180, 180];
+
+  // Same halving as encodeGeohash, longitude first
+  for (let bit = 0; bit < bits; bit++) {
+    const range = bit % 2 === 0 ? lngRange : latRange;
+    const value = bit % 2 === 0 ? coords.lng : coords.lat;
+    const mid = (range[0] + range[1]) / 2;
+    if (value >= mid) {
+      range[0] = mid;
+    } else {
+      range[1] = mid;
+    }
+  }
+
+  const center = { lat: (latRange[0] + latRange[1]) / 2, lng: (lngRange[0] + lngRange[1]) / 2 };
+  // The corner nearer the equator is the farthest from the center
+  const cornerLat = Math.abs(latRange[0]) < Math.abs(latRange[1]) ? latRange[0] : latRange[1];
+  const radiusKm = distanceMeters(center, { lat: cornerLat, lng: lngRange[1] }) / 1000;
+
+  return { center, radiusKm };
+}
+
+/**
+ * Wait for a shared load, giving up when the caller's own signal aborts
+ * A caller without a signal keeps the load alive to the end
+ */
+function waitForLoad<T>(load: PendingLoad, signal?: AbortSignal): Promise<T> {
+  load.waiters++;
+  if (!signal) {
+    return load.value as Promise<T>;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => {
+      if (--load.waiters === 0) {
+        load.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+
+    signal.addEventListener('abort', onAbort, { once: true });
+    (load.value as Promise<T>)
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Return the cached value for a key, or load and cache it
+ * For lookups that aren't tied to a tile (e.g. place search by name)
+ * Concurrent misses for the same key share the first one's load and count as hits,
+ * since they cost no fetch of their own; a refresh always runs its own load
+ * @param loader - Fetches fresh data; returning null (a failed lookup) skips caching.
+ *   Gets the shared load's signal, not any one caller's
+ * @param options.refresh - Skip the cached value and overwrite it with fresh data
+ * @param options.signal - The caller's signal: aborting it stops waiting (and the load,
+ *   once no other caller waits for it)
+ */
+export async function cachedLookup<T>(
+  key: string,
+  ttlMs: number,
+  loader: (signal: AbortSignal) => Promise<T>,
+  options: { refresh?: boolean; signal?: AbortSignal } = {}
+): Promise<{ value: T; cache: 'hit' | 'miss' }> {
+  const { refresh = false, signal } = options;
+  const cacheStore = getStore();
+  signal?.throwIfAborted();
+
+  const entry = refresh ? undefined : await cacheStore.get(key);
+  if (entry && entry.expiresAt > Date.now()) {
+    return { value: entry.value as T, cache: 'hit' };
+  }
+
+  const pending = refresh ? undefined : inFlight.get(key);
+  if (pending && !pending.controller.signal.aborted) {
+    return { value: await waitForLoad<T>(pending, signal), cache: 'hit' };
+  }
+
+  const controller = new AbortController();
+  const load: PendingLoad = {
+    controller,
+    waiters: 0,
+    value: (async () => {
+      const value = await loader(controller.signal);
+      if (value !== null) {
+        await cacheStore.set(key, { value, expiresAt: Date.now() + ttlMs });
+      }
+      return value;
+    })()
+  };
+
+  // A refresh doesn't take over the key, so lookups that miss meanwhile don't wait on it
+  if (!refresh) {
+    inFlight.set(key, load);
+    load.value
+      .catch(() => undefined)
+      .finally(() => {
+        if (inFlight.get(key) === load) {
+          inFlight.delete(key);
+        }
+      });
+  }
+
+  return { value: await waitForLoad<T>(load, signal), cache: 'miss' };
+}
+
+/**
+ * Return the cached value for the coordinates' tile, or load and cache it
+ * @param loader - Fetches fresh data; returning null (a failed lookup) skips caching
+ * @param options.variant - Extra key part for values that also depend on more than the tile
+ * @param options.refresh - Skip the cached value and overwrite it with fresh data
+ * @param options.ttlMs - Override the source's TTL (e.g. per place source)
+ * @param options.signal - The caller's signal (see cachedLookup)
+ */
+export async function cachedGeoLookup<T>(
+  source: TileCacheSource,
+  coords: LocationCoordinates,
+  loader: (signal: AbortSignal) => Promise<T>,
+  options: { variant?: string; refresh?: boolean; ttlMs?: number; signal?: AbortSignal } = {}
+): Promise<{ value: T; cache: 'hit' | 'miss' }> {
+  const { precision } = SOURCE_CONFIG[source];
+  const ttlMs = options.ttlMs ?? SOURCE_CONFIG[source].ttlMs;
+  const key = [source, encodeGeohash(coords, precision), options.variant].filter(Boolean).join('-');
+
+  return cachedLookup(key, ttlMs, loader, { refresh: options.refresh, signal: options.signal });
+}
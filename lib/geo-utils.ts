@@ -0,0 +1,62 @@
+import { LocationCoordinates } from './types';
+
+/**
+ * Shared helpers for server-side geodata lookups
+ */
+
+// Per-request timeout for geodata services
+const GEO_TIMEOUT_MS = 10000;
+
+// Nominatim's usage policy requires an identifying User-Agent (browsers can't set one)
+const USER_AGENT = `Travle.ai Travel Advisor App (${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'})`;
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Fetch JSON from a geodata service with a timeout
+ * Returns null on any failure so one broken source doesn't fail the whole lookup
+ */
+export async function fetchGeoJson<T>(url: string, label: string, init: RequestInit = {}): Promise<T | null> {
+  try {
+    const response = await fetch(url, {
+      ...init,
+      headers: { 'User-Agent': USER_AGENT, 'Accept': 'application/json', ...init.headers },
+      signal: AbortSignal.timeout(GEO_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      console.warn(`[GeoData] ${label} returned ${response.status}`);
+      return null;
+    }
+
+    return await response.json() as T;
+  } catch (error) {
+    console.warn(`[GeoData] ${label} failed:`, error instanceof Error ? error.message : error);
+    return null;
+  }
+}
+
+/**
+ * Keep only absolute http(s) URLs from third-party data (they end up as links and image sources)
+ */
+export function cleanUrl(url: string | undefined): string | undefined {
+  if (!url) {
+    return undefined;
+  }
+
+  const trimmed = url.trim();
+  const withScheme = /^www\./i.test(trimmed) ? `https://${trimmed}` : trimmed;
+  return /^https?:\/\/\S+$/i.test(withScheme) ? withScheme : undefined;
+}
+
+/**
+ * Great-circle distance between two points in meters
+ */
+export function distanceMeters(a: LocationCoordinates, b: LocationCoordinates): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.lat - a.lat);
+  const dLng = toRad(b.lng - a.lng);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.lat)) * Math.cos(toRad(b.lat)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(h));
+}
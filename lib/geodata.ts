@@ -0,0 +1,281 @@
+import { GeoSearchResult, LocationContext, LocationCoordinates, MapArea, MapRoute, MapSearchFilters, NominatimResponse, RouteEnds } from './types';
+import { cachedGeoLookup, cachedLookup } from './geo-cache';
+import { fetchGeoJson } from './geo-utils';
+import { fetchNearbyPlaces, fetchPlacesAlongRoute } from './place-sources';
+import { enrichPlaces } from './place-details';
+import { DEFAULT_MAP_FILTERS } from './map-filters';
+import { areaCenter, areaRadiusKm } from './map-area';
+import { ROUTE_CORRIDOR_KM, routeKey, routeMidpoint, sampleRoute } from './map-route';
+
+/**
+ * Server-side geodata lookups for map mode
+ * Reverse geocoding and nearby-city search (Nominatim), driving routes (OSRM) plus
+ * places from the registered place sources (lib/place-sources.ts), combined into one LocationContext
+ * Every lookup goes through the tile cache in lib/geo-cache.ts
+ */
+
+// A lookup result and whether it came from the cache
+export interface Cached<T> {
+  value: T;
+  cache: 'hit' | 'miss';
+}
+
+// Search results kept per query
+const SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+const SEARCH_LIMIT = 6;
+
+// Driving routes kept per origin/destination pair
+const ROUTE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Words in a location name that indicate the user clicked on open water
+const WATER_KEYWORDS = ['ocean', 'sea', 'atlantic', 'pacific'];
+
+/**
+ * Whether a value is a valid latitude/longitude pair
+ */
+export function isValidCoordinates(coords: unknown): coords is LocationCoordinates {
+  if (!coords || typeof coords !== 'object') return false;
+  const { lat, lng } = coords as LocationCoordinates;
+  return typeof lat === 'number' && typeof lng === 'number' &&
+    Number.isFinite(lat) && Number.isFinite(lng) &&
+    Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+}
+
+/**
+ * Reverse geocode coordinates with Nominatim
+ */
+export async function reverseGeocode(coords: LocationCoordinates): Promise<Cached<NominatimResponse | null>> {
+  return cachedGeoLookup('reverse', coords, () => fetchGeoJson<NominatimResponse>(
+    `https://nominatim.openstreetmap.org/reverse?format=json&lat=${coords.lat}&lon=${coords.lng}&zoom=10`,
+    'Nominatim reverse'
+  ));
+}
+
+/**
+ * Fetch nearby cities using Nominatim search
+ */
+export async function fetchNearbyCities(coords: LocationCoordinates): Promise<Cached<string[]>> {
+  const { value, cache } = await cachedGeoLookup('cities', coords, async () => {
+    const data = await fetchGeoJson<{ display_name?: string }[]>(
+      `https://nominatim.openstreetmap.org/search?format=json&q=city&lat=${coords.lat}&lon=${coords.lng}&limit=5`,
+      'Nominatim city search'
+    );
+
+    return Array.isArray(data)
+      ? data.map(city => city.display_name).filter((name): name is string => !!name)
+      : null;
+  });
+
+  return { value: value || [], cache };
+}
+
+/**
+ * Forward geocode a place name for the map search box
+ * Uses Photon (OpenStreetMap data), which is built for search-as-you-type;
+ * Nominatim's usage policy doesn't allow autocomplete
+ */
+export async function searchPlaces(query: string): Promise<Cached<GeoSearchResult[]>> {
+  const normalized = query.trim().toLowerCase().replace(/\s+/g, ' ');
+
+  const { value, cache } = await cachedLookup(`search-${normalized}`, SEARCH_CACHE_TTL_MS, async () => {
+    const data = await fetchGeoJson<{
+      features?: {
+        geometry?: { coordinates?: [number, number] };
+        properties?: {
+          osm_type?: string;
+          osm_id?: number;
+          osm_value?: string;
+          name?: string;
+          city?: string;
+          state?: string;
+          country?: string;
+        };
+      }[];
+    }>(
+      `https://photon.komoot.io/api/?q=${encodeURIComponent(normalized)}&limit=${SEARCH_LIMIT}&lang=en`,
+      'Photon search'
+    );
+
+    if (!data) {
+      return null;
+    }
+
+    const results: GeoSearchResult[] = [];
+    for (const feature of data.features || []) {
+      const [lng, lat] = feature.geometry?.coordinates || [];
+      const props = feature.properties || {};
+      if (typeof lat !== 'number' || typeof lng !== 'number' || !props.name) {
+        continue;
+      }
+
+      results.push({
+        id: `${props.osm_type || 'x'}${props.osm_id ?? results.length}`,
+        name: props.name,
+        description: [props.city !== props.name ? props.city : undefined, props.state, props.country]
+          .filter(Boolean)
+          .join(', '),
+        type: props.osm_value,
+        coordinates: { lat, lng }
+      });
+    }
+
+    return results;
+  });
+
+  return { value: value || [], cache };
+}
+
+/**
+ * Gather everything known about a location for map recommendations
+ * @param filters - Search radius and interests for the attraction lookup
+ * @param area - Drawn area to limit the attractions to (see buildAreaContext)
+ */
+export async function buildLocationContext(
+  coords: LocationCoordinates,
+  filters: MapSearchFilters = DEFAULT_MAP_FILTERS,
+  area?: MapArea
+): Promise<LocationContext> {
+  // Independent lookups run in parallel
+  const [location, places, nearbyCities] = await Promise.all([
+    reverseGeocode(coords),
+    fetchNearbyPlaces(coords, filters, area),
+    fetchNearbyCities(coords)
+  ]);
+
+  // Details for the top places need their ids, so this runs after the place lookup
+  const enriched = await enrichPlaces(places.places);
+  const attractions = enriched.places;
+
+  const locationName = location.value?.display_name || `${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`;
+  const lowerName = locationName.toLowerCase();
+
+  return {
+    coordinates: coords,
+    locationName,
+    address: location.value?.address,
+    attractions,
+    placeSources: places.sources,
+    nearbyCities: nearbyCities.value,
+    isRemote: attractions.length === 0 && nearbyCities.value.length === 0,
+    isWater: WATER_KEYWORDS.some(keyword => lowerName.includes(keyword)),
+    filters,
+    area,
+    cache: {
+      reverse: location.cache,
+      cities: nearbyCities.cache,
+      ...places.cache,
+      details: enriched.cache
+    }
+  };
+}
+
+/**
+ * Gather everything known about a drawn area: the lookups run around its center,
+ * with a radius that covers the whole shape, and only attractions inside it are kept
+ * @param filters - Interests for the attraction lookup (the area replaces the radius)
+ */
+export async function buildAreaContext(
+  area: MapArea,
+  filters: MapSearchFilters = DEFAULT_MAP_FILTERS
+): Promise<LocationContext> {
+  const radiusKm = Math.max(1, Math.ceil(areaRadiusKm(area)));
+  return buildLocationContext(areaCenter(area), { ...filters, radiusKm }, area);
+}
+
+/**
+ * Driving route between two points from the public OSRM server
+ * Returns a null value when there is no route (e.g. across open water) or OSRM is unavailable
+ */
+export async function fetchRoute(ends: RouteEnds): Promise<Cached<Pick<MapRoute, 'points' | 'distanceKm' | 'durationMinutes'> | null>> {
+  return cachedLookup(`route-${routeKey(ends)}`, ROUTE_CACHE_TTL_MS, async () => {
+    const { origin, destination } = ends;
+    const data = await fetchGeoJson<{
+      code?: string;
+      routes?: {
+        distance?: number;
+        duration?: number;
+        geometry?: { coordinates?: [number, number][] };
+      }[];
+    }>(
+      `https://router.project-osrm.org/route/v1/driving/${origin.lng},${origin.lat};${destination.lng},${destination.lat}?overview=simplified&geometries=geojson`,
+      'OSRM route'
+    );
+
+    const route = data?.code === 'Ok' ? data.routes?.[0] : undefined;
+    const coordinates = route?.geometry?.coordinates;
+    if (!route || !Array.isArray(coordinates) || coordinates.length < 2) {
+      return null;
+    }
+
+    return {
+      points: coordinates.map(([lng, lat]) => ({ lat: Math.round(lat * 1e5) / 1e5, lng: Math.round(lng * 1e5) / 1e5 })),
+      distanceKm: Math.round((route.distance ?? 0) / 100) / 10,
+      durationMinutes: Math.round((route.duration ?? 0) / 60)
+    };
+  });
+}
+
+/**
+ * Short name for a route end: its town or city, else the first part of the address
+ */
+function routeEndName(location: NominatimResponse | null, coords: LocationCoordinates): string {
+  const address = location?.address;
+  return address?.city || address?.town || address?.village ||
+    location?.display_name?.split(',')[0].trim() ||
+    `${coords.lat.toFixed(4)}, ${coords.lng.toFixed(4)}`;
+}
+
+/**
+ * Gather everything known about a drive between two points: the route line, and
+ * attractions within a corridor along it (searched around evenly spaced points)
+ * Returns null when no route could be found
+ * @param filters - Interests for the attraction lookup (the corridor replaces the radius)
+ */
+export async function buildRouteContext(
+  ends: RouteEnds,
+  filters: MapSearchFilters = DEFAULT_MAP_FILTERS
+): Promise<LocationContext | null> {
+  const [route, origin, destination] = await Promise.all([
+    fetchRoute(ends),
+    reverseGeocode(ends.origin),
+    reverseGeocode(ends.destination)
+  ]);
+
+  if (!route.value) {
+    return null;
+  }
+
+  const corridorFilters = { ...filters, radiusKm: ROUTE_CORRIDOR_KM };
+  const places = await fetchPlacesAlongRoute(route.value.points, sampleRoute(route.value.points), corridorFilters);
+  const enriched = await enrichPlaces(places.places);
+  const attractions = enriched.places;
+
+  const originName = routeEndName(origin.value, ends.origin);
+  const destinationName = routeEndName(destination.value, ends.destination);
+
+  return {
+    coordinates: routeMidpoint(ends),
+    locationName: `${originName} → ${destinationName}`,
+    address: origin.value?.address,
+    attractions,
+    placeSources: places.sources,
+    // The two ends are the cities a stop may name besides the attractions
+    nearbyCities: [origin.value?.display_name, destination.value?.display_name].filter((name): name is string => !!name),
+    isRemote: attractions.length === 0,
+    isWater: false,
+    filters: corridorFilters,
+    route: {
+      ...ends,
+      ...route.value,
+      originName,
+      destinationName,
+      corridorKm: ROUTE_CORRIDOR_KM
+    },
+    cache: {
+      route: route.cache,
+      reverse: origin.cache === 'hit' && destination.cache === 'hit' ? 'hit' : 'miss',
+      ...places.cache,
+      details: enriched.cache
+    }
+  };
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it, vi } from 'vitest';
+import { applyGrounding, verifyPlanGrounding } from './grounding';
+import { makeContext, makePlace, makePlan } from './test-fixtures';
+
+const clicked = { lat: 38.7873, lng: -9.3904 };
+const context = makeContext(clicked, [
+  makePlace('Pena Palace', { lat: 38.7876, lng: -9.3906 }),
+  makePlace('Moorish Castle', { lat: 38.7925, lng: -9.3893 }),
+  makePlace('Belém Tower', { lat: 38.6916, lng: -9.2160 })
+]);
+
+describe('verifyPlanGrounding', () => {
+  it('grounds a plan built from the provided attractions', () => {
+    const grounding = verifyPlanGrounding(makePlan({
+      destination: 'Sintra',
+      highlights: ['Pena Palace', 'Moorish Castle'],
+      activities: ['Hike up to the Moorish Castle walls']
+    }), context, clicked);
+
+    expect(grounding.grounded).toBe(true);
+    expect(grounding.score).toBe(1);
+    expect(grounding.matchedPlaces).toEqual(['Sintra', 'Pena Palace', 'Moorish Castle']);
+    expect(grounding.distanceKm).toBeLessThan(1);
+    expect(grounding.reasons).toEqual([]);
+  });
+
+  it('flags places that are not in the data', () => {
+    const grounding = verifyPlanGrounding(makePlan({
+      destination: 'Eiffel Tower',
+      highlights: ['Louvre Museum'],
+      activities: ['Picnic']
+    }), context, clicked);
+
+    expect(grounding.grounded).toBe(false);
+    expect(grounding.score).toBe(0);
+    expect(grounding.unknownPlaces).toEqual(['Eiffel Tower', 'Louvre Museum']);
+    expect(grounding.reasons).toHaveLength(2);
+  });
+
+  it('flags known places beyond the search radius', () => {
+    const nearby = { ...context, filters: { radiusKm: 10, interests: [] } };
+    const grounding = verifyPlanGrounding(makePlan({
+      destination: 'Belém Tower',
+      highlights: ['Belém Tower'],
+      activities: ['Photos']
+    }), nearby, clicked);
+
+    expect(grounding.grounded).toBe(false);
+    expect(grounding.distanceKm).toBeGreaterThan(10);
+    expect(grounding.reasons).toEqual(['References a place 18 km away (limit 10 km)']);
+  });
+});
+
+describe('applyGrounding', () => {
+  const good = makePlan({ id: 'plan-1', destination: 'Pena Palace' });
+  const bad = makePlan({ id: 'plan-2', destination: 'Eiffel Tower', highlights: ['Louvre Museum'] });
+
+  it('drops ungrounded plans in drop mode', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const result = applyGrounding([good, bad], context, clicked, 'drop');
+
+    expect(result.plans.map(plan => plan.id)).toEqual(['plan-1']);
+    expect(result.droppedPlans).toEqual(['Eiffel Tower']);
+  });
+
+  it('keeps every plan in flag mode, or when none is grounded', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(applyGrounding([good, bad], context, clicked, 'flag').plans).toHaveLength(2);
+
+    const result = applyGrounding([bad], context, clicked, 'drop');
+    expect(result.plans[0].grounding?.grounded).toBe(false);
+    expect(result.droppedPlans).toEqual([]);
+  });
+});
@@ -0,0 +1,209 @@
+import { GroundingMode, LocationContext, LocationCoordinates, PlanGrounding, TravelPlan } from './types';
+import { distanceMeters } from './geo-utils';
+import { namesMatch, normalizeName } from './place-sources';
+import { locateOnRoute } from './map-route';
+
+/**
+ * Grounding verifier for map recommendations
+ * Checks each plan's destination, highlights and activities against the
+ * attractions and area names the model was given, computes how far matched
+ * attractions are from the clicked point, and flags or drops plans that
+ * reference places outside the data or beyond the distance limit.
+ */
+
+// Distance limit when the context has no search radius (km)
+const DEFAULT_MAX_DISTANCE_KM = 100;
+
+// Share of place references that must match the provided data for a plan to count as grounded
+const MIN_GROUNDING_SCORE = 0.5;
+
+// Words that mark a capitalized phrase as a named place ("Temple of Heaven", "Stanley Park"),
+// as opposed to a feature or activity ("Panoramic views", "Guided walk")
+const PLACE_KEYWORDS = new Set([
+  'museum', 'gallery', 'temple', 'shrine', 'church', 'cathedral', 'basilica', 'mosque', 'monastery', 'abbey',
+  'palace', 'castle', 'fort', 'fortress', 'tower', 'bridge', 'gate', 'wall', 'square', 'plaza', 'market',
+  'park', 'garden', 'gardens', 'zoo', 'aquarium', 'stadium', 'theatre', 'theater', 'opera', 'monument',
+  'memorial', 'mountain', 'mount', 'mt', 'hill', 'lake', 'river', 'beach', 'bay', 'island', 'falls',
+  'waterfall', 'canyon', 'valley', 'forest', 'reserve', 'national', 'village', 'old town'
+]);
+
+// Lowercase words that can sit inside a place name ("Temple of Heaven", "Rue de la Paix")
+const NAME_CONNECTORS = new Set(['of', 'the', 'de', 'del', 'della', 'la', 'le', 'les', 'du', 'di', 'von', 'van', 'and', '&']);
+
+/**
+ * Grounding mode from MAP_GROUNDING_MODE (defaults to dropping ungrounded plans)
+ */
+export function getGroundingMode(): GroundingMode {
+  return process.env.MAP_GROUNDING_MODE === 'flag' ? 'flag' : 'drop';
+}
+
+/**
+ * Pull named places out of free text: runs of capitalized words (joined by
+ * connectors like "of") that contain a place keyword
+ */
+function extractPlaceReferences(text: string): string[] {
+  const words = text.split(/\s+/).map(word => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}'’.]+$/gu, '')).filter(Boolean);
+  const runs: string[][] = [];
+  let current: string[] = [];
+
+  const flush = () => {
+    // Connectors can't end a name
+    while (current.length > 0 && NAME_CONNECTORS.has(current[current.length - 1].toLowerCase())) {
+      current.pop();
+    }
+    if (current.length > 0) {
+      runs.push(current);
+    }
+    current = [];
+  };
+
+  for (const word of words) {
+    if (/^\p{Lu}/u.test(word)) {
+      current.push(word);
+    } else if (current.length > 0 && NAME_CONNECTORS.has(word.toLowerCase())) {
+      current.push(word);
+    } else {
+      flush();
+    }
+  }
+  flush();
+
+  return runs
+    .map(run => run.join(' '))
+    .filter(phrase => {
+      const lower = phrase.toLowerCase();
+      return Array.from(PLACE_KEYWORDS).some(keyword => new RegExp(`\\b${keyword}\\b`).test(lower));
+    });
+}
+
+/**
+ * Names of the clicked area (locality, region, nearby cities) that a plan may use as its destination
+ */
+function areaNames(context: LocationContext): string[] {
+  const address = context.address;
+  const names = [
+    context.locationName.split(',')[0],
+    address?.city,
+    address?.town,
+    address?.village,
+    address?.state,
+    ...context.nearbyCities.map(city => city.split(',')[0])
+  ];
+
+  return Array.from(new Set(names
+    .map(name => name?.trim())
+    .filter((name): name is string => !!name && !/^\d+$/.test(name))));
+}
+
+/**
+ * Check one plan against the provided attractions and area names
+ * Plans may not reference places farther from the clicked point than the search radius (the prompt's limit);
+ * in route mode, farther from the route than the corridor
+ */
+export function verifyPlanGrounding(plan: TravelPlan, context: LocationContext, clicked: LocationCoordinates): PlanGrounding {
+  const maxDistanceKm = context.filters?.radiusKm ?? DEFAULT_MAX_DISTANCE_KM;
+  const areas = areaNames(context);
+  const matchedPlaces = new Set<string>();
+  const unknownPlaces: string[] = [];
+  const reasons: string[] = [];
+  let distanceKm: number | undefined;
+  let checked = 0;
+  let matched = 0;
+
+  /**
+   * Match a reference against the attractions (fuzzy) and, for the destination, the area names
+   * Returns whether it is known; records matches and distances as a side effect
+   */
+  const check = (reference: string, allowArea: boolean): boolean => {
+    const attraction = context.attractions.find(place => namesMatch(place.name, reference));
+    if (attraction) {
+      matchedPlaces.add(attraction.name);
+      const km = context.route
+        ? locateOnRoute(attraction.coordinates, context.route.points).offsetKm
+        : distanceMeters(clicked, attraction.coordinates) / 1000;
+      distanceKm = Math.max(distanceKm ?? 0, km);
+      return true;
+    }
+
+    const normalized = normalizeName(reference);
+    const area = areas.find(name => {
+      const areaName = normalizeName(name);
+      return areaName !== '' && (normalized === areaName || (allowArea && normalized.includes(areaName)));
+    });
+    if (area) {
+      matchedPlaces.add(area);
+      return true;
+    }
+
+    return false;
+  };
+
+  // The destination always counts; highlights and activities only where they name a place
+  checked++;
+  if (check(plan.destination, true)) {
+    matched++;
+  } else {
+    unknownPlaces.push(plan.destination);
+    reasons.push(`Destination "${plan.destination}" isn't among the nearby attractions or area names`);
+  }
+
+  const references = Array.from(new Set([...plan.highlights, ...plan.activities].flatMap(extractPlaceReferences)));
+  for (const reference of references) {
+    checked++;
+    if (check(reference, false)) {
+      matched++;
+    } else {
+      unknownPlaces.push(reference);
+    }
+  }
+
+  const unknownReferences = unknownPlaces.filter(name => name !== plan.destination);
+  if (unknownReferences.length > 0) {
+    reasons.push(`Mentions places not in the provided data: ${unknownReferences.join(', ')}`);
+  }
+
+  if (distanceKm !== undefined && distanceKm > maxDistanceKm) {
+    reasons.push(`References a place ${Math.round(distanceKm)} km away (limit ${maxDistanceKm} km)`);
+  }
+
+  const score = checked > 0 ? matched / checked : 0;
+  const grounded = score >= MIN_GROUNDING_SCORE && (distanceKm === undefined || distanceKm <= maxDistanceKm);
+
+  return {
+    score: Math.round(score * 100) / 100,
+    grounded,
+    matchedPlaces: Array.from(matchedPlaces),
+    unknownPlaces,
+    distanceKm: distanceKm === undefined ? undefined : Math.round(distanceKm * 10) / 10,
+    reasons: grounded ? [] : reasons
+  };
+}
+
+/**
+ * Attach a grounding result to every plan and, in drop mode, remove ungrounded ones
+ * If every plan fails, all are kept (flagged) so the user still gets an answer
+ */
+export function applyGrounding(
+  plans: TravelPlan[],
+  context: LocationContext,
+  clicked: LocationCoordinates,
+  mode: GroundingMode = getGroundingMode()
+): { plans: TravelPlan[]; droppedPlans: string[] } {
+  const checked = plans.map(plan => ({ ...plan, grounding: verifyPlanGrounding(plan, context, clicked) }));
+
+  for (const plan of checked) {
+    if (!plan.grounding.grounded) {
+      console.warn(`[Grounding] Plan "${plan.destination}" scored ${plan.grounding.score}:`, plan.grounding.reasons.join('; '));
+    }
+  }
+
+  const grounded = checked.filter(plan => plan.grounding.grounded);
+  if (mode === 'flag' || grounded.length === 0) {
+    return { plans: checked, droppedPlans: [] };
+  }
+
+  return {
+    plans: grounded,
+    droppedPlans: checked.filter(plan => !plan.grounding.grounded).map(plan => plan.destination)
+  };
+}
@@ -0,0 +1,9 @@
+/**
+ * Itinerary size limits
+ * Shared by the plan picker (use-itinerary) and /api/itinerary; kept apart from
+ * the builder, which pulls in server-only geocoding
+ */
+
+// Plans accepted per itinerary
+export const MIN_ITINERARY_PLANS = 2;
+export const MAX_ITINERARY_PLANS = 10;
@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { buildItinerary, isIsoDate, parseItineraryRequest } from './itinerary';
+import { InvalidRequestError } from './errors';
+import { makePinnedPlan, makePlan } from './test-fixtures';
+
+describe('buildItinerary', () => {
+  it('fits nearby stops into one day with walks and meals', async () => {
+    const itinerary = await buildItinerary([
+      makePinnedPlan('a', 'Pena Palace', { lat: 38.7876, lng: -9.3906 }, 3),
+      makePinnedPlan('b', 'Moorish Castle', { lat: 38.7925, lng: -9.3893 }, 2)
+    ], '2026-06-01');
+
+    expect(itinerary.days).toHaveLength(1);
+    expect(itinerary.days[0].items.map(item => [item.type, item.start, item.end])).toEqual([
+      ['visit', '09:00', '12:00'],
+      ['meal', '12:00', '13:00'],
+      ['travel', '13:00', '13:10'],
+      ['visit', '13:10', '15:10'],
+      ['meal', '18:30', '19:30']
+    ]);
+    expect(itinerary.days[0].items[2].travel?.mode).toBe('walk');
+    expect(itinerary.totalTravelMinutes).toBe(10);
+    expect(itinerary.budget).toEqual({ estimated: 160, currency: 'EUR' });
+  });
+
+  it('orders stops by geography and splits days', async () => {
+    const itinerary = await buildItinerary([
+      makePinnedPlan('porto', 'Porto', { lat: 41.1579, lng: -8.6291 }, 6),
+      makePinnedPlan('lisbon', 'Lisbon', { lat: 38.7223, lng: -9.1393 }, 6),
+      makePinnedPlan('coimbra', 'Coimbra', { lat: 40.2033, lng: -8.4103 }, 6)
+    ], '2026-06-01');
+
+    expect(itinerary.planIds).toEqual(['lisbon', 'coimbra', 'porto']);
+    expect(itinerary.days.map(day => day.date)).toEqual(['2026-06-01', '2026-06-02', '2026-06-03']);
+    expect(itinerary.days[1].items[0]).toMatchObject({ type: 'travel', title: 'Drive to Coimbra', start: '09:00' });
+  });
+
+  it('carries a leg past midnight over to the next day', async () => {
+    const itinerary = await buildItinerary([
+      makePinnedPlan('lisbon', 'Lisbon', { lat: 38.7223, lng: -9.1393 }),
+      makePinnedPlan('tokyo', 'Tokyo', { lat: 35.6762, lng: 139.6503 })
+    ], '2026-06-01');
+
+    const times = itinerary.days.map(day => day.items.map(item => [item.type, item.start, item.end]));
+    expect(itinerary.days.map(day => day.date)).toEqual(['2026-06-01', '2026-06-02', '2026-06-03']);
+    // The flight fills the second day up to midnight, with meals taken on board
+    expect(times[1]).toEqual([['travel', '09:00', '00:00']]);
+    expect(itinerary.days[1].items[0].note).toBe('Overnight, continues the next day. Have lunch on the way. Have dinner on the way');
+    // It lands in the night, and the visit waits for the morning
+    expect(times[2][0]).toEqual(['travel', '00:00', expect.stringMatching(/^0[0-8]:\d\d$/)]);
+    expect(times[2][1]).toEqual(['visit', '09:00', '12:00']);
+    expect(times.flat().every(([, start, end]) => start! <= end! || end === '00:00')).toBe(true);
+  });
+
+  it('leaves the budget out when plans use different currencies', async () => {
+    const itinerary = await buildItinerary([
+      makePinnedPlan('a', 'Pena Palace', { lat: 38.7876, lng: -9.3906 }),
+      { ...makePinnedPlan('b', 'Moorish Castle', { lat: 38.7925, lng: -9.3893 }), budget: { estimated: 20, currency: 'USD', breakdown: {} } }
+    ], '2026-06-01');
+
+    expect(itinerary.budget).toBeUndefined();
+  });
+});
+
+describe('parseItineraryRequest', () => {
+  const plans = [makePlan({ id: 'a' }), makePlan({ id: 'b' })];
+
+  it('accepts 2-10 plans and an optional start date', () => {
+    expect(parseItineraryRequest({ plans })).toEqual({ plans, startDate: undefined });
+    expect(parseItineraryRequest({ plans, startDate: '2026-06-01' }).startDate).toBe('2026-06-01');
+  });
+
+  it('keeps valid map pins and drops broken ones', () => {
+    const pinned = makePinnedPlan('a', 'Pena Palace', { lat: 38.7876, lng: -9.3906 });
+    const broken = { ...makePlan({ id: 'b' }), location: { coordinates: { lat: 200, lng: 0 }, source: 'attraction' } };
+
+    const parsed = parseItineraryRequest({ plans: [pinned, broken] }).plans;
+    expect(parsed[0].location).toEqual(pinned.location);
+    expect(parsed[1].location).toBeUndefined();
+  });
+
+  it('rejects too few or too many plans, duplicate ids and bad dates', () => {
+    const invalid = (value: unknown) => () => parseItineraryRequest(value);
+
+    expect(invalid(null)).toThrow(InvalidRequestError);
+    expect(invalid({ plans: plans.slice(0, 1) })).toThrow(InvalidRequestError);
+    expect(invalid({ plans: Array.from({ length: 11 }, (_, i) => makePlan({ id: `p${i}` })) })).toThrow(InvalidRequestError);
+    expect(invalid({ plans: [plans[0], plans[0]] })).toThrow(InvalidRequestError);
+    expect(invalid({ plans: [plans[0], makePlan({ id: '' })] })).toThrow(InvalidRequestError);
+    expect(invalid({ plans, startDate: '2026-02-30' })).toThrow(InvalidRequestError);
+  });
+
+  it('checks every plan against the travel plan schema', () => {
+    expect(() => parseItineraryRequest({ plans: [plans[0], { id: 'c', destination: ' ' }] }))
+      .toThrow(/plans\[1\]\.destination/);
+    expect(() => parseItineraryRequest({ plans: [plans[0], { ...makePlan({ id: 'c' }), budget: 'cheap' }] }))
+      .toThrow(InvalidRequestError);
+  });
+});
+
+describe('isIsoDate', () => {
+  it('only accepts real calendar dates', () => {
+    expect(isIsoDate('2028-02-29')).toBe(true);
+    expect(isIsoDate('2026-02-29')).toBe(false);
+    expect(isIsoDate('2026-6-1')).toBe(false);
+    expect(isIsoDate(20260601)).toBe(false);
+  });
+});
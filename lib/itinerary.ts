@@ -0,0 +1,351 @@
+import { Itinerary, ItineraryDay, ItineraryItem, ItineraryRequest, LocationCoordinates, PlanLocation, TravelMode, TravelPlan } from './types';
+import { distanceMeters } from './geo-utils';
+import { isValidCoordinates } from './geodata';
+import { locatePlan } from './plan-locations';
+import { parseTravelPlan } from './travel-plan-schema';
+import { InvalidRequestError, SchemaValidationError } from './errors';
+import { MAX_ITINERARY_PLANS, MIN_ITINERARY_PLANS } from './itinerary-limits';
+
+/**
+ * Multi-day itinerary builder for /api/itinerary
+ * Orders selected plans by geography, then lays them out day by day: visit
+ * lengths come from duration.hours, travel legs are estimated from the distance
+ * between stops, and lunch and dinner breaks are added around the visits.
+ */
+
+// Error message for a request with the wrong number of plans or a bad start date
+export const INVALID_ITINERARY_MESSAGE = `plans must be ${MIN_ITINERARY_PLANS}-${MAX_ITINERARY_PLANS} travel plans with distinct ids; startDate, if given, must be YYYY-MM-DD`;
+
+// Day layout (minutes after midnight)
+const DAY_START = 9 * 60;
+const DAY_END = 19 * 60; // A stop that would run past this moves to the next day
+const LUNCH_EARLIEST = 11 * 60 + 30;
+const LUNCH_LATEST = 14 * 60 + 30; // Latest lunch start
+const DINNER_EARLIEST = 18 * 60 + 30;
+const MEAL_MINUTES = 60;
+const MIDNIGHT = 24 * 60; // A travel leg running past this carries on the next day
+
+// Visit length for plans without hours (multi-night or legacy plans), and the longest visit
+const DEFAULT_VISIT_HOURS = 3;
+const MAX_VISIT_HOURS = 10;
+
+// Travel estimates from the straight-line distance: mode thresholds (km), the
+// extra length of roads, average speeds (km/h) and fixed overheads (minutes)
+const WALK_MAX_KM = 1.5;
+const FLIGHT_MIN_KM = 600;
+const ROAD_FACTOR = 1.25;
+const SPEED_KMH: Record<TravelMode, number> = { walk: 4.5, drive: 75, flight: 750 };
+const OVERHEAD_MINUTES: Record<TravelMode, number> = { walk: 0, drive: 15, flight: 180 };
+
+// Travel item titles
+const TRAVEL_VERBS: Record<TravelMode, string> = { walk: 'Walk', drive: 'Drive', flight: 'Fly' };
+
+// A plan and where it is (null when it couldn't be located)
+interface Stop {
+  plan: TravelPlan;
+  coordinates: LocationCoordinates | null;
+}
+
+interface TravelLeg {
+  mode: TravelMode;
+  distanceKm: number;
+  minutes: number;
+}
+
+/**
+ * "HH:MM" for minutes after midnight (wraps past midnight)
+ */
+function formatTime(minutes: number): string {
+  const wrapped = ((Math.round(minutes) % (24 * 60)) + 24 * 60) % (24 * 60);
+  return `${String(Math.floor(wrapped / 60)).padStart(2, '0')}:${String(wrapped % 60).padStart(2, '0')}`;
+}
+
+/**
+ * YYYY-MM-DD a number of days after a YYYY-MM-DD date
+ */
+function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
+
+/**
+ * Whether a string is a real YYYY-MM-DD date
+ */
+export function isIsoDate(value: unknown): value is string {
+  return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value) &&
+    !Number.isNaN(Date.parse(`${value}T00:00:00Z`)) &&
+    new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+}
+
+/**
+ * Estimate a leg between two stops, rounded up to 5 minutes
+ */
+function estimateTravel(from: LocationCoordinates, to: LocationCoordinates): TravelLeg {
+  const distanceKm = distanceMeters(from, to) / 1000;
+  const mode: TravelMode = distanceKm <= WALK_MAX_KM ? 'walk' : distanceKm >= FLIGHT_MIN_KM ? 'flight' : 'drive';
+  const travelKm = mode === 'flight' ? distanceKm : distanceKm * ROAD_FACTOR;
+  const minutes = OVERHEAD_MINUTES[mode] + (travelKm / SPEED_KMH[mode]) * 60;
+
+  return {
+    mode,
+    distanceKm: Math.round(distanceKm * 10) / 10,
+    minutes: Math.max(5, Math.ceil(minutes / 5) * 5)
+  };
+}
+
+/**
+ * Time to spend at a plan's destination (minutes)
+ */
+function visitMinutes(plan: TravelPlan): number {
+  const hours = plan.duration?.hours;
+  const valid = typeof hours === 'number' && Number.isFinite(hours) && hours > 0;
+  return Math.round(Math.min(MAX_VISIT_HOURS, valid ? hours : DEFAULT_VISIT_HOURS) * 60);
+}
+
+/**
+ * Order stops so each one is followed by the nearest unvisited stop, starting
+ * from the one farthest from the middle of the group (an end of the trip)
+ * Stops that couldn't be located go last, in their original order
+ */
+function orderByGeography(stops: Stop[]): Stop[] {
+  const located = stops.filter((stop): stop is Stop & { coordinates: LocationCoordinates } => stop.coordinates !== null);
+  const unlocated = stops.filter(stop => stop.coordinates === null);
+
+  if (located.length === 0) {
+    return unlocated;
+  }
+
+  const center = {
+    lat: located.reduce((sum, stop) => sum + stop.coordinates.lat, 0) / located.length,
+    lng: located.reduce((sum, stop) => sum + stop.coordinates.lng, 0) / located.length
+  };
+
+  const remaining = [...located];
+  const farthestIndex = remaining.reduce((best, stop, index) =>
+    distanceMeters(center, stop.coordinates) > distanceMeters(center, remaining[best].coordinates) ? index : best, 0);
+  const ordered = remaining.splice(farthestIndex, 1);
+
+  while (remaining.length > 0) {
+    const last = ordered[ordered.length - 1].coordinates;
+    const nearestIndex = remaining.reduce((best, stop, index) =>
+      distanceMeters(last, stop.coordinates) < distanceMeters(last, remaining[best].coordinates) ? index : best, 0);
+    ordered.push(...remaining.splice(nearestIndex, 1));
+  }
+
+  return [...ordered, ...unlocated];
+}
+
+/**
+ * Lay ordered stops out over as many days as they need
+ */
+function schedule(stops: Stop[], startDate: string): { days: ItineraryDay[]; totalTravelMinutes: number } {
+  const days: ItineraryDay[] = [];
+  let day: ItineraryDay = { day: 1, date: startDate, items: [] };
+  let time = DAY_START;
+  let hadLunch = false;
+  let visitsToday = 0;
+  let totalTravelMinutes = 0;
+  let previous: Stop | null = null;
+
+  const add = (item: Omit<ItineraryItem, 'start' | 'end'>, minutes: number): ItineraryItem => {
+    const entry = { ...item, start: formatTime(time), end: formatTime(time + minutes) };
+    day.items.push(entry);
+    time += minutes;
+    return entry;
+  };
+
+  const tryLunch = () => {
+    if (!hadLunch && time >= LUNCH_EARLIEST && time <= LUNCH_LATEST) {
+      add({ type: 'meal', title: 'Lunch' }, MEAL_MINUTES);
+      hadLunch = true;
+    }
+  };
+
+  // A long item across midday leaves no gap for a lunch break
+  const lunchDuring = (item: ItineraryItem, startedAt: number, note: string) => {
+    if (!hadLunch && startedAt < LUNCH_EARLIEST && time > LUNCH_LATEST) {
+      item.note = item.note ? `${item.note}. ${note}` : note;
+      hadLunch = true;
+    }
+  };
+
+  const closeDay = () => {
+    // A day done by late morning still gets its lunch
+    if (!hadLunch && time < LUNCH_EARLIEST) {
+      time = LUNCH_EARLIEST;
+      tryLunch();
+    }
+    // A day that ends on the road too late for a dinner stop has it on the way
+    const last = day.items[day.items.length - 1];
+    if (time + MEAL_MINUTES > MIDNIGHT && last) {
+      last.note = last.note ? `${last.note}. Have dinner on the way` : 'Have dinner on the way';
+    } else {
+      time = Math.max(time, DINNER_EARLIEST);
+      add({ type: 'meal', title: 'Dinner' }, MEAL_MINUTES);
+    }
+    days.push(day);
+  };
+
+  const startNextDay = (startAt: number = DAY_START) => {
+    closeDay();
+    day = { day: days.length + 1, date: addDays(startDate, days.length), items: [] };
+    time = startAt;
+    hadLunch = false;
+    visitsToday = 0;
+  };
+
+  for (const stop of stops) {
+    const leg = previous?.coordinates && stop.coordinates
+      ? estimateTravel(previous.coordinates, stop.coordinates)
+      : null;
+    const visit = visitMinutes(stop.plan);
+
+    // Keep at least one visit per day, however long it is
+    if (visitsToday > 0 && time + (leg?.minutes ?? 0) + visit > DAY_END) {
+      startNextDay();
+    }
+
+    if (leg) {
+      tryLunch();
+      const travel = {
+        type: 'travel' as const,
+        title: `${TRAVEL_VERBS[leg.mode]} to ${stop.plan.destination}`,
+        travel: { mode: leg.mode, distanceKm: leg.distanceKm }
+      };
+      let remaining = leg.minutes;
+
+      // A leg past midnight runs until then and carries on from midnight the next day
+      while (time + remaining > MIDNIGHT) {
+        const travelStart = time;
+        const part = MIDNIGHT - time;
+        const overnightItem = add({ ...travel, note: 'Overnight, continues the next day' }, part);
+        lunchDuring(overnightItem, travelStart, 'Have lunch on the way');
+        remaining -= part;
+        startNextDay(0);
+      }
+
+      const travelStart = time;
+      const travelItem = add(travel, remaining);
+      lunchDuring(travelItem, travelStart, 'Have lunch on the way');
+      totalTravelMinutes += leg.minutes;
+
+      // Arriving in the night, the visit waits for the morning
+      time = Math.max(time, DAY_START);
+
+      // A long leg gets a day to itself; the visit starts fresh the next morning
+      if (time + visit > DAY_END) {
+        startNextDay();
+      }
+    }
+
+    tryLunch();
+    const visitStart = time;
+    const visitItem = add({
+      type: 'visit',
+      title: stop.plan.destination,
+      planId: stop.plan.id,
+      ...(previous && !leg && { note: 'Travel time from the previous stop is unknown (location not found)' })
+    }, visit);
+    visitsToday++;
+    lunchDuring(visitItem, visitStart, 'Have lunch on site');
+    tryLunch();
+
+    previous = stop;
+  }
+
+  closeDay();
+
+  return { days, totalTravelMinutes };
+}
+
+/**
+ * First day of the itinerary: the earliest plan start date that isn't in the past, else today
+ */
+function defaultStartDate(plans: TravelPlan[]): string {
+  const today = new Date().toISOString().slice(0, 10);
+  const planDates = plans
+    .map(plan => plan.duration?.startDate)
+    .filter((date): date is string => isIsoDate(date) && date >= today)
+    .sort();
+  return planDates[0] || today;
+}
+
+/**
+ * Build a day-by-day itinerary from selected plans
+ * Plans are located one after another (pins are used as-is; others are geocoded),
+ * to go easy on Nominatim's rate limit
+ */
+export async function buildItinerary(plans: TravelPlan[], startDate?: string): Promise<Itinerary> {
+  const stops: Stop[] = [];
+  for (const plan of plans) {
+    stops.push({ plan, coordinates: await locatePlan(plan) });
+  }
+
+  const ordered = orderByGeography(stops);
+  const { days, totalTravelMinutes } = schedule(ordered, startDate || defaultStartDate(plans));
+
+  const currencies = new Set(plans.map(plan => plan.budget?.currency));
+  const [currency] = Array.from(currencies);
+  const budget = currencies.size === 1 && typeof currency === 'string'
+    ? {
+        estimated: plans.reduce((sum, plan) => sum + (Number(plan.budget?.estimated) || 0), 0),
+        currency
+      }
+    : undefined;
+
+  return {
+    days,
+    planIds: ordered.map(stop => stop.plan.id),
+    totalTravelMinutes,
+    budget,
+    unlocatedPlans: ordered.filter(stop => stop.coordinates === null).map(stop => stop.plan.destination)
+  };
+}
+
+/**
+ * A plan's map pin, if it sent a usable one
+ */
+function parsePlanLocation(value: unknown): PlanLocation | undefined {
+  if (!value || typeof value !== 'object') {
+    return undefined;
+  }
+
+  const { coordinates, source } = value as Partial<PlanLocation>;
+  return coordinates && isValidCoordinates(coordinates) && (source === 'attraction' || source === 'geocoded')
+    ? { coordinates: { lat: coordinates.lat, lng: coordinates.lng }, source }
+    : undefined;
+}
+
+/**
+ * Validate an itinerary request: 2-10 plans with distinct ids, each checked against
+ * the travel plan schema (keeping a valid map pin), and an optional YYYY-MM-DD startDate
+ * @throws InvalidRequestError describing what is wrong
+ */
+export function parseItineraryRequest(value: unknown): ItineraryRequest {
+  if (!value || typeof value !== 'object') {
+    throw new InvalidRequestError(INVALID_ITINERARY_MESSAGE);
+  }
+
+  const { plans, startDate } = value as Partial<ItineraryRequest>;
+  if (!Array.isArray(plans) || plans.length < MIN_ITINERARY_PLANS || plans.length > MAX_ITINERARY_PLANS ||
+    (startDate !== undefined && !isIsoDate(startDate))) {
+    throw new InvalidRequestError(INVALID_ITINERARY_MESSAGE);
+  }
+
+  const parsed = plans.map((plan: unknown, index) => {
+    try {
+      const location = parsePlanLocation((plan as Partial<TravelPlan>).location);
+      return { ...parseTravelPlan(plan, `plans[${index}]`).value, ...(location && { location }) };
+    } catch (error) {
+      throw error instanceof SchemaValidationError ? new InvalidRequestError(error.message) : error;
+    }
+  });
+
+  const ids = new Set(parsed.map(plan => plan.id));
+  if (parsed.some(plan => !plan.id) || ids.size !== parsed.length) {
+    throw new InvalidRequestError(INVALID_ITINERARY_MESSAGE);
+  }
+
+  return { plans: parsed, startDate };
+}
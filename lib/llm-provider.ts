@@ -0,0 +1,93 @@
+import { Message, TokenUsage } from './types';
+import { OpenRouterClient } from './openrouter';
+import { OpenAICompatibleClient } from './openai-compatible';
+import { MockProvider } from './mock-provider';
+
+/**
+ * LLM provider abstraction
+ * Lets the API routes talk to OpenRouter, any OpenAI-compatible server
+ * (llama.cpp, Ollama, vLLM...) or a deterministic mock for offline work
+ */
+
+// Configuration interface for chat options
+export interface ChatOptions {
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  responseFormat?: 'json' | 'text';
+  timeoutMs?: number; // Overrides the provider's default timeout for this call
+  signal?: AbortSignal; // Cancels the request, e.g. when the client disconnects
+  attempts?: AttemptBudget; // Shared request budget; each provider retry takes one request from it
+}
+
+// Requests left for one call through a model fallback chain, shared by every model,
+// repair round and provider retry (see lib/model-fallback.ts)
+export interface AttemptBudget {
+  remaining: number;
+}
+
+// Response structure returned by every provider
+export interface ChatResponse {
+  content: string;
+  model: string; // Model that actually produced the response
+  usage: TokenUsage;
+}
+
+// Incremental event emitted while a streamed completion is generated
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; model: string; usage: ChatResponse['usage'] };
+
+// Contract every LLM backend implements
+export interface LLMProvider {
+  readonly name: string;
+  chat(messages: Message[], options?: ChatOptions): Promise<ChatResponse>;
+  chatStream(messages: Message[], options?: ChatOptions): AsyncGenerator<ChatStreamEvent>;
+}
+
+export type LLMProviderType = 'openrouter' | 'openai-compatible' | 'mock';
+
+/**
+ * Create a provider from environment configuration
+ *
+ * LLM_PROVIDER selects the backend (defaults to openrouter):
+ * - openrouter: uses OPENROUTER_API_KEY / OPENROUTER_MODEL
+ * - openai-compatible: uses LLM_BASE_URL, LLM_MODEL and optional LLM_API_KEY
+ * - mock: deterministic canned responses, no network access
+ */
+export function createLLMProvider(type?: string): LLMProvider {
+  const providerType = (type || process.env.LLM_PROVIDER || 'openrouter').toLowerCase();
+
+  switch (providerType) {
+    case 'openrouter':
+      return new OpenRouterClient();
+    case 'openai-compatible':
+      if (!process.env.LLM_BASE_URL) {
+        throw new Error('LLM_BASE_URL is required when LLM_PROVIDER=openai-compatible.');
+      }
+      return new OpenAICompatibleClient({
+        name: 'OpenAI-compatible',
+        baseUrl: process.env.LLM_BASE_URL,
+        apiKey: process.env.LLM_API_KEY,
+        apiKeyEnvVar: 'LLM_API_KEY',
+        defaultModel: process.env.LLM_MODEL || 'default'
+      });
+    case 'mock':
+      return new MockProvider();
+    default:
+      throw new Error(`Unknown LLM_PROVIDER "${providerType}". Use openrouter, openai-compatible or mock.`);
+  }
+}
+
+let cachedProvider: LLMProvider | null = null;
+
+/**
+ * Get the configured provider, creating it on first use
+ * Created lazily so a missing API key only fails the request that needs it
+ */
+export function getLLMProvider(): LLMProvider {
+  if (!cachedProvider) {
+    cachedProvider = createLLMProvider();
+  }
+  return cachedProvider;
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { areaCenter, areaKey, areaRadiusKm, isInArea, parseMapArea, rectangleArea } from './map-area';
+
+describe('rectangleArea', () => {
+  it('builds the four corners from two opposite ones', () => {
+    const area = rectangleArea({ lat: 48.9, lng: 2.2 }, { lat: 48.8, lng: 2.4 });
+
+    expect(area.points).toEqual([
+      { lat: 48.9, lng: 2.2 },
+      { lat: 48.9, lng: 2.4 },
+      { lat: 48.8, lng: 2.4 },
+      { lat: 48.8, lng: 2.2 }
+    ]);
+    expect(areaCenter(area).lat).toBeCloseTo(48.85);
+    expect(areaCenter(area).lng).toBeCloseTo(2.3);
+  });
+});
+
+describe('isInArea', () => {
+  // An L-shaped polygon: the notch at the top right is outside
+  const area = parseMapArea({
+    shape: 'polygon',
+    points: [
+      { lat: 0, lng: 0 },
+      { lat: 0.2, lng: 0 },
+      { lat: 0.2, lng: 0.1 },
+      { lat: 0.1, lng: 0.1 },
+      { lat: 0.1, lng: 0.2 },
+      { lat: 0, lng: 0.2 }
+    ]
+  })!;
+
+  it('finds points inside a concave polygon', () => {
+    expect(isInArea({ lat: 0.05, lng: 0.15 }, area)).toBe(true);
+    expect(isInArea({ lat: 0.15, lng: 0.05 }, area)).toBe(true);
+    expect(isInArea({ lat: 0.15, lng: 0.15 }, area)).toBe(false);
+    expect(isInArea({ lat: -0.01, lng: 0.05 }, area)).toBe(false);
+  });
+});
+
+describe('parseMapArea', () => {
+  const square = rectangleArea({ lat: 10, lng: 10 }, { lat: 10.1, lng: 10.1 });
+
+  it('accepts a rectangle and copies only coordinates', () => {
+    const area = parseMapArea({ ...square, points: square.points.map(point => ({ ...point, extra: true })) });
+
+    expect(area).toEqual(square);
+    expect(areaRadiusKm(square)).toBeGreaterThan(7);
+  });
+
+  it('rejects bad shapes, point counts and coordinates', () => {
+    expect(parseMapArea(null)).toBeNull();
+    expect(parseMapArea({ shape: 'circle', points: square.points })).toBeNull();
+    expect(parseMapArea({ shape: 'rectangle', points: square.points.slice(0, 3) })).toBeNull();
+    expect(parseMapArea({ shape: 'polygon', points: square.points.slice(0, 2) })).toBeNull();
+    expect(parseMapArea({ shape: 'polygon', points: [...square.points.slice(0, 2), { lat: 91, lng: 0 }] })).toBeNull();
+  });
+
+  it('rejects areas reaching more than 100 km from their center', () => {
+    expect(parseMapArea(rectangleArea({ lat: 10, lng: 10 }, { lat: 12, lng: 12 }))).toBeNull();
+  });
+});
+
+describe('areaKey', () => {
+  it('rounds coordinates so tiny differences share a key', () => {
+    const a = rectangleArea({ lat: 10.00001, lng: 10 }, { lat: 10.1, lng: 10.1 });
+    const b = rectangleArea({ lat: 10.00002, lng: 10 }, { lat: 10.1, lng: 10.1 });
+
+    expect(areaKey(a)).toBe(areaKey(b));
+    expect(areaKey(a)).toMatch(/^rectangle:10\.0000,10\.0000;/);
+  });
+});
@@ -0,0 +1,125 @@
+import { LocationCoordinates, MapArea } from './types';
+import { distanceMeters } from './geo-utils';
+
+/**
+ * Drawn search areas for map mode (a rectangle or a polygon instead of a single click)
+ * Shared by the map UI, /api/geo/context, the place lookup and /api/map-recommendations
+ */
+
+// Vertex limits for a drawn polygon
+export const MIN_POLYGON_POINTS = 3;
+const MAX_POLYGON_POINTS = 50;
+
+// Largest distance from the area's center to a vertex (km), matching the largest search radius
+const MAX_AREA_RADIUS_KM = 100;
+
+// Error message for an area that fails parseMapArea
+export const INVALID_AREA_MESSAGE = `area must be a rectangle (4 corners) or a polygon of ${MIN_POLYGON_POINTS}-${MAX_POLYGON_POINTS} points, reaching at most ${MAX_AREA_RADIUS_KM} km from its center`;
+
+/**
+ * Rectangle between two opposite corners, as its four corners
+ */
+export function rectangleArea(a: LocationCoordinates, b: LocationCoordinates): MapArea {
+  return {
+    shape: 'rectangle',
+    points: [
+      { lat: a.lat, lng: a.lng },
+      { lat: a.lat, lng: b.lng },
+      { lat: b.lat, lng: b.lng },
+      { lat: b.lat, lng: a.lng }
+    ]
+  };
+}
+
+/**
+ * Center of the area's bounding box
+ */
+export function areaCenter(area: MapArea): LocationCoordinates {
+  const lats = area.points.map(point => point.lat);
+  const lngs = area.points.map(point => point.lng);
+  return {
+    lat: (Math.min(...lats) + Math.max(...lats)) / 2,
+    lng: (Math.min(...lngs) + Math.max(...lngs)) / 2
+  };
+}
+
+/**
+ * Distance from the area's center to its farthest vertex (km), i.e. the radius
+ * of the smallest circle around the center that covers the whole area
+ */
+export function areaRadiusKm(area: MapArea): number {
+  const center = areaCenter(area);
+  return Math.max(...area.points.map(point => distanceMeters(center, point))) / 1000;
+}
+
+/**
+ * Approximate width and height of the area's bounding box (km)
+ */
+export function areaSizeKm(area: MapArea): { width: number; height: number } {
+  const lats = area.points.map(point => point.lat);
+  const lngs = area.points.map(point => point.lng);
+  const center = areaCenter(area);
+  return {
+    width: distanceMeters({ lat: center.lat, lng: Math.min(...lngs) }, { lat: center.lat, lng: Math.max(...lngs) }) / 1000,
+    height: distanceMeters({ lat: Math.min(...lats), lng: center.lng }, { lat: Math.max(...lats), lng: center.lng }) / 1000
+  };
+}
+
+/**
+ * Whether a point lies inside the area (ray casting on plain lat/lng, fine at these sizes)
+ */
+export function isInArea(point: LocationCoordinates, area: MapArea): boolean {
+  let inside = false;
+  const points = area.points;
+
+  for (let i = 0, j = points.length - 1; i < points.length; j = i++) {
+    const a = points[i];
+    const b = points[j];
+    if ((a.lat > point.lat) !== (b.lat > point.lat) &&
+        point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng) {
+      inside = !inside;
+    }
+  }
+
+  return inside;
+}
+
+/**
+ * Validate an area from a request
+ * Returns null unless it is a rectangle (4 corners) or a polygon (3-50 vertices)
+ * of valid coordinates no more than 100 km from its center
+ */
+export function parseMapArea(value: unknown): MapArea | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { shape, points } = value as Partial<MapArea>;
+  if ((shape !== 'rectangle' && shape !== 'polygon') || !Array.isArray(points)) {
+    return null;
+  }
+
+  const valid = points.every(point =>
+    point && typeof point === 'object' &&
+    Number.isFinite(point.lat) && Number.isFinite(point.lng) &&
+    Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180
+  );
+  const count = points.length;
+  const countOk = shape === 'rectangle'
+    ? count === 4
+    : count >= MIN_POLYGON_POINTS && count <= MAX_POLYGON_POINTS;
+
+  if (!valid || !countOk) {
+    return null;
+  }
+
+  const area: MapArea = { shape, points: points.map(point => ({ lat: point.lat, lng: point.lng })) };
+  return areaRadiusKm(area) <= MAX_AREA_RADIUS_KM ? area : null;
+}
+
+/**
+ * Stable string for an area, used in cache keys
+ */
+export function areaKey(area: MapArea): string {
+  return `${area.shape}:${area.points.map(point => `${point.lat.toFixed(4)},${point.lng.toFixed(4)}`).join(';')}`;
+}
@@ -0,0 +1,71 @@
+import { MapInterest, MapSearchFilters, PlaceCategory } from './types';
+
+/**
+ * Search radius and interest filters for map mode
+ * Shared by the map UI, /api/geo/context, the place sources and /api/map-recommendations
+ */
+
+// Radius choices offered in the UI (km)
+export const RADIUS_OPTIONS_KM = [5, 10, 25, 50, 100];
+
+// Accepted radius range (km)
+const MIN_RADIUS_KM = 1;
+const MAX_RADIUS_KM = 100;
+
+export const DEFAULT_MAP_FILTERS: MapSearchFilters = {
+  radiusKm: 50,
+  interests: []
+};
+
+// Interests in display order
+export const MAP_INTERESTS: { id: MapInterest; label: string; icon: string }[] = [
+  { id: 'museums', label: 'Museums', icon: '🏛️' },
+  { id: 'nature', label: 'Nature', icon: '🌳' },
+  { id: 'food', label: 'Food', icon: '🍜' },
+  { id: 'nightlife', label: 'Nightlife', icon: '🍸' },
+  { id: 'family', label: 'Family', icon: '🎡' }
+];
+
+// Place categories that satisfy each interest
+export const INTEREST_CATEGORIES: Record<MapInterest, PlaceCategory[]> = {
+  museums: ['museum', 'culture'],
+  nature: ['nature', 'viewpoint'],
+  food: ['food'],
+  nightlife: ['nightlife'],
+  family: ['entertainment']
+};
+
+/**
+ * Validate filters from a request, falling back to the defaults
+ * Accepts the query-string form (radius "25", interests "museums,food") or arrays
+ */
+export function parseMapFilters(radius: unknown, interests: unknown): MapSearchFilters {
+  const radiusNumber = typeof radius === 'number' ? radius : parseFloat(String(radius ?? ''));
+  const radiusKm = Number.isFinite(radiusNumber)
+    ? Math.min(MAX_RADIUS_KM, Math.max(MIN_RADIUS_KM, Math.round(radiusNumber)))
+    : DEFAULT_MAP_FILTERS.radiusKm;
+
+  const list = Array.isArray(interests)
+    ? interests
+    : typeof interests === 'string' ? interests.split(',') : [];
+  const known = MAP_INTERESTS.map(interest => interest.id);
+
+  return {
+    radiusKm,
+    interests: known.filter(id => list.some(item => typeof item === 'string' && item.trim() === id))
+  };
+}
+
+/**
+ * Stable string for filters, used in cache keys
+ */
+export function filtersKey(filters: MapSearchFilters): string {
+  return `${filters.radiusKm}km${filters.interests.length > 0 ? `-${[...filters.interests].sort().join('+')}` : ''}`;
+}
+
+/**
+ * Place categories the filters ask for (empty = any)
+ */
+export function wantedCategories(filters: MapSearchFilters): PlaceCategory[] {
+  return Array.from(new Set(filters.interests.flatMap(interest => INTEREST_CATEGORIES[interest])));
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { locateOnRoute, orderRouteStops, parseRouteEnds, routeKey, routeMidpoint, sampleRoute } from './map-route';
+import { makePinnedPlan, makePlan } from './test-fixtures';
+import { MapRoute } from './types';
+
+// About 111 km due north along a meridian, with a bend in the middle
+const points = [
+  { lat: 0, lng: 0 },
+  { lat: 0.5, lng: 0 },
+  { lat: 1, lng: 0 }
+];
+
+describe('locateOnRoute', () => {
+  it('measures distance along and off the route', () => {
+    const { routeKm, offsetKm } = locateOnRoute({ lat: 0.25, lng: 0.05 }, points);
+
+    expect(routeKm).toBeCloseTo(27.8, 0);
+    expect(offsetKm).toBeCloseTo(5.6, 0);
+  });
+
+  it('clamps points beyond the ends to the nearest end', () => {
+    const { routeKm, offsetKm } = locateOnRoute({ lat: 1.1, lng: 0 }, points);
+
+    expect(routeKm).toBeCloseTo(111.2, 0);
+    expect(offsetKm).toBeCloseTo(11.1, 0);
+  });
+});
+
+describe('sampleRoute', () => {
+  it('spaces samples evenly and skips the ends', () => {
+    const samples = sampleRoute(points, 10);
+
+    expect(samples).toHaveLength(7);
+    expect(samples[0].lat).toBeCloseTo(1 / 14);
+    expect(samples[6].lat).toBeCloseTo(13 / 14);
+  });
+
+  it('caps the number of samples on long routes', () => {
+    expect(sampleRoute([{ lat: 0, lng: 0 }, { lat: 5, lng: 0 }], 10)).toHaveLength(8);
+  });
+});
+
+describe('orderRouteStops', () => {
+  it('orders pinned stops along the route and puts the rest last', () => {
+    const route: MapRoute = {
+      origin: points[0],
+      destination: points[2],
+      originName: 'A',
+      destinationName: 'B',
+      points,
+      distanceKm: 111,
+      durationMinutes: 90,
+      corridorKm: 10
+    };
+    const plans = [
+      makePinnedPlan('far', 'Far', { lat: 0.9, lng: 0 }),
+      makePlan({ id: 'unpinned' }),
+      makePinnedPlan('near', 'Near', { lat: 0.1, lng: 0.05 })
+    ];
+
+    const ordered = orderRouteStops(plans, route);
+
+    expect(ordered.map(plan => plan.id)).toEqual(['near', 'far', 'unpinned']);
+    expect(ordered[0].routeStop).toEqual({ order: 1, routeKm: 11, detourKm: 11.1 });
+    expect(ordered[2].routeStop).toBeUndefined();
+  });
+});
+
+describe('parseRouteEnds', () => {
+  it('accepts ends a sensible distance apart', () => {
+    const ends = parseRouteEnds({ origin: { lat: 0, lng: 0, name: 'x' }, destination: { lat: 1, lng: 0 } });
+
+    expect(ends).toEqual({ origin: { lat: 0, lng: 0 }, destination: { lat: 1, lng: 0 } });
+    expect(routeMidpoint(ends!)).toEqual({ lat: 0.5, lng: 0 });
+    expect(routeKey(ends!)).toBe('0.0000,0.0000>1.0000,0.0000');
+  });
+
+  it('rejects missing, invalid, too close and too distant ends', () => {
+    expect(parseRouteEnds({ origin: { lat: 0, lng: 0 } })).toBeNull();
+    expect(parseRouteEnds({ origin: { lat: 0, lng: 0 }, destination: { lat: '1', lng: 0 } })).toBeNull();
+    expect(parseRouteEnds({ origin: { lat: 0, lng: 0 }, destination: { lat: 0.001, lng: 0 } })).toBeNull();
+    expect(parseRouteEnds({ origin: { lat: 0, lng: 0 }, destination: { lat: 20, lng: 0 } })).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { LocationCoordinates, MapRoute, RouteEnds, TravelPlan } from './types';
+import { distanceMeters } from './geo-utils';
+
+/**
+ * Route mode: stops along a drive between two map points
+ * Geometry helpers shared by the route lookup (lib/geodata.ts), the place lookup
+ * along the route and /api/map-recommendations
+ */
+
+// How far off the route attractions are searched (km)
+export const ROUTE_CORRIDOR_KM = 10;
+
+// Most points along the route to search around (each one queries every place source)
+const MAX_ROUTE_SAMPLES = 8;
+
+// Straight-line limits between origin and destination (km)
+const MIN_ROUTE_KM = 2;
+const MAX_ROUTE_KM = 1000;
+
+// Error message for route ends that fail parseRouteEnds
+export const INVALID_ROUTE_MESSAGE = `route must have an origin and a destination with valid coordinates, ${MIN_ROUTE_KM}-${MAX_ROUTE_KM} km apart`;
+
+// Kilometers per degree, for the local flat projection used near a route segment
+const KM_PER_DEGREE_LAT = 110.57;
+const KM_PER_DEGREE_LNG_AT_EQUATOR = 111.32;
+
+/**
+ * Distance along the route to each of its points (km), starting at 0
+ */
+function cumulativeKm(route: LocationCoordinates[]): number[] {
+  const totals = [0];
+  for (let i = 1; i < route.length; i++) {
+    totals.push(totals[i - 1] + distanceMeters(route[i - 1], route[i]) / 1000);
+  }
+  return totals;
+}
+
+/**
+ * Where a point lies relative to the route
+ * @returns routeKm - Distance along the route to the closest point on it
+ * @returns offsetKm - Distance from the route to the point
+ */
+export function locateOnRoute(point: LocationCoordinates, route: LocationCoordinates[]): { routeKm: number; offsetKm: number } {
+  if (route.length === 1) {
+    return { routeKm: 0, offsetKm: distanceMeters(point, route[0]) / 1000 };
+  }
+
+  // Flat projection centered on the point, accurate enough within a corridor
+  const kmPerDegreeLng = KM_PER_DEGREE_LNG_AT_EQUATOR * Math.cos((point.lat * Math.PI) / 180);
+  const project = (p: LocationCoordinates) => ({
+    x: (p.lng - point.lng) * kmPerDegreeLng,
+    y: (p.lat - point.lat) * KM_PER_DEGREE_LAT
+  });
+
+  const totals = cumulativeKm(route);
+  let best = { routeKm: 0, offsetKm: Infinity };
+
+  for (let i = 1; i < route.length; i++) {
+    const a = project(route[i - 1]);
+    const b = project(route[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    // Fraction of the segment at the foot of the perpendicular from the point (the origin)
+    const t = lengthSquared > 0 ? Math.min(1, Math.max(0, -(a.x * dx + a.y * dy) / lengthSquared)) : 0;
+    const offsetKm = Math.hypot(a.x + t * dx, a.y + t * dy);
+
+    if (offsetKm < best.offsetKm) {
+      best = { routeKm: totals[i - 1] + t * (totals[i] - totals[i - 1]), offsetKm };
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Evenly spaced points along the route to search for places around
+ * Spaced about 1.5 corridors apart, at most MAX_ROUTE_SAMPLES (long routes are sampled more sparsely)
+ */
+export function sampleRoute(route: LocationCoordinates[], corridorKm: number = ROUTE_CORRIDOR_KM): LocationCoordinates[] {
+  const totals = cumulativeKm(route);
+  const totalKm = totals[totals.length - 1];
+  const count = Math.min(MAX_ROUTE_SAMPLES, Math.max(1, Math.round(totalKm / (corridorKm * 1.5))));
+  const samples: LocationCoordinates[] = [];
+
+  // Centered in equal stretches, so the origin and destination themselves aren't searched
+  let segment = 1;
+  for (let i = 0; i < count; i++) {
+    const targetKm = ((i + 0.5) * totalKm) / count;
+    while (segment < route.length - 1 && totals[segment] < targetKm) {
+      segment++;
+    }
+
+    const a = route[segment - 1] ?? route[0];
+    const b = route[segment] ?? route[0];
+    const length = totals[segment] - totals[segment - 1];
+    const t = length > 0 ? (targetKm - totals[segment - 1]) / length : 0;
+    samples.push({ lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) });
+  }
+
+  return samples;
+}
+
+/**
+ * Put route stops in driving order and note where each one is along the route
+ * Plans without a location can't be placed, so they follow the others in the model's order
+ */
+export function orderRouteStops(plans: TravelPlan[], route: MapRoute): TravelPlan[] {
+  const located = plans.map(plan => ({
+    plan,
+    position: plan.location ? locateOnRoute(plan.location.coordinates, route.points) : null
+  }));
+
+  const pinned = located
+    .filter((entry): entry is { plan: TravelPlan; position: { routeKm: number; offsetKm: number } } => entry.position !== null)
+    .sort((a, b) => a.position.routeKm - b.position.routeKm)
+    .map(({ plan, position }, index) => ({
+      ...plan,
+      routeStop: {
+        order: index + 1,
+        routeKm: Math.round(position.routeKm),
+        detourKm: Math.round(position.offsetKm * 2 * 10) / 10
+      }
+    }));
+
+  return [...pinned, ...located.filter(entry => entry.position === null).map(entry => entry.plan)];
+}
+
+/**
+ * Point halfway between the origin and destination (straight line), used as the route's cache tile
+ */
+export function routeMidpoint(ends: RouteEnds): LocationCoordinates {
+  return {
+    lat: (ends.origin.lat + ends.destination.lat) / 2,
+    lng: (ends.origin.lng + ends.destination.lng) / 2
+  };
+}
+
+/**
+ * Validate route ends from a request
+ * Returns null unless both ends are valid coordinates a sensible driving distance apart
+ */
+export function parseRouteEnds(value: unknown): RouteEnds | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const { origin, destination } = value as Partial<RouteEnds>;
+  const isPoint = (p: unknown): p is LocationCoordinates => {
+    const { lat, lng } = (p || {}) as Partial<LocationCoordinates>;
+    return typeof lat === 'number' && typeof lng === 'number' &&
+      Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+  };
+
+  if (!isPoint(origin) || !isPoint(destination)) {
+    return null;
+  }
+
+  const km = distanceMeters(origin, destination) / 1000;
+  if (km < MIN_ROUTE_KM || km > MAX_ROUTE_KM) {
+    return null;
+  }
+
+  return {
+    origin: { lat: origin.lat, lng: origin.lng },
+    destination: { lat: destination.lat, lng: destination.lng }
+  };
+}
+
+/**
+ * Stable string for route ends, used in cache keys
+ */
+export function routeKey(ends: RouteEnds): string {
+  const point = (p: LocationCoordinates) => `${p.lat.toFixed(4)},${p.lng.toFixed(4)}`;
+  return `${point(ends.origin)}>${point(ends.destination)}`;
+}
@@ -0,0 +1,207 @@
+import { Message, RecommendationResponse, TravelPreferences } from './types';
+import { ChatOptions, ChatResponse, ChatStreamEvent, LLMProvider } from './llm-provider';
+
+/**
+ * Deterministic mock LLM provider
+ * Returns canned responses without any network access so the app can be
+ * developed and tested offline. The same input always yields the same output.
+ */
+
+// Fixed date so generated plans never change between runs
+const MOCK_DATE = '2025-06-01';
+const MOCK_MODEL = 'mock-model';
+
+/**
+ * Mock provider class
+ */
+export class MockProvider implements LLMProvider {
+  readonly name = 'Mock';
+
+  /**
+   * Return a canned response: extracted preferences for extraction calls, an
+   * edit of a canned plan for refinement calls, a recommendation JSON object when
+   * the caller expects JSON, otherwise a follow-up question echoing the last user message
+   */
+  async chat(messages: Message[], options: ChatOptions = {}): Promise<ChatResponse> {
+    let content: string;
+    if (this.isExtraction(messages)) {
+      content = JSON.stringify(this.buildPreferences(messages));
+    } else if (this.isRefinement(messages)) {
+      content = JSON.stringify(this.buildRefinement(messages));
+    } else if (this.expectsJson(messages, options)) {
+      content = JSON.stringify(this.buildRecommendations(messages));
+    } else {
+      content = this.buildReply(messages);
+    }
+
+    return {
+      content,
+      model: options.model || MOCK_MODEL,
+      usage: this.estimateUsage(messages, content)
+    };
+  }
+
+  /**
+   * Stream the canned response word by word
+   */
+  async *chatStream(messages: Message[], options: ChatOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const { content, model, usage } = await this.chat(messages, options);
+
+    for (const word of content.match(/\S+\s*/g) || []) {
+      yield { type: 'delta', content: word };
+    }
+
+    yield { type: 'done', model, usage };
+  }
+
+  /**
+   * JSON is expected when requested explicitly or when the system prompt asks for it
+   * (map mode asks for JSON in the prompt without setting responseFormat)
+   */
+  private expectsJson(messages: Message[], options: ChatOptions): boolean {
+    if (options.responseFormat === 'json') {
+      return true;
+    }
+
+    const systemPrompt = messages.find(m => m.role === 'system')?.content || '';
+    return /valid JSON/i.test(systemPrompt);
+  }
+
+  /**
+   * Slot extraction calls are recognised by their system prompt (see lib/preferences.ts)
+   */
+  private isExtraction(messages: Message[]): boolean {
+    const systemPrompt = messages.find(m => m.role === 'system')?.content || '';
+    return /Travel Preference Extraction/.test(systemPrompt);
+  }
+
+  /**
+   * Follow-ups on plans already on screen (see app/api/assistant/route.ts)
+   */
+  private isRefinement(messages: Message[]): boolean {
+    const systemPrompt = messages.find(m => m.role === 'system')?.content || '';
+    return /CURRENT PHASE: Plan Refinement/.test(systemPrompt);
+  }
+
+  /**
+   * Questions get a reply; anything else makes the plan it names ("plan 2",
+   * default plan 1) 20% cheaper and swaps its last activity
+   */
+  private buildRefinement(messages: Message[]): Record<string, unknown> {
+    const lastMessage = this.lastUserMessage(messages).trim();
+
+    if (lastMessage.endsWith('?')) {
+      return { action: 'reply', message: `Good question! This is a mock answer to "${lastMessage}".` };
+    }
+
+    const plans = this.buildRecommendations(messages).plans;
+    const number = Number(lastMessage.match(/plan\s*(\d+)/i)?.[1] || 1);
+    const plan = plans[Math.min(plans.length, Math.max(1, number)) - 1];
+    const scale = (amount?: number) => amount === undefined ? undefined : Math.round(amount * 0.8);
+
+    return {
+      action: 'refine',
+      planId: plan.id,
+      message: `I made ${plan.destination} about 20% cheaper and swapped one activity.`,
+      plan: {
+        ...plan,
+        budget: {
+          ...plan.budget,
+          estimated: scale(plan.budget.estimated),
+          breakdown: Object.fromEntries(Object.entries(plan.budget.breakdown).map(([key, amount]) => [key, scale(amount)]))
+        },
+        activities: [...plan.activities.slice(0, -1), 'Picnic in a public garden']
+      }
+    };
+  }
+
+  /**
+   * Pretend the destination is known after the first user message and the
+   * budget after the second, so offline conversations reach recommendations
+   */
+  private buildPreferences(messages: Message[]): TravelPreferences {
+    const transcript = this.lastUserMessage(messages);
+    const userTurns = (transcript.match(/^User:/gm) || []).length;
+
+    return {
+      ...(userTurns >= 1 && { destination: 'Mockland' }),
+      ...(userTurns >= 2 && { budget: { amount: 500, currency: 'USD' } }),
+      interests: [],
+      constraints: []
+    };
+  }
+
+  private lastUserMessage(messages: Message[]): string {
+    const userMessages = messages.filter(m => m.role === 'user');
+    return userMessages[userMessages.length - 1]?.content || '';
+  }
+
+  private buildReply(messages: Message[]): string {
+    const lastMessage = this.lastUserMessage(messages).trim();
+
+    if (!lastMessage) {
+      return 'Where would you like to travel? Tell me a destination and roughly when you want to go.';
+    }
+
+    return `Thanks for sharing that you said "${lastMessage}". What budget do you have in mind, and when are you planning to travel?`;
+  }
+
+  private buildRecommendations(messages: Message[]): RecommendationResponse {
+    const plans = ['Old Town Walking Tour', 'Riverside Park'].map((destination, index) => ({
+      id: `plan-${index + 1}`,
+      destination,
+      country: 'Mockland',
+      duration: {
+        startDate: MOCK_DATE,
+        endDate: MOCK_DATE,
+        nights: 0,
+        hours: 3 + index
+      },
+      budget: {
+        estimated: 60 + index * 20,
+        currency: 'USD',
+        breakdown: {
+          admission: 20,
+          activities: 10 + index * 20,
+          food: 20,
+          transportation: 10
+        }
+      },
+      highlights: ['Historic architecture', 'Local atmosphere', 'Scenic viewpoints'],
+      activities: ['Guided walk', 'Photography', 'Try local snacks'],
+      accommodation: {
+        type: 'none',
+        description: 'Day trip - no accommodation needed'
+      },
+      transportation: {
+        arrival: 'Public transit',
+        local: 'Walking'
+      },
+      bestFor: ['first-time visitors', 'families'],
+      considerations: ['This is a mock recommendation for offline development']
+    }));
+
+    return {
+      summary: `Mock recommendations based on: "${this.lastUserMessage(messages).slice(0, 80)}"`,
+      plans,
+      metadata: {
+        generatedAt: `${MOCK_DATE}T00:00:00.000Z`,
+        basedOnPreferences: {}
+      }
+    };
+  }
+
+  /**
+   * Rough token estimate (~4 characters per token)
+   */
+  private estimateUsage(messages: Message[], content: string): ChatResponse['usage'] {
+    const promptTokens = Math.ceil(messages.reduce((sum, m) => sum + m.content.length, 0) / 4);
+    const completionTokens = Math.ceil(content.length / 4);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens
+    };
+  }
+}
@@ -0,0 +1,87 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { chatWithFallback } from './model-fallback';
+import { ChatOptions } from './llm-provider';
+import { InvalidResponseError, OpenRouterCancelledError, OpenRouterNetworkError, OpenRouterTimeoutError } from './errors';
+
+const chat = vi.fn();
+
+vi.mock('./llm-provider', () => ({
+  getLLMProvider: () => ({ name: 'stub', chat, chatStream: vi.fn() })
+}));
+
+const reply = (content: string, model: string) => ({
+  content,
+  model,
+  usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 }
+});
+
+const parseNumber = (content: string) => {
+  const value = Number(content);
+  if (Number.isNaN(value)) {
+    throw new InvalidResponseError('not a number');
+  }
+  return value;
+};
+
+describe('chatWithFallback', () => {
+  beforeEach(() => {
+    vi.stubEnv('LLM_MODELS', 'a,b,c');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    chat.mockReset();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('fails over on timeouts and network errors', async () => {
+    chat
+      .mockRejectedValueOnce(new OpenRouterTimeoutError('timed out'))
+      .mockRejectedValueOnce(new OpenRouterNetworkError('unreachable'))
+      .mockImplementation(async (_messages, options: ChatOptions) => reply('42', options.model!));
+
+    const { result, model, attemptedModels } = await chatWithFallback([], {}, 'conversation', parseNumber);
+
+    expect(result).toBe(42);
+    expect(model).toBe('c');
+    expect(attemptedModels).toEqual(['a', 'b', 'c']);
+  });
+
+  it('does not fail over when the client cancelled', async () => {
+    chat.mockRejectedValue(new OpenRouterCancelledError('cancelled'));
+
+    await expect(chatWithFallback([], {}, 'conversation', parseNumber)).rejects.toBeInstanceOf(OpenRouterCancelledError);
+    expect(chat).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends invalid output back for repair before failing over', async () => {
+    chat
+      .mockResolvedValueOnce(reply('nope', 'a'))
+      .mockResolvedValueOnce(reply('7', 'a'));
+
+    const { result, repairRounds, attemptedModels } = await chatWithFallback([], {}, 'map', parseNumber, undefined, 2);
+
+    expect(result).toBe(7);
+    expect(repairRounds).toBe(1);
+    expect(attemptedModels).toEqual(['a']);
+  });
+
+  it('caps requests across models and repair rounds', async () => {
+    chat.mockImplementation(async (_messages, options: ChatOptions) => reply('nope', options.model!));
+
+    await expect(chatWithFallback([], {}, 'map', parseNumber, undefined, 2)).rejects.toBeInstanceOf(InvalidResponseError);
+    expect(chat).toHaveBeenCalledTimes(6);
+    expect(chat.mock.calls.map(([, options]) => options.model)).toEqual(['a', 'a', 'a', 'b', 'b', 'b']);
+  });
+
+  it('counts provider retries against the cap', async () => {
+    chat.mockImplementation(async (_messages, options: ChatOptions) => {
+      // The provider retried twice before giving up
+      options.attempts!.remaining -= 2;
+      throw new OpenRouterTimeoutError('timed out');
+    });
+
+    await expect(chatWithFallback([], {}, 'conversation', parseNumber)).rejects.toBeInstanceOf(OpenRouterTimeoutError);
+    expect(chat).toHaveBeenCalledTimes(2);
+  });
+});
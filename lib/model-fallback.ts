@@ -0,0 +1,226 @@
+import { Message } from './types';
+import { AttemptBudget, ChatOptions, ChatResponse, ChatStreamEvent, getLLMProvider } from './llm-provider';
+import {
+  InvalidResponseError,
+  OpenRouterNetworkError,
+  OpenRouterRateLimitError,
+  OpenRouterTimeoutError,
+  OpenRouterUpstreamError,
+  SchemaValidationError
+} from './errors';
+import { recordRateLimit, UsageTracker } from './usage';
+
+/**
+ * Model fallback chain
+ * Each route has an ordered list of models. When a model is rate-limited, times out,
+ * can't be reached, the upstream fails (5xx) or the output can't be parsed, the next
+ * model is tried. Unparseable output is first sent back to the same model with the
+ * validation errors for a bounded number of repair rounds. One call makes at most
+ * LLM_MAX_ATTEMPTS requests, counting every model, repair round and provider retry.
+ */
+
+// Routes that can be configured with their own model chain
+export type ModelRoute = 'conversation' | 'recommendation' | 'map' | 'extraction';
+
+// Environment variables holding comma-separated model lists per route
+const ROUTE_MODEL_ENV_VARS: Record<ModelRoute, string> = {
+  conversation: 'LLM_MODELS_CONVERSATION',
+  recommendation: 'LLM_MODELS_RECOMMENDATION',
+  map: 'LLM_MODELS_MAP',
+  extraction: 'LLM_MODELS_EXTRACTION'
+};
+
+// Rounds of "here is what was wrong, fix it" per model before failing over
+export const JSON_REPAIR_ROUNDS = Math.max(0, parseInt(process.env.LLM_JSON_REPAIR_ROUNDS || '2', 10) || 0);
+
+// Most LLM requests one call may make across its models, repair rounds and provider retries
+const MAX_ATTEMPTS = Math.max(1, parseInt(process.env.LLM_MAX_ATTEMPTS || '6', 10) || 6);
+
+// Longest previous output echoed back in a repair prompt
+const MAX_REPAIR_ECHO_CHARS = 8000;
+
+// Result of a chat call that went through the fallback chain
+export interface FallbackResult<T> {
+  result: T;
+  response: ChatResponse;
+  model: string;
+  attemptedModels: string[];
+  repairRounds: number; // Correction rounds needed by the model that succeeded
+}
+
+/**
+ * Get the ordered model list for a route
+ * Falls back to LLM_MODELS, then to the provider's default model (empty list)
+ */
+export function getModelChain(route: ModelRoute): string[] {
+  const configured = process.env[ROUTE_MODEL_ENV_VARS[route]] || process.env.LLM_MODELS || '';
+
+  return configured
+    .split(',')
+    .map(model => model.trim())
+    .filter(model => model.length > 0);
+}
+
+/**
+ * Whether an error should move on to the next model in the chain
+ */
+function shouldFailover(error: unknown): boolean {
+  if (error instanceof InvalidResponseError) {
+    return true;
+  }
+
+  return error instanceof OpenRouterRateLimitError ||
+    error instanceof OpenRouterTimeoutError ||
+    error instanceof OpenRouterNetworkError ||
+    (error instanceof OpenRouterUpstreamError && error.status >= 500);
+}
+
+/**
+ * Build the follow-up asking the model to correct its own invalid output
+ */
+function buildRepairMessages(content: string, error: InvalidResponseError): Message[] {
+  const problems = error instanceof SchemaValidationError && error.issues.length > 0
+    ? error.issues.map(issue => `- ${issue.path}: ${issue.message}`).join('\n')
+    : `- ${error.message}`;
+
+  return [
+    { role: 'assistant', content: content.slice(0, MAX_REPAIR_ECHO_CHARS), timestamp: Date.now() },
+    {
+      role: 'user',
+      content: `Your previous response could not be used because it failed validation:\n${problems}\n\n` +
+        'Return the corrected JSON object with the same structure. Fix every problem listed above and keep the rest unchanged. ' +
+        'Respond with ONLY the JSON object, no additional text.',
+      timestamp: Date.now()
+    }
+  ];
+}
+
+/**
+ * Models to try in order; undefined means "provider default"
+ */
+function candidateModels(route: ModelRoute): (string | undefined)[] {
+  const chain = getModelChain(route);
+  return chain.length > 0 ? chain : [undefined];
+}
+
+/**
+ * Send a chat request, failing over through the route's model chain
+ * @param messages - Conversation messages including the system prompt
+ * @param options - Chat options (the model is picked from the chain)
+ * @param route - Which route's model chain to use
+ * @param parse - Parses/validates the content; throwing fails over to the next model
+ * @param tracker - Records token usage of every call, including failed attempts
+ * @param repairRounds - How many times to send invalid output back to the same model
+ *   with the validation errors before failing over (0 disables repair)
+ */
+export async function chatWithFallback<T>(
+  messages: Message[],
+  options: Omit<ChatOptions, 'model'>,
+  route: ModelRoute,
+  parse: (content: string) => T,
+  tracker?: UsageTracker,
+  repairRounds = 0
+): Promise<FallbackResult<T>> {
+  const provider = getLLMProvider();
+  const attemptedModels: string[] = [];
+  const attempts: AttemptBudget = { remaining: MAX_ATTEMPTS };
+  let lastError: unknown = null;
+
+  for (const model of candidateModels(route)) {
+    if (attempts.remaining <= 0) {
+      console.warn(`[ModelFallback] ${route} used all ${MAX_ATTEMPTS} attempts, not trying ${model || 'default'}`);
+      break;
+    }
+    attemptedModels.push(model || 'default');
+
+    try {
+      let conversation = messages;
+
+      for (let round = 0; ; round++) {
+        attempts.remaining--;
+        const response = await provider.chat(conversation, { ...options, model, attempts });
+        tracker?.add(response.model, response.usage, route);
+
+        let invalid: InvalidResponseError;
+        try {
+          const result = parse(response.content);
+          return { result, response, model: response.model, attemptedModels, repairRounds: round };
+        } catch (parseError) {
+          invalid = parseError instanceof InvalidResponseError
+            ? parseError
+            : new InvalidResponseError(
+                parseError instanceof Error ? parseError.message : 'The AI returned an invalid response format'
+              );
+        }
+
+        if (round >= repairRounds || attempts.remaining <= 0) {
+          throw invalid;
+        }
+
+        console.warn(`[ModelFallback] ${model || 'default'} returned invalid output for ${route}, ` +
+          `asking for a correction (round ${round + 1}/${repairRounds}):`, invalid.message);
+        conversation = [...messages, ...buildRepairMessages(response.content, invalid)];
+      }
+    } catch (error) {
+      lastError = error;
+
+      if (error instanceof OpenRouterRateLimitError) {
+        recordRateLimit(route, model || 'default');
+      }
+
+      if (!shouldFailover(error)) {
+        throw error;
+      }
+
+      console.warn(`[ModelFallback] ${model || 'default'} failed for ${route}, trying next model:`,
+        error instanceof Error ? error.message : error);
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Open a streaming chat request, failing over until a model produces its first event
+ * Failures after the first event can't be retried since tokens were already sent
+ */
+export async function chatStreamWithFallback(
+  messages: Message[],
+  options: Omit<ChatOptions, 'model'>,
+  route: ModelRoute
+): Promise<{ events: AsyncGenerator<ChatStreamEvent>; first: IteratorResult<ChatStreamEvent>; model: string; attemptedModels: string[] }> {
+  const provider = getLLMProvider();
+  const attemptedModels: string[] = [];
+  const attempts: AttemptBudget = { remaining: MAX_ATTEMPTS };
+  let lastError: unknown = null;
+
+  for (const model of candidateModels(route)) {
+    if (attempts.remaining <= 0) {
+      console.warn(`[ModelFallback] ${route} used all ${MAX_ATTEMPTS} attempts, not streaming from ${model || 'default'}`);
+      break;
+    }
+    attemptedModels.push(model || 'default');
+
+    try {
+      attempts.remaining--;
+      const events = provider.chatStream(messages, { ...options, model, attempts });
+      const first = await events.next();
+      return { events, first, model: model || 'default', attemptedModels };
+    } catch (error) {
+      lastError = error;
+
+      if (error instanceof OpenRouterRateLimitError) {
+        recordRateLimit(route, model || 'default');
+      }
+
+      if (!shouldFailover(error)) {
+        throw error;
+      }
+
+      console.warn(`[ModelFallback] ${model || 'default'} failed to stream for ${route}, trying next model:`,
+        error instanceof Error ? error.message : error);
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,58 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAICompatibleClient } from './openai-compatible';
+
+/**
+ * A streamed chat completion response whose body records being cancelled
+ * @param close - End the body after the events; otherwise it stays open, as if the model were still generating
+ */
+function streamResponse(events: string[], onCancel: () => void, close: boolean): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const event of events) {
+        controller.enqueue(encoder.encode(`data: ${event}\n\n`));
+      }
+      if (close) {
+        controller.close();
+      }
+    },
+    cancel: onCancel
+  });
+  return new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+const client = new OpenAICompatibleClient({ name: 'test', baseUrl: 'http://localhost/v1', defaultModel: 'test-model', maxRetries: 0 });
+
+describe('OpenAICompatibleClient.chatStream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('cancels the upstream body when the consumer stops early', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const cancel = vi.fn();
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse(['{"choices":[{"delta":{"content":"Hel"}}]}'], cancel, false)));
+
+    for await (const event of client.chatStream([{ role: 'user', content: 'Hi', timestamp: 0 }])) {
+      expect(event).toEqual({ type: 'delta', content: 'Hel' });
+      break;
+    }
+
+    expect(cancel).toHaveBeenCalledTimes(1);
+  });
+
+  it('leaves a finished stream alone', async () => {
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const cancel = vi.fn();
+    vi.stubGlobal('fetch', vi.fn(async () => streamResponse(['{"choices":[{"delta":{"content":"Hi"}}]}', '[DONE]'], cancel, true)));
+
+    const events = [];
+    for await (const event of client.chatStream([{ role: 'user', content: 'Hi', timestamp: 0 }])) {
+      events.push(event.type);
+    }
+
+    expect(events).toEqual(['delta', 'done']);
+    expect(cancel).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,550 @@
+import { Message } from './types';
+import { AttemptBudget, ChatOptions, ChatResponse, ChatStreamEvent, LLMProvider } from './llm-provider';
+import {
+  OpenRouterAuthError,
+  OpenRouterBadRequestError,
+  OpenRouterCancelledError,
+  OpenRouterError,
+  OpenRouterNetworkError,
+  OpenRouterRateLimitError,
+  OpenRouterTimeoutError,
+  OpenRouterUpstreamError
+} from './errors';
+
+/**
+ * Client for any OpenAI-compatible chat completions API
+ * (OpenRouter, llama.cpp server, Ollama, vLLM, LM Studio...)
+ * Handles authentication, request formatting, streaming, and error handling
+ */
+
+// Error body returned by OpenAI-compatible APIs
+interface ApiErrorBody {
+  error?: {
+    message: string;
+    type: string;
+    code?: string;
+  };
+  message?: string;
+}
+
+// Connection settings for an OpenAI-compatible endpoint
+export interface OpenAICompatibleConfig {
+  name: string;
+  baseUrl: string; // e.g. http://localhost:11434/v1 (without /chat/completions)
+  apiKey?: string;
+  apiKeyEnvVar?: string; // Mentioned in error messages when the key is rejected
+  defaultModel: string;
+  timeoutMs?: number; // Default per-request timeout (idle timeout for streams)
+  maxRetries?: number; // Retries on rate limits, 5xx and network errors
+}
+
+// Abort controller combining the caller's signal with a resettable timeout
+interface AbortScope {
+  signal: AbortSignal;
+  timedOut: () => boolean;
+  resetTimeout: () => void;
+  dispose: () => void;
+}
+
+// Default configuration
+const DEFAULT_TEMPERATURE = 0.7;
+const DEFAULT_MAX_TOKENS = 1500;
+const DEFAULT_TIMEOUT_MS = Number(process.env.LLM_TIMEOUT_MS) || 30000;
+const DEFAULT_MAX_RETRIES = Number(process.env.LLM_MAX_RETRIES ?? 2);
+const RETRY_BASE_DELAY_MS = 500;
+// Longest wait we accept before a retry; longer Retry-After values fail immediately
+const MAX_RETRY_DELAY_MS = 10000;
+
+/**
+ * OpenAI-compatible API client class
+ */
+export class OpenAICompatibleClient implements LLMProvider {
+  readonly name: string;
+  protected apiKey: string;
+  protected baseUrl: string;
+  protected defaultModel: string;
+  private apiKeyEnvVar: string;
+  private timeoutMs: number;
+  private maxRetries: number;
+
+  constructor(config: OpenAICompatibleConfig) {
+    this.name = config.name;
+    this.apiKey = config.apiKey || '';
+    this.baseUrl = `${config.baseUrl.replace(/\/+$/, '')}/chat/completions`;
+    this.defaultModel = config.defaultModel;
+    this.apiKeyEnvVar = config.apiKeyEnvVar || 'API key';
+    this.timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    this.maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
+  }
+
+  /**
+   * Send a chat request to the chat completions endpoint
+   * @param messages - Array of conversation messages
+   * @param options - Optional configuration for the request
+   * @returns ChatResponse with content and usage information
+   */
+  async chat(messages: Message[], options: ChatOptions = {}): Promise<ChatResponse> {
+    const { model, maxTokens, requestBody } = this.buildRequestBody(messages, options);
+
+    // Log request for debugging
+    this.logRequest(model, requestBody.messages.length, maxTokens);
+
+    let scope: AbortScope | undefined;
+
+    try {
+      const sent = await this.sendRequest(requestBody, options);
+      scope = sent.scope;
+
+      const data = await sent.response.json();
+
+      // Extract content and usage from response
+      const content = data.choices?.[0]?.message?.content || '';
+      const usage = this.parseUsage(data.usage);
+
+      // Log response for debugging
+      this.logResponse(usage);
+
+      return {
+        content,
+        model: data.model || model,
+        usage
+      };
+
+    } catch (error) {
+      // Handle network and other errors
+      this.logError(error);
+      throw this.formatError(error, scope, options.signal);
+    } finally {
+      scope?.dispose();
+    }
+  }
+
+  /**
+   * Send a streaming chat request to the chat completions endpoint
+   * Consumes the server-sent event stream and yields content deltas as they arrive,
+   * followed by a single 'done' event carrying token usage
+   * @param messages - Array of conversation messages
+   * @param options - Optional configuration for the request
+   */
+  async *chatStream(messages: Message[], options: ChatOptions = {}): AsyncGenerator<ChatStreamEvent> {
+    const { model, maxTokens, requestBody } = this.buildRequestBody(messages, options);
+
+    // Log request for debugging
+    this.logRequest(model, requestBody.messages.length, maxTokens);
+
+    let response: Response;
+    let scope: AbortScope;
+
+    try {
+      ({ response, scope } = await this.sendRequest({
+        ...requestBody,
+        ...this.streamRequestOptions()
+      }, options));
+
+      if (!response.body) {
+        scope.dispose();
+        throw new OpenRouterUpstreamError(`${this.name} API error: streaming response has no body`);
+      }
+    } catch (error) {
+      this.logError(error);
+      throw this.formatError(error, undefined, options.signal);
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let usage: ChatResponse['usage'] = this.parseUsage(undefined);
+    let respondingModel = model;
+    let finished = false;
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+          finished = true;
+          break;
+        }
+
+        // The timeout applies to silence between chunks, not the whole generation
+        scope.resetTimeout();
+        buffer += decoder.decode(value, { stream: true });
+
+        // SSE events are newline-delimited; keep the trailing partial line in the buffer
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+
+          // Skip blank lines and SSE comments (e.g. OpenRouter's ": OPENROUTER PROCESSING" keep-alives)
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice('data:'.length).trim();
+          if (payload === '[DONE]') continue;
+
+          let data;
+          try {
+            data = JSON.parse(payload);
+          } catch {
+            // Ignore malformed keep-alive fragments
+            continue;
+          }
+
+          if (data.error) {
+            throw new OpenRouterUpstreamError(`${this.name} service error: ${data.error.message || 'stream interrupted'}. Please try again.`);
+          }
+
+          const content = data.choices?.[0]?.delta?.content;
+          if (content) {
+            yield { type: 'delta', content };
+          }
+
+          if (data.usage) {
+            usage = this.parseUsage(data.usage);
+          }
+
+          if (data.model) {
+            respondingModel = data.model;
+          }
+        }
+      }
+    } catch (error) {
+      this.logError(error);
+      throw this.formatError(error, scope, options.signal);
+    } finally {
+      // The consumer stopped early (client gone, another model took over) or the stream
+      // failed: cancel the upstream body so the provider stops generating billed tokens
+      if (!finished) {
+        await reader.cancel().catch(() => undefined);
+      }
+      reader.releaseLock();
+      scope.dispose();
+    }
+
+    // Log response for debugging
+    this.logResponse(usage);
+
+    yield { type: 'done', model: respondingModel, usage };
+  }
+
+  /**
+   * POST a request body, retrying rate limits, 5xx and network errors with backoff
+   * Honours Retry-After on 429s. Returns the OK response together with its abort
+   * scope, which the caller must dispose once the body has been consumed.
+   */
+  private async sendRequest(
+    body: object,
+    options: ChatOptions
+  ): Promise<{ response: Response; scope: AbortScope }> {
+    const timeoutMs = options.timeoutMs ?? this.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      const scope = createAbortScope(timeoutMs, options.signal);
+
+      try {
+        const response = await fetch(this.baseUrl, {
+          method: 'POST',
+          headers: this.buildHeaders(),
+          body: JSON.stringify(body),
+          signal: scope.signal
+        });
+
+        // Handle non-OK responses
+        if (!response.ok) {
+          await this.handleErrorResponse(response);
+        }
+
+        return { response, scope };
+      } catch (error) {
+        scope.dispose();
+
+        const formatted = this.formatError(error, scope, options.signal);
+        const delay = this.retryDelay(formatted, attempt, options.attempts);
+        if (delay === null) {
+          throw formatted;
+        }
+        if (options.attempts) {
+          options.attempts.remaining--;
+        }
+
+        console.warn(`[${this.name}] ${formatted.message} (retrying in ${delay}ms, attempt ${attempt + 1}/${this.maxRetries})`);
+        await sleep(delay, options.signal);
+      }
+    }
+  }
+
+  /**
+   * Delay before retrying after an error, or null when the error shouldn't be retried
+   * (or the caller's request budget is used up)
+   */
+  private retryDelay(error: OpenRouterError, attempt: number, attempts?: AttemptBudget): number | null {
+    if (attempt >= this.maxRetries || (attempts && attempts.remaining <= 0)) {
+      return null;
+    }
+
+    const backoff = RETRY_BASE_DELAY_MS * Math.pow(2, attempt);
+
+    if (error instanceof OpenRouterRateLimitError) {
+      if (error.retryAfter === undefined) {
+        return backoff;
+      }
+      const retryAfterMs = error.retryAfter * 1000;
+      return retryAfterMs <= MAX_RETRY_DELAY_MS ? retryAfterMs : null;
+    }
+
+    if ((error instanceof OpenRouterUpstreamError && error.status >= 500) || error instanceof OpenRouterNetworkError) {
+      return Math.min(backoff, MAX_RETRY_DELAY_MS);
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the request body shared by chat and chatStream
+   */
+  private buildRequestBody(messages: Message[], options: ChatOptions) {
+    const {
+      model = this.defaultModel,
+      temperature = DEFAULT_TEMPERATURE,
+      maxTokens = DEFAULT_MAX_TOKENS,
+      responseFormat = 'text'
+    } = options;
+
+    // Format messages for the API (remove timestamp field)
+    const formattedMessages = messages.map(({ role, content }) => ({
+      role,
+      content
+    }));
+
+    // Construct request body
+    const requestBody = {
+      model,
+      messages: formattedMessages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(responseFormat === 'json' && { response_format: { type: 'json_object' } })
+    };
+
+    return { model, maxTokens, requestBody };
+  }
+
+  /**
+   * Build request headers; the Authorization header is omitted for keyless local servers
+   */
+  protected buildHeaders(): Record<string, string> {
+    return {
+      ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      'Content-Type': 'application/json'
+    };
+  }
+
+  /**
+   * Extra body fields for streaming requests (asks the server to report usage in the final chunk)
+   */
+  protected streamRequestOptions(): Record<string, unknown> {
+    return {
+      stream: true,
+      stream_options: { include_usage: true }
+    };
+  }
+
+  /**
+   * Convert the snake_case usage object into ChatResponse usage
+   */
+  private parseUsage(usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }): ChatResponse['usage'] {
+    return {
+      promptTokens: usage?.prompt_tokens || 0,
+      completionTokens: usage?.completion_tokens || 0,
+      totalTokens: usage?.total_tokens || 0
+    };
+  }
+
+  /**
+   * Handle error responses from the API
+   */
+  private async handleErrorResponse(response: Response): Promise<never> {
+    let errorData: ApiErrorBody = {};
+    
+    try {
+      errorData = await response.json();
+    } catch {
+      // Non-JSON error body; fall through with the status text
+    }
+
+    const errorMessage = errorData.error?.message || errorData.message || response.statusText || 'Unknown error';
+    const errorCode = errorData.error?.code || response.status.toString();
+
+    // Handle specific error types
+    switch (response.status) {
+      case 401:
+      case 403:
+        throw new OpenRouterAuthError(
+          `Invalid ${this.name} API key. Please check your ${this.apiKeyEnvVar} environment variable.`,
+          response.status
+        );
+      case 429:
+        throw new OpenRouterRateLimitError(
+          'Rate limit exceeded. Please try again later.',
+          parseRetryAfter(response.headers.get('Retry-After'))
+        );
+      case 400:
+        throw new OpenRouterBadRequestError(`Bad request: ${errorMessage}`);
+      default:
+        if (response.status >= 500) {
+          throw new OpenRouterUpstreamError(`${this.name} service error: ${errorMessage}. Please try again.`, response.status);
+        }
+        throw new OpenRouterUpstreamError(`${this.name} API error (${errorCode}): ${errorMessage}`, response.status);
+    }
+  }
+
+  /**
+   * Convert any thrown value into an OpenRouterError
+   * Aborts are reported as timeouts or cancellations depending on what triggered them
+   */
+  private formatError(error: unknown, scope?: AbortScope, callerSignal?: AbortSignal): OpenRouterError {
+    if (error instanceof OpenRouterError) {
+      return error;
+    }
+
+    if (scope?.timedOut()) {
+      return new OpenRouterTimeoutError(`${this.name} API request timed out.`);
+    }
+
+    if (callerSignal?.aborted) {
+      return new OpenRouterCancelledError(`${this.name} API request was cancelled.`);
+    }
+
+    // fetch rejects with a TypeError when the server can't be reached
+    if (error instanceof TypeError) {
+      return new OpenRouterNetworkError(`Unable to reach ${this.name} API: ${error.message}`);
+    }
+
+    if (error instanceof Error) {
+      return new OpenRouterUpstreamError(`${this.name} API error: ${error.message}`);
+    }
+    
+    if (typeof error === 'string') {
+      return new OpenRouterUpstreamError(error);
+    }
+
+    return new OpenRouterUpstreamError(`An unexpected error occurred while calling ${this.name} API`);
+  }
+
+  /**
+   * Log request details for debugging
+   */
+  private logRequest(model: string, messageCount: number, maxTokens: number): void {
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`[${this.name}] Request:`, {
+        model,
+        messageCount,
+        maxTokens,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Log response details for debugging
+   */
+  private logResponse(usage: ChatResponse['usage']): void {
+    if (process.env.NODE_ENV === 'development') {
+      console.log(`[${this.name}] Response:`, {
+        usage,
+        timestamp: new Date().toISOString()
+      });
+    }
+  }
+
+  /**
+   * Log errors for debugging
+   */
+  private logError(error: unknown): void {
+    console.error(`[${this.name}] Error:`, {
+      error: error instanceof Error ? error.message : String(error),
+      timestamp: new Date().toISOString()
+    });
+  }
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into seconds
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) {
+    return undefined;
+  }
+
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, Math.ceil(seconds));
+  }
+
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+  }
+
+  return undefined;
+}
+
+/**
+ * Create an abort scope that fires when the caller aborts or the timeout elapses
+ */
+function createAbortScope(timeoutMs: number, callerSignal?: AbortSignal): AbortScope {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const resetTimeout = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+
+  const onCallerAbort = () => controller.abort();
+
+  if (callerSignal?.aborted) {
+    controller.abort();
+  } else {
+    callerSignal?.addEventListener('abort', onCallerAbort, { once: true });
+  }
+
+  resetTimeout();
+
+  return {
+    signal: controller.signal,
+    timedOut: () => timedOut,
+    resetTimeout,
+    dispose: () => {
+      clearTimeout(timer);
+      callerSignal?.removeEventListener('abort', onCallerAbort);
+    }
+  };
+}
+
+/**
+ * Wait before a retry, rejecting early if the caller aborts
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new OpenRouterCancelledError('Request was cancelled.'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new OpenRouterCancelledError('Request was cancelled.'));
+    };
+
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -0,0 +1,188 @@
+import { Place, PlaceDetails } from './types';
+import { cachedGeoLookup } from './geo-cache';
+import { cleanUrl, fetchGeoJson } from './geo-utils';
+import { mergeDefined } from './place-sources';
+
+/**
+ * Detail enrichment for the top-ranked places in map mode
+ * Looks up OpenTripMap object details (by xid), the Wikidata entity and the
+ * Wikipedia article intro, so the map prompt and popups get real facts
+ * (description, opening hours, website, image) instead of just a name.
+ * Results are cached per place.
+ */
+
+// How many of the ranked places get enriched
+const ENRICHED_PLACES = 8;
+
+// Longest description/extract kept per place (characters)
+const MAX_TEXT_LENGTH = 400;
+
+// Thumbnail width requested from Wikimedia (pixels)
+const THUMBNAIL_WIDTH = 320;
+
+// OpenTripMap /places/xid response (only the fields used here)
+interface OpenTripMapDetails {
+  wikidata?: string;
+  wikipedia?: string;
+  url?: string;
+  preview?: { source?: string };
+  wikipedia_extracts?: { text?: string };
+  info?: { descr?: string };
+}
+
+// Wikidata Special:EntityData response (only the fields used here)
+interface WikidataEntityResponse {
+  entities?: Record<string, {
+    descriptions?: { en?: { value?: string } };
+    claims?: Record<string, { mainsnak?: { datavalue?: { value?: unknown } } }[]>;
+    sitelinks?: { enwiki?: { title?: string } };
+  }>;
+}
+
+// Wikipedia query API response with extracts, pageimages and info
+interface WikipediaPagesResponse {
+  query?: {
+    pages?: Record<string, {
+      extract?: string;
+      fullurl?: string;
+      thumbnail?: { source?: string };
+      missing?: string;
+    }>;
+  };
+}
+
+/**
+ * Collapse whitespace, strip HTML tags and cap the length of free text
+ */
+function cleanText(text: string | undefined): string | undefined {
+  if (!text) {
+    return undefined;
+  }
+
+  const cleaned = text.replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+  if (!cleaned) {
+    return undefined;
+  }
+  return cleaned.length > MAX_TEXT_LENGTH
+    ? `${cleaned.slice(0, MAX_TEXT_LENGTH - 1).trimEnd()}…`
+    : cleaned;
+}
+
+/**
+ * First string value of a Wikidata claim (e.g. P856 official website, P18 image)
+ */
+function claimString(entity: NonNullable<WikidataEntityResponse['entities']>[string], property: string): string | undefined {
+  const value = entity.claims?.[property]?.[0]?.mainsnak?.datavalue?.value;
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Thumbnail URL for a Wikimedia Commons file name
+ */
+function commonsThumbnail(fileName: string): string {
+  return `https://commons.wikimedia.org/wiki/Special:FilePath/${encodeURIComponent(fileName.replace(/ /g, '_'))}?width=${THUMBNAIL_WIDTH}`;
+}
+
+/**
+ * Look up details from every id a place has
+ * Returns null when every lookup failed, so nothing is cached
+ */
+async function loadPlaceDetails(place: Place): Promise<PlaceDetails | null> {
+  let details: PlaceDetails = { ...place.details };
+  let wikidataId = place.externalIds.wikidata;
+  let wikipediaTitle: string | undefined;
+  let attempted = 0;
+  let failed = 0;
+
+  if (place.externalIds.xid) {
+    attempted++;
+    const apiKey = process.env.OPENTRIPMAP_API_KEY;
+    const data = await fetchGeoJson<OpenTripMapDetails>(
+      `https://api.opentripmap.com/0.1/en/places/xid/${encodeURIComponent(place.externalIds.xid)}${apiKey ? `?apikey=${encodeURIComponent(apiKey)}` : ''}`,
+      'OpenTripMap details'
+    );
+
+    if (data) {
+      details = mergeDefined(details, {
+        description: cleanText(data.info?.descr),
+        wikipediaExtract: cleanText(data.wikipedia_extracts?.text),
+        wikipediaUrl: cleanUrl(data.wikipedia),
+        website: cleanUrl(data.url),
+        image: cleanUrl(data.preview?.source)
+      });
+      wikidataId = wikidataId || data.wikidata;
+    } else {
+      failed++;
+    }
+  }
+
+  if (wikidataId && /^Q\d+$/.test(wikidataId)) {
+    attempted++;
+    const data = await fetchGeoJson<WikidataEntityResponse>(
+      `https://www.wikidata.org/wiki/Special:EntityData/${wikidataId}.json`,
+      'Wikidata entity'
+    );
+    const entity = data?.entities?.[wikidataId];
+
+    if (entity) {
+      const imageFile = claimString(entity, 'P18');
+      // Source data (OSM tags, OpenTripMap) wins over Wikidata where both exist
+      details = mergeDefined({
+        description: cleanText(entity.descriptions?.en?.value),
+        website: cleanUrl(claimString(entity, 'P856')),
+        image: imageFile ? commonsThumbnail(imageFile) : undefined
+      }, details);
+      wikipediaTitle = entity.sitelinks?.enwiki?.title;
+    } else {
+      failed++;
+    }
+  }
+
+  const pageId = place.externalIds.wikipediaPageId;
+  if (!details.wikipediaExtract && (pageId || wikipediaTitle)) {
+    attempted++;
+    const pageParam = pageId ? `pageids=${pageId}` : `titles=${encodeURIComponent(wikipediaTitle as string)}`;
+    const data = await fetchGeoJson<WikipediaPagesResponse>(
+      `https://en.wikipedia.org/w/api.php?action=query&prop=extracts|pageimages|info&exintro=1&explaintext=1&exsentences=3&piprop=thumbnail&pithumbsize=${THUMBNAIL_WIDTH}&inprop=url&redirects=1&format=json&${pageParam}`,
+      'Wikipedia extract'
+    );
+    const page = Object.values(data?.query?.pages || {}).find(p => p.missing === undefined);
+
+    if (data) {
+      details = mergeDefined(details, {
+        wikipediaExtract: cleanText(page?.extract),
+        wikipediaUrl: details.wikipediaUrl || cleanUrl(page?.fullurl),
+        image: details.image || cleanUrl(page?.thumbnail?.source)
+      });
+    } else {
+      failed++;
+    }
+  }
+
+  return attempted > 0 && failed === attempted ? null : details;
+}
+
+/**
+ * Attach details to the top-ranked places (the rest are returned unchanged)
+ * @returns cache - 'hit' only when every enriched place came from the cache
+ */
+export async function enrichPlaces(places: Place[], limit: number = ENRICHED_PLACES): Promise<{
+  places: Place[];
+  cache: 'hit' | 'miss';
+}> {
+  const top = places.slice(0, limit);
+
+  const results = await Promise.all(top.map(place =>
+    cachedGeoLookup('details', place.coordinates, () => loadPlaceDetails(place), { variant: place.id })
+  ));
+
+  const enriched = places.map((place, i) => {
+    const details = results[i]?.value;
+    return details ? { ...place, details } : place;
+  });
+
+  return {
+    places: enriched,
+    cache: results.every(result => result.cache === 'hit') ? 'hit' : 'miss'
+  };
+}
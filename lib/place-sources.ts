@@ -0,0 +1,585 @@
+import { GeoCacheStatus, LocationCoordinates, MapArea, MapInterest, MapSearchFilters, OpenTripMapPlace, Place, PlaceCategory } from './types';
+import { cachedGeoLookup, geoTile } from './geo-cache';
+import { filtersKey, wantedCategories } from './map-filters';
+import { isInArea } from './map-area';
+import { locateOnRoute } from './map-route';
+import { cleanUrl, distanceMeters, fetchGeoJson } from './geo-utils';
+
+/**
+ * Points-of-interest sources for map mode
+ * Each source fetches places near a point and normalizes them to Place; sources
+ * are registered here, queried in parallel, cached per tile, then merged and
+ * deduplicated by proximity and name similarity into one ranked list.
+ */
+
+// A provider of nearby places
+export interface PlaceSource {
+  id: string; // Stable id, used in Place.source, cache keys and the prompt
+  name: string;
+  cacheTtlMs?: number; // Overrides the default place cache TTL
+  /**
+   * Fetch places near the coordinates, within the filters' radius and (where the source can) interests
+   * Returns null when the lookup failed (so it isn't cached), [] when there is nothing nearby
+   */
+  fetchPlaces(coords: LocationCoordinates, filters: MapSearchFilters): Promise<Place[] | null>;
+}
+
+// Places returned after merging
+const MAX_PLACES = 15;
+
+// Places closer than this with similar names are treated as the same place
+const DUPLICATE_DISTANCE_METERS = 150;
+
+// Bigram similarity above which two names are considered the same
+const NAME_SIMILARITY_THRESHOLD = 0.6;
+
+// Ranking: popularity assumed when a source doesn't report it, the bonus per corroborating
+// source, and the bonus for matching one of the user's interests
+const DEFAULT_POPULARITY = 0.3;
+const CORROBORATION_BONUS = 0.15;
+const INTEREST_BONUS = 0.2;
+
+// OpenTripMap: a close-range search (meters) alongside the full radius, and the highest "rate" value (3h)
+const OPENTRIPMAP_NEAR_RADIUS = 5000;
+const OPENTRIPMAP_MAX_RATE = 7;
+
+// OpenTripMap kinds queried when no interests are chosen, and per interest
+const OPENTRIPMAP_DEFAULT_KINDS = 'interesting_places,tourist_facilities,cultural,natural';
+const OPENTRIPMAP_INTEREST_KINDS: Record<MapInterest, string> = {
+  museums: 'museums,theatres_and_entertainments',
+  nature: 'natural,view_points',
+  food: 'foods',
+  nightlife: 'nightclubs,alcohol',
+  family: 'amusements'
+};
+
+// Wikipedia geosearch radius limit (meters)
+const WIKIPEDIA_MAX_RADIUS = 10000;
+
+// Overpass search radius limit (meters; large areas are slow) and result limit
+const OVERPASS_MAX_RADIUS = 10000;
+const OVERPASS_LIMIT = 40;
+
+// Route sample points queried at once (each queries every source), to go easy on
+// the public APIs' rate limits
+const ROUTE_SAMPLE_BATCH = 2;
+
+// Overpass tag selectors queried when no interests are chosen, and per interest
+const OVERPASS_DEFAULT_SELECTORS = [
+  '["tourism"~"^(attraction|museum|gallery|viewpoint|zoo|theme_park|aquarium)$"]',
+  '["historic"]',
+  '["leisure"~"^(park|nature_reserve)$"]'
+];
+const OVERPASS_INTEREST_SELECTORS: Record<MapInterest, string[]> = {
+  museums: ['["tourism"~"^(museum|gallery)$"]', '["amenity"="theatre"]'],
+  nature: ['["leisure"~"^(park|nature_reserve)$"]', '["natural"~"^(peak|waterfall|beach)$"]', '["tourism"="viewpoint"]'],
+  food: ['["amenity"~"^(restaurant|cafe|marketplace)$"]'],
+  nightlife: ['["amenity"~"^(bar|pub|nightclub)$"]'],
+  family: ['["tourism"~"^(zoo|theme_park|aquarium)$"]', '["leisure"="water_park"]']
+};
+
+// OpenTripMap kinds to normalized categories, checked in order
+const OPENTRIPMAP_CATEGORIES: [string, PlaceCategory][] = [
+  ['foods', 'food'],
+  ['nightclubs', 'nightlife'],
+  ['alcohol', 'nightlife'],
+  ['museums', 'museum'],
+  ['religion', 'religion'],
+  ['historic', 'historic'],
+  ['fortifications', 'historic'],
+  ['architecture', 'architecture'],
+  ['theatres_and_entertainments', 'culture'],
+  ['cultural', 'culture'],
+  ['view_points', 'viewpoint'],
+  ['natural', 'nature'],
+  ['amusements', 'entertainment'],
+  ['sport', 'entertainment']
+];
+
+/**
+ * Wrap a source id and its own id into a Place id
+ */
+function placeId(source: string, id: string | number): string {
+  return `${source}:${id}`;
+}
+
+/**
+ * Map OpenTripMap's comma-separated kinds to a category
+ */
+function categoryFromKinds(kinds: string): PlaceCategory {
+  const list = kinds.split(',');
+  const match = OPENTRIPMAP_CATEGORIES.find(([kind]) => list.includes(kind));
+  return match ? match[1] : 'other';
+}
+
+/**
+ * Map OSM tags to a category
+ */
+function categoryFromOsmTags(tags: Record<string, string>): PlaceCategory {
+  const tourism = tags.tourism;
+  if (tourism === 'museum' || tourism === 'gallery') return 'museum';
+  if (tourism === 'viewpoint') return 'viewpoint';
+  if (tourism === 'zoo' || tourism === 'theme_park' || tourism === 'aquarium') return 'entertainment';
+  if (tags.amenity === 'place_of_worship') return 'religion';
+  if (['restaurant', 'cafe', 'marketplace'].includes(tags.amenity)) return 'food';
+  if (['bar', 'pub', 'nightclub'].includes(tags.amenity)) return 'nightlife';
+  if (tags.amenity === 'theatre') return 'culture';
+  if (tags.leisure === 'water_park') return 'entertainment';
+  if (tags.historic) return 'historic';
+  if (tags.leisure === 'park' || tags.leisure === 'nature_reserve' || tags.natural) return 'nature';
+  if (tags.building || tags.man_made) return 'architecture';
+  return 'other';
+}
+
+/**
+ * Whether a Wikipedia title looks like a tourist place rather than infrastructure
+ * (conservative, to avoid false positives)
+ */
+function isLikelyAttraction(title: string): boolean {
+  const lower = title.toLowerCase();
+
+  // Exclude subway/metro stations (very specific patterns); keep historic and train stations
+  if (lower.includes('station') &&
+      (lower.includes('subway') || lower.includes('metro') || /line \d+/.test(lower) ||
+       lower.includes('mrt') || lower.includes('underground station'))) {
+    return false;
+  }
+
+  // Exclude highway interchanges and overpasses (not roads/streets in general)
+  if (lower.includes('interchange') || lower.includes('overpass') ||
+      lower.includes('underpass') || lower.includes('flyover')) {
+    return false;
+  }
+
+  // Exclude pure administrative divisions
+  if (/^.+ (district|subdistrict|county|province)$/.test(lower)) {
+    return false;
+  }
+
+  // Exclude generic infrastructure terminals, parking lots and garages
+  return !(lower.includes('bus terminal') || lower.includes('airport terminal') ||
+    lower.includes('parking') || lower.includes('car park'));
+}
+
+// OpenTripMap: rated tourist places, needs OPENTRIPMAP_API_KEY for reliable access
+const openTripMapSource: PlaceSource = {
+  id: 'opentripmap',
+  name: 'OpenTripMap',
+  async fetchPlaces(coords, filters) {
+    const apiKey = process.env.OPENTRIPMAP_API_KEY;
+    const keyParam = apiKey ? `&apikey=${encodeURIComponent(apiKey)}` : '';
+    const radiusMeters = filters.radiusKm * 1000;
+    const radii = Array.from(new Set([Math.min(OPENTRIPMAP_NEAR_RADIUS, radiusMeters), radiusMeters]));
+    const kinds = filters.interests.length > 0
+      ? filters.interests.map(interest => OPENTRIPMAP_INTEREST_KINDS[interest]).join(',')
+      : OPENTRIPMAP_DEFAULT_KINDS;
+
+    const results = await Promise.all(radii.map(radius =>
+      fetchGeoJson<OpenTripMapPlace[]>(
+        `https://api.opentripmap.com/0.1/en/places/radius?radius=${radius}&lon=${coords.lng}&lat=${coords.lat}&kinds=${kinds}&format=json&limit=20${keyParam}`,
+        `OpenTripMap radius ${radius}`
+      )
+    ));
+
+    // Don't cache when every request failed
+    if (results.every(data => !Array.isArray(data))) {
+      return null;
+    }
+
+    const unique = new Map<string, OpenTripMapPlace>();
+    for (const item of results.flatMap(data => Array.isArray(data) ? data : [])) {
+      if (item.name && item.name.trim() !== '') {
+        unique.set(item.xid, item);
+      }
+    }
+
+    return Array.from(unique.values()).map(item => ({
+      id: placeId('opentripmap', item.xid),
+      name: item.name.trim(),
+      coordinates: { lat: item.point.lat, lng: item.point.lon },
+      distance: item.dist,
+      category: categoryFromKinds(item.kinds || ''),
+      popularity: Math.min(1, Math.max(0, item.rate / OPENTRIPMAP_MAX_RATE)),
+      source: 'opentripmap',
+      sources: ['opentripmap'],
+      externalIds: {
+        xid: item.xid,
+        wikidata: item.wikidata,
+        osm: item.osm || undefined
+      }
+    }));
+  }
+};
+
+// Wikipedia geosearch: articles with coordinates, filtered to likely attractions
+const wikipediaSource: PlaceSource = {
+  id: 'wikipedia',
+  name: 'Wikipedia',
+  // Articles have no category, so interests are applied when the sources are merged
+  async fetchPlaces(coords, filters) {
+    const radius = Math.min(filters.radiusKm * 1000, WIKIPEDIA_MAX_RADIUS);
+    const data = await fetchGeoJson<{
+      query?: { geosearch?: { pageid: number; title: string; lat: number; lon: number; dist?: number }[] };
+    }>(
+      `https://en.wikipedia.org/w/api.php?action=query&list=geosearch&gscoord=${coords.lat}|${coords.lng}&gsradius=${radius}&gslimit=30&format=json`,
+      'Wikipedia geosearch'
+    );
+
+    if (!data) {
+      return null;
+    }
+
+    return (data.query?.geosearch || [])
+      .filter(page => isLikelyAttraction(page.title))
+      .map(page => ({
+        id: placeId('wikipedia', page.pageid),
+        name: page.title,
+        coordinates: { lat: page.lat, lng: page.lon },
+        distance: page.dist || 0,
+        category: 'other' as const,
+        source: 'wikipedia',
+        sources: ['wikipedia'],
+        externalIds: { wikipediaPageId: page.pageid }
+      }));
+  }
+};
+
+// OpenStreetMap via Overpass: named tourism, historic and park features
+const overpassSource: PlaceSource = {
+  id: 'osm',
+  name: 'OpenStreetMap',
+  async fetchPlaces(coords, filters) {
+    const around = `(around:${Math.min(filters.radiusKm * 1000, OVERPASS_MAX_RADIUS)},${coords.lat},${coords.lng})`;
+    const selectors = filters.interests.length > 0
+      ? filters.interests.flatMap(interest => OVERPASS_INTEREST_SELECTORS[interest])
+      : OVERPASS_DEFAULT_SELECTORS;
+    const query = `[out:json][timeout:10];(` +
+      selectors.map(selector => `nwr${selector}["name"]${around};`).join('') +
+      `);out center ${OVERPASS_LIMIT};`;
+
+    const data = await fetchGeoJson<{
+      elements?: {
+        type: string;
+        id: number;
+        lat?: number;
+        lon?: number;
+        center?: { lat: number; lon: number };
+        tags?: Record<string, string>;
+      }[];
+    }>('https://overpass-api.de/api/interpreter', 'Overpass', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: `data=${encodeURIComponent(query)}`
+    });
+
+    if (!data) {
+      return null;
+    }
+
+    const places: Place[] = [];
+    for (const element of data.elements || []) {
+      const lat = element.lat ?? element.center?.lat;
+      const lng = element.lon ?? element.center?.lon;
+      const tags = element.tags || {};
+      const name = tags['name:en'] || tags.name;
+      if (lat === undefined || lng === undefined || !name) {
+        continue;
+      }
+
+      const point = { lat, lng };
+      places.push({
+        id: placeId('osm', `${element.type}/${element.id}`),
+        name,
+        coordinates: point,
+        distance: Math.round(distanceMeters(coords, point)),
+        category: categoryFromOsmTags(tags),
+        source: 'osm',
+        sources: ['osm'],
+        externalIds: {
+          osm: `${element.type}/${element.id}`,
+          wikidata: tags.wikidata
+        },
+        details: {
+          description: tags.description,
+          openingHours: tags.opening_hours,
+          website: cleanUrl(tags.website || tags['contact:website'])
+        }
+      });
+    }
+
+    return places;
+  }
+};
+
+// Registered sources, in priority order: earlier sources win when merging duplicates
+const registry: PlaceSource[] = [openTripMapSource, wikipediaSource, overpassSource];
+
+/**
+ * Register a place source (replacing any source with the same id)
+ */
+export function registerPlaceSource(source: PlaceSource): void {
+  const index = registry.findIndex(existing => existing.id === source.id);
+  if (index >= 0) {
+    registry[index] = source;
+  } else {
+    registry.push(source);
+  }
+}
+
+/**
+ * Currently registered place sources, in priority order
+ */
+export function getPlaceSources(): PlaceSource[] {
+  return [...registry];
+}
+
+/**
+ * Lowercase a name and strip accents, punctuation and leading articles for comparison
+ */
+export function normalizeName(name: string): string {
+  return name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .replace(/^(the|la|le|les|el|il|der|die|das) /, '')
+    .trim();
+}
+
+/**
+ * Dice coefficient over character bigrams (0-1)
+ */
+function bigramSimilarity(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) {
+    return a === b ? 1 : 0;
+  }
+
+  const counts = new Map<string, number>();
+  for (let i = 0; i < a.length - 1; i++) {
+    const bigram = a.slice(i, i + 2);
+    counts.set(bigram, (counts.get(bigram) || 0) + 1);
+  }
+
+  let overlap = 0;
+  for (let i = 0; i < b.length - 1; i++) {
+    const bigram = b.slice(i, i + 2);
+    const count = counts.get(bigram) || 0;
+    if (count > 0) {
+      overlap++;
+      counts.set(bigram, count - 1);
+    }
+  }
+
+  return (2 * overlap) / (a.length + b.length - 2);
+}
+
+/**
+ * Whether two place names refer to the same place
+ * ("Eiffel Tower" / "Tour Eiffel" won't match, "Louvre" / "Louvre Museum" will)
+ */
+export function namesMatch(a: string, b: string): boolean {
+  const left = normalizeName(a);
+  const right = normalizeName(b);
+  if (!left || !right) {
+    return false;
+  }
+  if (left === right || left.includes(right) || right.includes(left)) {
+    return true;
+  }
+  return bigramSimilarity(left, right) >= NAME_SIMILARITY_THRESHOLD;
+}
+
+/**
+ * Whether two places from different sources are the same place
+ */
+function isSamePlace(a: Place, b: Place): boolean {
+  if (a.externalIds.wikidata && a.externalIds.wikidata === b.externalIds.wikidata) {
+    return true;
+  }
+  return distanceMeters(a.coordinates, b.coordinates) <= DUPLICATE_DISTANCE_METERS && namesMatch(a.name, b.name);
+}
+
+/**
+ * Overlay the defined fields of a preferred object onto a fallback
+ * (a plain spread would let undefined fields erase known values)
+ */
+export function mergeDefined<T extends object>(fallback: T, preferred: T): T {
+  const result = { ...fallback };
+  for (const [key, value] of Object.entries(preferred)) {
+    if (value !== undefined) {
+      Object.assign(result, { [key]: value });
+    }
+  }
+  return result;
+}
+
+/**
+ * Fold a duplicate into the place already kept: combine ids, sources and details,
+ * keep the best popularity and fill in a category the first source didn't know
+ */
+function mergeInto(kept: Place, duplicate: Place): Place {
+  const popularities = [kept.popularity, duplicate.popularity].filter((p): p is number => p !== undefined);
+
+  return {
+    ...kept,
+    category: kept.category === 'other' ? duplicate.category : kept.category,
+    popularity: popularities.length > 0 ? Math.max(...popularities) : undefined,
+    sources: Array.from(new Set([...kept.sources, ...duplicate.sources])),
+    externalIds: mergeDefined(duplicate.externalIds, kept.externalIds),
+    details: kept.details || duplicate.details
+      ? mergeDefined(duplicate.details || {}, kept.details || {})
+      : undefined
+  };
+}
+
+/**
+ * Merge places from every source, dropping duplicates
+ * Input is in source priority order, so the first report of a place is kept as the base
+ */
+function mergePlaces(places: Place[]): Place[] {
+  const merged: Place[] = [];
+
+  for (const place of places) {
+    const index = merged.findIndex(existing => isSamePlace(existing, place));
+    if (index >= 0) {
+      merged[index] = mergeInto(merged[index], place);
+    } else {
+      merged.push(place);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Ranking score: popularity plus a bonus for each additional source reporting the
+ * place and for matching one of the user's interests
+ */
+function placeScore(place: Place, wanted: PlaceCategory[]): number {
+  return (place.popularity ?? DEFAULT_POPULARITY) +
+    CORROBORATION_BONUS * (place.sources.length - 1) +
+    (wanted.includes(place.category) ? INTEREST_BONUS : 0);
+}
+
+/**
+ * Whether a place fits the filters: within the radius (and the drawn area, if any) and,
+ * when interests are chosen, in a wanted category (uncategorized places are kept, ranked below matches)
+ */
+function matchesFilters(place: Place, filters: MapSearchFilters, wanted: PlaceCategory[], area?: MapArea): boolean {
+  if (place.distance > filters.radiusKm * 1000 || (area && !isInArea(place.coordinates, area))) {
+    return false;
+  }
+  return wanted.length === 0 || place.category === 'other' || wanted.includes(place.category);
+}
+
+/**
+ * Query every source around a point, each cached per tile
+ * Every point in a tile shares the cached places, so sources are searched around
+ * the tile's center with the radius widened to cover the whole tile; callers
+ * measure and filter the places against the actual point
+ */
+function querySources(sources: PlaceSource[], coords: LocationCoordinates, filters: MapSearchFilters) {
+  const tile = geoTile('places', coords);
+  const tileFilters = { ...filters, radiusKm: filters.radiusKm + tile.radiusKm };
+
+  return Promise.all(sources.map(source =>
+    cachedGeoLookup('places', coords, () => source.fetchPlaces(tile.center, tileFilters), {
+      variant: `${source.id}-${filtersKey(filters)}`,
+      ttlMs: source.cacheTtlMs
+    })
+  ));
+}
+
+/**
+ * Merge, filter and rank places, keeping the best MAX_PLACES
+ */
+function rankPlaces(allPlaces: Place[], filters: MapSearchFilters, area?: MapArea): Place[] {
+  const wanted = wantedCategories(filters);
+  return mergePlaces(allPlaces)
+    .filter(place => matchesFilters(place, filters, wanted, area))
+    .sort((a, b) => {
+      // Higher score first, then closer
+      const scoreDiff = placeScore(b, wanted) - placeScore(a, wanted);
+      if (Math.abs(scoreDiff) > 1e-9) {
+        return scoreDiff;
+      }
+      return a.distance - b.distance;
+    })
+    .slice(0, MAX_PLACES);
+}
+
+/**
+ * Ids of the sources that contributed at least one of the places
+ */
+function contributingSources(sources: PlaceSource[], places: Place[]): string[] {
+  return sources
+    .map(source => source.id)
+    .filter(id => places.some(place => place.sources.includes(id)));
+}
+
+/**
+ * Fetch places from every registered source, merged, deduplicated, filtered and ranked
+ * For a drawn area, coords is its center and filters.radiusKm covers it; places outside
+ * the shape are dropped after the (shape-independent, cached) source lookups
+ * @returns sources - Source ids that contributed at least one place
+ */
+export async function fetchNearbyPlaces(coords: LocationCoordinates, filters: MapSearchFilters, area?: MapArea): Promise<{
+  places: Place[];
+  sources: string[];
+  cache: GeoCacheStatus;
+}> {
+  const sources = getPlaceSources();
+  const results = await querySources(sources, coords, filters);
+
+  const cache: GeoCacheStatus = {};
+  sources.forEach((source, i) => {
+    cache[source.id] = results[i].cache;
+  });
+
+  // Measure from the clicked point, since places were fetched around the tile's center
+  const allPlaces = results.flatMap(result => (result.value || []).map(place => ({
+    ...place,
+    distance: Math.round(distanceMeters(coords, place.coordinates))
+  })));
+
+  const places = rankPlaces(allPlaces, filters, area);
+
+  return { places, sources: contributingSources(sources, places), cache };
+}
+
+/**
+ * Fetch places along a route: every source is queried around each sample point
+ * (filters.radiusKm is the corridor width), a few sample points at a time, then places are measured against the
+ * route line itself, so distance is the offset from the route and routeKm is set
+ * A source counts as a cache hit only if every sample point was a hit
+ */
+export async function fetchPlacesAlongRoute(
+  route: LocationCoordinates[],
+  samples: LocationCoordinates[],
+  filters: MapSearchFilters
+): Promise<{
+  places: Place[];
+  sources: string[];
+  cache: GeoCacheStatus;
+}> {
+  const sources = getPlaceSources();
+  const lookups: Awaited<ReturnType<typeof querySources>>[] = [];
+  for (let i = 0; i < samples.length; i += ROUTE_SAMPLE_BATCH) {
+    const batch = samples.slice(i, i + ROUTE_SAMPLE_BATCH);
+    lookups.push(...await Promise.all(batch.map(sample => querySources(sources, sample, filters))));
+  }
+
+  const cache: GeoCacheStatus = {};
+  sources.forEach((source, i) => {
+    cache[source.id] = lookups.every(results => results[i].cache === 'hit') ? 'hit' : 'miss';
+  });
+
+  const allPlaces = lookups.flatMap(results => results.flatMap(result => result.value || [])).map(place => {
+    const { routeKm, offsetKm } = locateOnRoute(place.coordinates, route);
+    return { ...place, distance: Math.round(offsetKm * 1000), routeKm: Math.round(routeKm * 10) / 10 };
+  });
+
+  const places = rankPlaces(allPlaces, filters);
+
+  return { places, sources: contributingSources(sources, places), cache };
+}
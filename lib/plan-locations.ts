@@ -0,0 +1,160 @@
+import { createHash } from 'crypto';
+import { LocationContext, LocationCoordinates, PlanLocation, TravelPlan } from './types';
+import { cachedGeoLookup, cachedLookup } from './geo-cache';
+import { fetchGeoJson } from './geo-utils';
+import { isValidCoordinates } from './geodata';
+import { namesMatch } from './place-sources';
+import { isInArea } from './map-area';
+import { locateOnRoute } from './map-route';
+
+/**
+ * Pin map plans to coordinates
+ * A plan's destination is matched to one of the attractions it was generated
+ * from; otherwise it is forward geocoded with Nominatim, restricted to the
+ * region around the clicked point so a common name can't resolve abroad
+ * (and, for a drawn area or a route, to points inside the area or its corridor).
+ */
+
+// Kilometers per degree of latitude, to turn the search radius into a geocoding box
+const KM_PER_DEGREE = 111;
+
+// Smallest half-size of the geocoding box (degrees, ≈ 11 km)
+const MIN_BOX_DEGREES = 0.1;
+
+// Destinations geocoded without a box (plans that were never pinned) are kept for a week
+const UNBOUNDED_GEOCODE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * Cache key part for a geocoding query: a hash of the whole query, so names in any
+ * script and long names stay apart, and user text never ends up in a key
+ */
+function queryHash(query: string): string {
+  return createHash('sha1')
+    .update(query.normalize('NFC').trim().toLowerCase().replace(/\s+/g, ' '))
+    .digest('hex');
+}
+
+/**
+ * First Nominatim search result for a query, with extra search parameters
+ * Returns an empty object when nothing was found (cached too, so the same name isn't
+ * searched again) and null when the lookup failed
+ */
+async function nominatimSearch(query: string, params: string): Promise<LocationCoordinates | Record<string, never> | null> {
+  const data = await fetchGeoJson<{ lat?: string; lon?: string }[]>(
+    `https://nominatim.openstreetmap.org/search?format=json&limit=1${params}&q=${encodeURIComponent(query)}`,
+    'Nominatim plan geocode'
+  );
+
+  if (!Array.isArray(data)) {
+    return null;
+  }
+
+  const lat = parseFloat(data[0]?.lat ?? '');
+  const lng = parseFloat(data[0]?.lon ?? '');
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : {};
+}
+
+/**
+ * Forward geocode a destination within the search radius of the clicked point
+ */
+async function geocodeNear(query: string, clicked: LocationCoordinates, radiusKm: number): Promise<LocationCoordinates | null> {
+  const box = Math.max(MIN_BOX_DEGREES, radiusKm / KM_PER_DEGREE);
+
+  const { value } = await cachedGeoLookup('geocode', clicked, () => {
+    const viewbox = [
+      clicked.lng - box,
+      clicked.lat + box,
+      clicked.lng + box,
+      clicked.lat - box
+    ].join(',');
+
+    return nominatimSearch(query, `&bounded=1&viewbox=${viewbox}`);
+  }, { variant: `${radiusKm}km-${queryHash(query)}` });
+
+  return value && 'lat' in value ? value as LocationCoordinates : null;
+}
+
+/**
+ * Coordinates of a plan from either mode: its pin if it has one, otherwise its
+ * destination geocoded anywhere (chat mode plans carry only a destination and country)
+ */
+export async function locatePlan(plan: TravelPlan): Promise<LocationCoordinates | null> {
+  if (plan.location && isValidCoordinates(plan.location.coordinates)) {
+    return plan.location.coordinates;
+  }
+
+  const query = (plan.country ? `${plan.destination}, ${plan.country}` : plan.destination)
+    .trim()
+    .toLowerCase()
+    .replace(/\s+/g, ' ');
+
+  const { value } = await cachedLookup(
+    `geocode-${queryHash(query)}`,
+    UNBOUNDED_GEOCODE_TTL_MS,
+    () => nominatimSearch(query, '')
+  );
+
+  return value && 'lat' in value ? value as LocationCoordinates : null;
+}
+
+/**
+ * Whether a geocoded point lies where the attractions were searched: inside
+ * the drawn area, or within the corridor along the route
+ */
+function isWithinSearch(point: LocationCoordinates, context: LocationContext): boolean {
+  if (context.route) {
+    return locateOnRoute(point, context.route.points).offsetKm <= context.route.corridorKm;
+  }
+  return !context.area || isInArea(point, context.area);
+}
+
+/**
+ * Find where a plan's destination is
+ */
+async function resolvePlanLocation(
+  plan: TravelPlan,
+  context: LocationContext,
+  clicked: LocationCoordinates
+): Promise<PlanLocation | undefined> {
+  const attraction = context.attractions.find(place => namesMatch(place.name, plan.destination));
+  if (attraction) {
+    return { coordinates: attraction.coordinates, source: 'attraction' };
+  }
+
+  // Nominatim handles "Name" better than "Name, Country" for small places, so try the name first
+  const queries = [plan.destination, plan.country ? `${plan.destination}, ${plan.country}` : null]
+    .filter((query): query is string => !!query);
+
+  // Around a route's midpoint the box has to reach both ends
+  const radiusKm = context.route
+    ? Math.ceil(context.route.distanceKm / 2 + context.route.corridorKm)
+    : context.filters.radiusKm;
+
+  for (const query of queries) {
+    const coordinates = await geocodeNear(query, clicked, radiusKm);
+    if (coordinates && isWithinSearch(coordinates, context)) {
+      return { coordinates, source: 'geocoded' };
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Attach a location to every plan that can be resolved
+ * Plans are resolved one after another rather than in parallel, to go easy on Nominatim's rate limit
+ */
+export async function resolvePlanLocations(
+  plans: TravelPlan[],
+  context: LocationContext,
+  clicked: LocationCoordinates
+): Promise<TravelPlan[]> {
+  const resolved: TravelPlan[] = [];
+
+  for (const plan of plans) {
+    const location = await resolvePlanLocation(plan, context, clicked);
+    resolved.push(location ? { ...plan, location } : plan);
+  }
+
+  return resolved;
+}
@@ -0,0 +1,113 @@
+import { describe, expect, it } from 'vitest';
+import { diffPlans, mentionsCurrentPlans, parseRefinementDecision } from './plan-refinement';
+import { SchemaValidationError } from './errors';
+import { makePlan } from './test-fixtures';
+
+const currentPlans = [makePlan({ id: 'plan-1' }), makePlan({ id: 'plan-2', destination: 'Cascais' })];
+
+describe('parseRefinementDecision', () => {
+  it('returns the refined plan under the id of the plan it replaces', () => {
+    const refined = { ...makePlan({ destination: 'Cascais' }), id: 'something-else' };
+    const decision = parseRefinementDecision(
+      JSON.stringify({ action: 'refine', planId: 'plan-2', plan: refined, message: ' Made it cheaper ' }),
+      currentPlans
+    );
+
+    expect(decision).toMatchObject({ action: 'refine', planId: 'plan-2', message: 'Made it cheaper' });
+    expect(decision.action === 'refine' && decision.plan.id).toBe('plan-2');
+  });
+
+  it('writes a default message for a refinement without one', () => {
+    const decision = parseRefinementDecision(
+      JSON.stringify({ action: 'refine', planId: 'plan-1', plan: makePlan() }),
+      currentPlans
+    );
+
+    expect(decision.action === 'refine' && decision.message).toBe("I've updated Sintra.");
+  });
+
+  it('reads replies and regenerate requests', () => {
+    expect(parseRefinementDecision('{"action": "regenerate"}', currentPlans)).toEqual({ action: 'regenerate' });
+    expect(parseRefinementDecision('{"action": "reply", "message": "Yes, it is."}', currentPlans))
+      .toEqual({ action: 'reply', message: 'Yes, it is.' });
+  });
+
+  it('rejects unknown actions, unknown plans, empty replies and invalid plans', () => {
+    const reject = (decision: object) => expect(() => parseRefinementDecision(JSON.stringify(decision), currentPlans))
+      .toThrow(SchemaValidationError);
+
+    reject({ action: 'delete' });
+    reject({ action: 'refine', planId: 'plan-9', plan: makePlan() });
+    reject({ action: 'reply', message: ' ' });
+    reject({ action: 'refine', planId: 'plan-1', plan: { ...makePlan(), highlights: [] } });
+  });
+});
+
+describe('mentionsCurrentPlans', () => {
+  it('spots explicit references to a plan', () => {
+    expect(mentionsCurrentPlans('Make plan 2 cheaper', currentPlans)).toBe(true);
+    expect(mentionsCurrentPlans('Can option three be shorter?', currentPlans)).toBe(true);
+    expect(mentionsCurrentPlans('I like the second option', currentPlans)).toBe(true);
+    expect(mentionsCurrentPlans('Is #1 good for kids?', currentPlans)).toBe(true);
+    expect(mentionsCurrentPlans('Can this trip fit in a morning?', currentPlans)).toBe(true);
+  });
+
+  it('spots destinations and highlights by name', () => {
+    expect(mentionsCurrentPlans('How busy is cascais in May?', currentPlans)).toBe(true);
+    expect(mentionsCurrentPlans('Can you swap Pena Palace for a beach?', currentPlans)).toBe(true);
+  });
+
+  it('ignores vague follow-ups that could be about anything', () => {
+    expect(mentionsCurrentPlans('The first one', currentPlans)).toBe(false);
+    expect(mentionsCurrentPlans('Cheaper please', currentPlans)).toBe(false);
+    expect(mentionsCurrentPlans('Can you make it shorter instead?', currentPlans)).toBe(false);
+    expect(mentionsCurrentPlans('I want to change my dates', currentPlans)).toBe(false);
+    expect(mentionsCurrentPlans('Show me some other options', currentPlans)).toBe(false);
+    expect(mentionsCurrentPlans('None of these plans work for me', currentPlans)).toBe(false);
+  });
+
+  it('only matches names as whole words', () => {
+    const plans = [makePlan({ destination: 'Ely', highlights: ['Art'] })];
+
+    expect(mentionsCurrentPlans('We could start early, preferably', plans)).toBe(false);
+    expect(mentionsCurrentPlans('Is the art in Ely worth it?', plans)).toBe(true);
+  });
+
+  it('leaves unrelated messages alone', () => {
+    expect(mentionsCurrentPlans('Actually I would rather go to Rome in June', currentPlans)).toBe(false);
+    expect(mentionsCurrentPlans('My budget is 500 euros', currentPlans)).toBe(false);
+  });
+});
+
+describe('diffPlans', () => {
+  it('reports nothing for identical plans', () => {
+    expect(diffPlans(makePlan(), makePlan())).toEqual([]);
+  });
+
+  it('reports changed values and list items in card order', () => {
+    const before = makePlan();
+    const after = makePlan({
+      budget: { estimated: 64, currency: 'EUR', breakdown: { admission: 30, food: 9, transportation: 25, other: 0 } },
+      activities: ['walk the palace gardens', 'Ride the tram'],
+      duration: { startDate: '2026-06-01', endDate: '2026-06-01', nights: 0, hours: 1 }
+    });
+
+    expect(diffPlans(before, after)).toEqual([
+      { label: 'Budget', before: '€80', after: '€64' },
+      { label: 'Duration', before: '4 hours', after: '1 hour' },
+      { label: 'Food budget', before: '€25', after: '€9' },
+      { label: 'Other costs', before: 'none', after: '€0' },
+      { label: 'Things to do', added: ['Ride the tram'], removed: [] }
+    ]);
+  });
+
+  it('describes multi-night plans by nights and date range', () => {
+    const before = makePlan({ duration: { startDate: '2026-06-01', endDate: '2026-06-01', nights: 0 } });
+    const after = makePlan({ duration: { startDate: '2026-06-01', endDate: '2026-06-03', nights: 2 } });
+
+    expect(diffPlans(before, after)).toEqual([
+      { label: 'Duration', before: 'Day trip', after: '2 nights' },
+      { label: 'Dates', before: '2026-06-01', after: '2026-06-01 – 2026-06-03' }
+    ]);
+  });
+});
@@ -0,0 +1,184 @@
+import { PlanChange, TravelPlan } from './types';
+import { extractJsonObject, parseTravelPlan } from './travel-plan-schema';
+import { SchemaValidationError } from './errors';
+
+/**
+ * Follow-ups on recommendations already on screen ("make plan 2 cheaper",
+ * "swap the museum for something outdoors")
+ * The model decides whether a message edits one plan, asks for new recommendations
+ * or is just a question; edited plans keep their id, and the changes are listed
+ * field by field for the panel
+ */
+
+// What the model decided to do with a follow-up
+export type RefinementDecision =
+  | { action: 'refine'; planId: string; plan: TravelPlan; message: string }
+  | { action: 'regenerate' }
+  | { action: 'reply'; message: string };
+
+// Explicit references to one of the plans on screen: "plan 2", "option three", "#1",
+// "the second plan", "this trip" (a bare "the first one" or "cheaper" isn't enough)
+const PLAN_REFERENCE_PATTERNS = [
+  /#\d\b/,
+  /\b(plan|option|trip|recommendation)\s*(no\.?\s*)?(\d+|one|two|three|four|five)\b/i,
+  /\b(first|second|third|fourth|fifth|last|this|that)\s+(plan|option|trip|recommendation)\b/i
+];
+
+// Display labels for budget breakdown entries
+const BREAKDOWN_LABELS: Record<keyof TravelPlan['budget']['breakdown'], string> = {
+  admission: 'Admission',
+  activities: 'Activities budget',
+  food: 'Food budget',
+  transportation: 'Transport budget',
+  flights: 'Flights',
+  accommodation: 'Accommodation budget',
+  other: 'Other costs'
+};
+
+/**
+ * Whether a name appears in a text as whole words, in any script
+ */
+function containsName(text: string, name: string): boolean {
+  const escaped = name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`(^|[^\\p{L}\\p{N}])${escaped}($|[^\\p{L}\\p{N}])`, 'iu').test(text);
+}
+
+/**
+ * Whether a follow-up is about the plans on screen: it refers to a plan explicitly,
+ * or names a plan's destination or one of its highlights
+ * Other messages skip the refinement call and go straight to the normal phases
+ */
+export function mentionsCurrentPlans(message: string, currentPlans: TravelPlan[]): boolean {
+  if (PLAN_REFERENCE_PATTERNS.some(pattern => pattern.test(message))) {
+    return true;
+  }
+
+  return currentPlans.some(plan =>
+    [plan.destination, ...plan.highlights]
+      .map(name => name.trim())
+      .some(name => name.length >= 3 && containsName(message, name))
+  );
+}
+
+/**
+ * Parse the model's decision about a follow-up
+ * A refined plan must replace one of the current plans, and takes over its id
+ * @throws SchemaValidationError when the decision or the edited plan is unusable
+ */
+export function parseRefinementDecision(rawContent: string, currentPlans: TravelPlan[]): RefinementDecision {
+  const input = extractJsonObject(rawContent);
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    throw new SchemaValidationError('Invalid response format from AI', [
+      { path: '$', message: 'must be a JSON object' }
+    ]);
+  }
+
+  const { action, planId, plan, message } = input as Record<string, unknown>;
+  const text = typeof message === 'string' ? message.trim() : '';
+
+  if (action === 'regenerate') {
+    return { action };
+  }
+
+  if (action === 'reply') {
+    if (!text) {
+      throw new SchemaValidationError('Invalid refinement format: message is required', [
+        { path: 'message', message: 'is required' }
+      ]);
+    }
+    return { action, message: text };
+  }
+
+  if (action !== 'refine') {
+    throw new SchemaValidationError('Invalid refinement format: unknown action', [
+      { path: 'action', message: 'must be "refine", "regenerate" or "reply"' }
+    ]);
+  }
+
+  const original = currentPlans.find(current => current.id === planId);
+  if (!original) {
+    const ids = currentPlans.map(current => `"${current.id}"`).join(', ');
+    throw new SchemaValidationError(`Invalid refinement format: planId must be one of ${ids}`, [
+      { path: 'planId', message: `must be one of ${ids}` }
+    ]);
+  }
+
+  const refined = { ...parseTravelPlan(plan, 'plan').value, id: original.id };
+  return { action, planId: original.id, plan: refined, message: text || `I've updated ${refined.destination}.` };
+}
+
+/**
+ * Format an amount in the plan's currency, falling back to "120 XYZ" for unknown codes
+ */
+function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat('en-US', { style: 'currency', currency, maximumFractionDigits: 0 }).format(amount);
+  } catch {
+    return `${Math.round(amount)} ${currency}`;
+  }
+}
+
+function formatDuration(duration: TravelPlan['duration']): string {
+  if (duration.hours) {
+    return `${duration.hours} ${duration.hours === 1 ? 'hour' : 'hours'}`;
+  }
+  return duration.nights === 0 ? 'Day trip' : `${duration.nights} ${duration.nights === 1 ? 'night' : 'nights'}`;
+}
+
+function formatDates(duration: TravelPlan['duration']): string {
+  return duration.startDate === duration.endDate ? duration.startDate : `${duration.startDate} – ${duration.endDate}`;
+}
+
+/**
+ * Field-by-field changes between a plan and its refined version, in card order
+ * Single values report before/after; lists report the items added and removed
+ */
+export function diffPlans(before: TravelPlan, after: TravelPlan): PlanChange[] {
+  const changes: PlanChange[] = [];
+
+  const value = (label: string, old: string, updated: string) => {
+    if (old.trim() !== updated.trim()) {
+      changes.push({ label, before: old, after: updated });
+    }
+  };
+
+  const list = (label: string, old: string[], updated: string[]) => {
+    const key = (item: string) => item.trim().toLowerCase();
+    const oldKeys = new Set(old.map(key));
+    const updatedKeys = new Set(updated.map(key));
+    const added = updated.filter(item => !oldKeys.has(key(item)));
+    const removed = old.filter(item => !updatedKeys.has(key(item)));
+
+    if (added.length > 0 || removed.length > 0) {
+      changes.push({ label, added, removed });
+    }
+  };
+
+  value('Destination', before.destination, after.destination);
+  value('Country', before.country, after.country);
+  value('Budget', formatMoney(before.budget.estimated, before.budget.currency), formatMoney(after.budget.estimated, after.budget.currency));
+  value('Duration', formatDuration(before.duration), formatDuration(after.duration));
+  value('Dates', formatDates(before.duration), formatDates(after.duration));
+
+  for (const [field, label] of Object.entries(BREAKDOWN_LABELS) as [keyof TravelPlan['budget']['breakdown'], string][]) {
+    const old = before.budget.breakdown[field];
+    const updated = after.budget.breakdown[field];
+    if (old !== updated) {
+      value(
+        label,
+        old === undefined ? 'none' : formatMoney(old, before.budget.currency),
+        updated === undefined ? 'none' : formatMoney(updated, after.budget.currency)
+      );
+    }
+  }
+
+  list('Key attractions', before.highlights, after.highlights);
+  list('Things to do', before.activities, after.activities);
+  value('Accommodation', before.accommodation.type, after.accommodation.type);
+  value('Getting there', before.transportation.arrival, after.transportation.arrival);
+  value('Getting around', before.transportation.local, after.transportation.local);
+  list('Best for', before.bestFor, after.bestFor);
+  list('Good to know', before.considerations, after.considerations);
+
+  return changes;
+}
@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyPreferenceOverrides,
+  emptyPreferences,
+  getMissingSlots,
+  isReadyForRecommendations,
+  parseTravelPreferences,
+  toBasedOnPreferences
+} from './preferences';
+
+describe('parseTravelPreferences', () => {
+  it('normalizes the extraction output', () => {
+    const preferences = parseTravelPreferences(JSON.stringify({
+      destination: ' Lisbon ',
+      dates: { start: '2026-06-01', end: 'null', description: null },
+      budget: { amount: '$1,500', currency: 'eur', description: '' },
+      interests: ['food', ' ', 'museums'],
+      constraints: [],
+      partySize: '2'
+    }));
+
+    expect(preferences).toEqual({
+      destination: 'Lisbon',
+      dates: { start: '2026-06-01' },
+      budget: { amount: 1500, currency: 'EUR' },
+      interests: ['food', 'museums'],
+      constraints: [],
+      partySize: 2
+    });
+  });
+
+  it('drops placeholders and unusable values', () => {
+    const preferences = parseTravelPreferences(JSON.stringify({
+      destination: 'unknown',
+      dates: { start: 'someday' },
+      budget: { amount: 0, currency: 'dollars' },
+      partySize: 1.5
+    }));
+
+    expect(preferences).toEqual(emptyPreferences());
+  });
+});
+
+describe('applyPreferenceOverrides', () => {
+  it('lets edited slots win and null clear a slot', () => {
+    const extracted = parseTravelPreferences(JSON.stringify({
+      destination: 'Lisbon',
+      budget: { amount: 1500, currency: 'EUR' },
+      interests: ['food']
+    }));
+
+    const preferences = applyPreferenceOverrides(extracted, { destination: 'Porto', budget: null });
+
+    expect(preferences.destination).toBe('Porto');
+    expect(preferences.budget).toBeUndefined();
+    expect(preferences.interests).toEqual(['food']);
+  });
+
+  it('returns the preferences unchanged without overrides', () => {
+    const preferences = emptyPreferences();
+    expect(applyPreferenceOverrides(preferences, undefined)).toBe(preferences);
+  });
+});
+
+describe('getMissingSlots and isReadyForRecommendations', () => {
+  it('lists missing slots in priority order', () => {
+    expect(getMissingSlots(emptyPreferences())).toEqual(['destination', 'dates', 'budget', 'interests', 'partySize']);
+    expect(getMissingSlots({ ...emptyPreferences(), destination: 'Lisbon', partySize: 2 })).toEqual(['dates', 'budget', 'interests']);
+  });
+
+  it('needs a destination and either dates or a budget', () => {
+    expect(isReadyForRecommendations({ ...emptyPreferences(), destination: 'Lisbon' })).toBe(false);
+    expect(isReadyForRecommendations({ ...emptyPreferences(), budget: { amount: 500, currency: 'USD' } })).toBe(false);
+    expect(isReadyForRecommendations({ ...emptyPreferences(), destination: 'Lisbon', dates: { description: 'next summer' } })).toBe(true);
+  });
+});
+
+describe('toBasedOnPreferences', () => {
+  it('describes the budget and dates', () => {
+    expect(toBasedOnPreferences({
+      ...emptyPreferences(),
+      budget: { amount: 1500, currency: 'EUR', description: 'mid-range' },
+      dates: { start: '2026-06-01', end: '2026-06-07' },
+      interests: ['food']
+    })).toEqual({ budget: '1500 EUR', dates: '2026-06-01 to 2026-06-07', interests: ['food'], constraints: [] });
+
+    expect(toBasedOnPreferences({
+      ...emptyPreferences(),
+      budget: { currency: 'USD', description: 'cheap' },
+      dates: { description: 'next summer' }
+    })).toMatchObject({ budget: 'cheap', dates: 'next summer' });
+  });
+});
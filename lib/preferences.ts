@@ -0,0 +1,249 @@
+import { Message, PreferenceOverrides, RecommendationResponse, TravelPreferences } from './types';
+import { chatWithFallback } from './model-fallback';
+import { InvalidResponseError } from './errors';
+import { extractJsonObject } from './travel-plan-schema';
+import { UsageTracker } from './usage';
+
+/**
+ * Travel preference (slot) extraction
+ * Turns the conversation into a typed TravelPreferences object with a small
+ * JSON-mode LLM call; phase decisions and recommendation metadata derive from it
+ */
+
+// Per-call LLM timeout for slot extraction (short JSON answer)
+const EXTRACTION_TIMEOUT_MS = 15000;
+
+// Heading the mock provider uses to recognise extraction calls
+const PREFERENCE_EXTRACTION_MARKER = 'TASK: Travel Preference Extraction';
+
+// Slots the information gathering phase asks about, in priority order
+export type PreferenceSlot = 'destination' | 'dates' | 'budget' | 'interests' | 'partySize';
+
+/**
+ * Empty preferences (nothing known yet)
+ */
+export function emptyPreferences(): TravelPreferences {
+  return { interests: [], constraints: [] };
+}
+
+/**
+ * Construct system prompt for preference extraction
+ */
+function getExtractionPrompt(): string {
+  return `${PREFERENCE_EXTRACTION_MARKER}
+
+Read the conversation between a user and a travel advisor and extract the user's travel preferences.
+
+RULES:
+- Only include information the USER explicitly stated or clearly agreed to
+- Use null for anything that is unknown, vague or negated (e.g. "I'm planning nothing" gives no dates)
+- Dates: use YYYY-MM-DD when a specific day is known, otherwise describe the timeframe (e.g. "next summer", "in 3 weeks")
+- Budget: amount is a number for the whole trip, currency is a 3-letter ISO code
+- Interests and constraints are short phrases (e.g. "hiking", "wheelchair accessible", "vegetarian")
+
+Respond with ONLY a valid JSON object in this format, no additional text:
+{
+  "destination": "City, region, country or type of place, or null",
+  "dates": { "start": "YYYY-MM-DD or null", "end": "YYYY-MM-DD or null", "description": "timeframe in words or null" },
+  "budget": { "amount": 1500, "currency": "USD", "description": "budget in words or null" },
+  "interests": ["interest1"],
+  "constraints": ["constraint1"],
+  "partySize": 2
+}`;
+}
+
+/**
+ * Extract travel preferences from the conversation
+ * Unparseable output is treated as "nothing known yet" so the conversation can continue;
+ * provider errors (rate limits, timeouts...) propagate to the caller
+ */
+export async function extractPreferences(
+  messages: Message[],
+  signal: AbortSignal | undefined,
+  tracker?: UsageTracker
+): Promise<TravelPreferences> {
+  const transcript = messages
+    .filter(m => m.role === 'user' || m.role === 'assistant')
+    .map(m => `${m.role === 'user' ? 'User' : 'Advisor'}: ${m.content}`)
+    .join('\n');
+
+  if (!transcript) {
+    return emptyPreferences();
+  }
+
+  try {
+    const { result } = await chatWithFallback(
+      [
+        { role: 'system', content: getExtractionPrompt(), timestamp: Date.now() },
+        { role: 'user', content: transcript, timestamp: Date.now() }
+      ],
+      {
+        temperature: 0,
+        maxTokens: 300,
+        responseFormat: 'json',
+        timeoutMs: EXTRACTION_TIMEOUT_MS,
+        signal
+      },
+      'extraction',
+      parseTravelPreferences,
+      tracker
+    );
+
+    return result;
+  } catch (error) {
+    if (error instanceof InvalidResponseError) {
+      console.warn('[Preferences] Could not parse extracted preferences:', error.message);
+      return emptyPreferences();
+    }
+    throw error;
+  }
+}
+
+/**
+ * Parse and normalize the extraction output
+ * Null, empty and placeholder values are dropped rather than rejected
+ */
+export function parseTravelPreferences(rawContent: string): TravelPreferences {
+  const parsed = extractJsonObject(rawContent);
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new InvalidResponseError('Extracted preferences must be a JSON object');
+  }
+
+  return normalizePreferences(parsed as Record<string, unknown>);
+}
+
+/**
+ * Apply the slots the user edited in the UI on top of the extracted preferences
+ * Overrides are normalized the same way as model output since they come from the client
+ */
+export function applyPreferenceOverrides(
+  preferences: TravelPreferences,
+  overrides: PreferenceOverrides | undefined
+): TravelPreferences {
+  if (!overrides || typeof overrides !== 'object') {
+    return preferences;
+  }
+
+  return normalizePreferences({ ...preferences, ...overrides });
+}
+
+/**
+ * Normalize a loosely-typed preferences object
+ */
+function normalizePreferences(raw: Record<string, unknown>): TravelPreferences {
+  const preferences = emptyPreferences();
+
+  const destination = cleanString(raw.destination);
+  if (destination) {
+    preferences.destination = destination;
+  }
+
+  if (raw.dates && typeof raw.dates === 'object') {
+    const dates = raw.dates as Record<string, unknown>;
+    const start = cleanDate(dates.start);
+    const end = cleanDate(dates.end);
+    const description = cleanString(dates.description);
+    if (start || end || description) {
+      preferences.dates = {
+        ...(start && { start }),
+        ...(end && { end }),
+        ...(description && { description })
+      };
+    }
+  }
+
+  if (raw.budget && typeof raw.budget === 'object') {
+    const budget = raw.budget as Record<string, unknown>;
+    const amount = typeof budget.amount === 'number'
+      ? budget.amount
+      : parseFloat(String(budget.amount ?? '').replace(/[^\d.]/g, ''));
+    const currency = cleanString(budget.currency)?.toUpperCase();
+    const description = cleanString(budget.description);
+    if ((Number.isFinite(amount) && amount > 0) || description) {
+      preferences.budget = {
+        ...(Number.isFinite(amount) && amount > 0 && { amount }),
+        currency: currency && /^[A-Z]{3}$/.test(currency) ? currency : 'USD',
+        ...(description && { description })
+      };
+    }
+  }
+
+  preferences.interests = cleanStringArray(raw.interests);
+  preferences.constraints = cleanStringArray(raw.constraints);
+
+  const partySize = Number(raw.partySize);
+  if (Number.isInteger(partySize) && partySize > 0) {
+    preferences.partySize = partySize;
+  }
+
+  return preferences;
+}
+
+/**
+ * Slots still missing, in the order the advisor should ask about them
+ */
+export function getMissingSlots(preferences: TravelPreferences): PreferenceSlot[] {
+  const missing: PreferenceSlot[] = [];
+
+  if (!preferences.destination) missing.push('destination');
+  if (!preferences.dates) missing.push('dates');
+  if (!preferences.budget) missing.push('budget');
+  if (preferences.interests.length === 0) missing.push('interests');
+  if (!preferences.partySize) missing.push('partySize');
+
+  return missing;
+}
+
+/**
+ * Need at least a destination and one of budget or dates to generate recommendations
+ */
+export function isReadyForRecommendations(preferences: TravelPreferences): boolean {
+  return !!preferences.destination && (!!preferences.budget || !!preferences.dates);
+}
+
+/**
+ * Describe the known preferences as a budget/dates/interests/constraints summary
+ * for RecommendationResponse metadata
+ */
+export function toBasedOnPreferences(
+  preferences: TravelPreferences
+): RecommendationResponse['metadata']['basedOnPreferences'] {
+  return {
+    budget: formatBudget(preferences),
+    dates: formatDates(preferences),
+    interests: preferences.interests,
+    constraints: preferences.constraints
+  };
+}
+
+function formatBudget(preferences: TravelPreferences): string | undefined {
+  const budget = preferences.budget;
+  if (!budget) return undefined;
+  if (budget.amount !== undefined) return `${budget.amount} ${budget.currency}`;
+  return budget.description;
+}
+
+function formatDates(preferences: TravelPreferences): string | undefined {
+  const dates = preferences.dates;
+  if (!dates) return undefined;
+  if (dates.start && dates.end && dates.start !== dates.end) return `${dates.start} to ${dates.end}`;
+  return dates.start || dates.end || dates.description;
+}
+
+function cleanString(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined;
+  const trimmed = value.trim();
+  // Models sometimes echo placeholders instead of null
+  if (!trimmed || /^(null|none|unknown|n\/a|not specified)$/i.test(trimmed)) return undefined;
+  return trimmed;
+}
+
+function cleanDate(value: unknown): string | undefined {
+  const date = cleanString(value);
+  return date && /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : undefined;
+}
+
+function cleanStringArray(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  return value.map(cleanString).filter((item): item is string => !!item);
+}
@@ -0,0 +1,108 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NextRequest } from 'next/server';
+import { getClientKey, RateLimiter } from './rate-limit';
+
+function requestWith(headers: Record<string, string>): NextRequest {
+  return new NextRequest('http://localhost/api/assistant', { headers });
+}
+
+describe('RateLimiter', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-06-01T12:00:00Z'));
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('allows a burst up to the capacity, then refuses with a retry delay', () => {
+    const limiter = new RateLimiter('test', { capacity: 3, refillPerMinute: 6 });
+
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, true]);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfter: 10 });
+  });
+
+  it('refills continuously up to the capacity', () => {
+    const limiter = new RateLimiter('test', { capacity: 2, refillPerMinute: 6 });
+    limiter.take('a');
+    limiter.take('a');
+
+    vi.advanceTimersByTime(5000);
+    expect(limiter.take('a')).toEqual({ allowed: false, retryAfter: 5 });
+
+    vi.advanceTimersByTime(5000);
+    expect(limiter.take('a').allowed).toBe(true);
+
+    vi.advanceTimersByTime(60 * 60 * 1000);
+    expect([1, 2, 3].map(() => limiter.take('a').allowed)).toEqual([true, true, false]);
+  });
+
+  it('keeps a bucket per client', () => {
+    const limiter = new RateLimiter('test', { capacity: 1, refillPerMinute: 1 });
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+    expect(limiter.take('b').allowed).toBe(true);
+  });
+
+  it('gives refunded tokens back, without exceeding the capacity', () => {
+    const limiter = new RateLimiter('test', { capacity: 1, refillPerMinute: 1 });
+
+    limiter.take('a');
+    limiter.refund('a');
+    limiter.refund('a');
+
+    expect(limiter.take('a').allowed).toBe(true);
+    expect(limiter.take('a').allowed).toBe(false);
+  });
+});
+
+describe('getClientKey', () => {
+  // Tests that stub the environment import a fresh copy of the module
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it('uses the address the trusted proxy saw, not what the client sent', async () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '1');
+    const { getClientKey: getKey } = await import('./rate-limit');
+
+    expect(getKey(requestWith({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getKey(requestWith({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7' }))).toBe('203.0.113.7');
+    expect(getKey(requestWith({ 'x-real-ip': '203.0.113.8' }))).toBe('203.0.113.8');
+  });
+
+  it('skips one entry per extra trusted proxy', async () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '2');
+    const { getClientKey: getKey } = await import('./rate-limit');
+
+    expect(getKey(requestWith({ 'x-forwarded-for': '1.2.3.4, 203.0.113.7, 10.0.0.2' }))).toBe('203.0.113.7');
+    expect(getKey(requestWith({ 'x-forwarded-for': '203.0.113.7' }))).toBe('203.0.113.7');
+  });
+
+  it('ignores forwarding headers unless proxies are trusted', () => {
+    expect(getClientKey(requestWith({ 'x-forwarded-for': '203.0.113.7' }))).toBe('anonymous');
+    expect(getClientKey(requestWith({ 'x-real-ip': '203.0.113.8' }))).toBe('anonymous');
+  });
+
+  it('puts unidentified clients in one bucket whatever headers they send', () => {
+    const firefox = getClientKey(requestWith({ 'user-agent': 'Firefox', 'accept-language': 'en' }));
+    const chrome = getClientKey(requestWith({ 'user-agent': 'Chrome', 'accept-language': 'de' }));
+
+    expect(chrome).toBe(firefox);
+  });
+
+  it('falls back to the shared bucket when a trusted proxy sent no address', async () => {
+    vi.stubEnv('RATE_LIMIT_TRUSTED_PROXIES', '1');
+    const { getClientKey: getKey } = await import('./rate-limit');
+
+    expect(getKey(requestWith({ 'user-agent': 'Firefox' }))).toBe('anonymous');
+  });
+});
@@ -0,0 +1,189 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ErrorResponse } from './types';
+import { errorResponse } from './api-errors';
+
+/**
+ * Token-bucket rate limiting for API routes
+ * Each client (by IP) gets a bucket per limiter that refills continuously;
+ * a request takes one token. Buckets live in memory per server instance.
+ * Client IPs come from trusted proxies only (RATE_LIMIT_TRUSTED_PROXIES); without
+ * one, every client shares a single bucket per limiter.
+ */
+
+// Bucket size (burst) and refill rate
+interface RateLimitConfig {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+// Most buckets kept per limiter before the least recently used are dropped
+const MAX_BUCKETS = 10000;
+
+// Proxies in front of the app that append to X-Forwarded-For (1 on Vercel or behind nginx);
+// 0 (the default) ignores forwarding headers, which any client can set
+const TRUSTED_PROXIES = parseTrustedProxies(process.env.RATE_LIMIT_TRUSTED_PROXIES);
+
+// Bucket shared by every client whose address isn't known
+const SHARED_CLIENT_KEY = 'anonymous';
+
+/**
+ * Read the trusted proxy count, defaulting to none
+ */
+function parseTrustedProxies(value: string | undefined): number {
+  const count = parseInt(value ?? '', 10);
+  return Number.isInteger(count) && count >= 0 ? count : 0;
+}
+
+/**
+ * Read a "capacity/refillPerMinute" override like "10/6" from the environment
+ */
+function configFromEnv(envVar: string, fallback: RateLimitConfig): RateLimitConfig {
+  const match = (process.env[envVar] || '').match(/^\s*(\d+)\s*\/\s*(\d+(?:\.\d+)?)\s*$/);
+  if (!match) {
+    return fallback;
+  }
+  return { capacity: parseInt(match[1], 10), refillPerMinute: parseFloat(match[2]) };
+}
+
+/**
+ * One token bucket per client key
+ */
+export class RateLimiter {
+  private name: string;
+  private config: RateLimitConfig;
+  private buckets = new Map<string, Bucket>();
+
+  constructor(name: string, config: RateLimitConfig) {
+    this.name = name;
+    this.config = config;
+  }
+
+  /**
+   * Refill a client's bucket for the time elapsed since it was last used
+   */
+  private refill(key: string, now: number): Bucket {
+    const { capacity, refillPerMinute } = this.config;
+    const bucket = this.buckets.get(key) || { tokens: capacity, updatedAt: now };
+
+    const elapsedMinutes = (now - bucket.updatedAt) / 60000;
+    bucket.tokens = Math.min(capacity, bucket.tokens + elapsedMinutes * refillPerMinute);
+    bucket.updatedAt = now;
+
+    // Re-insert so the Map stays ordered by most recent use, then evict the oldest
+    this.buckets.delete(key);
+    this.buckets.set(key, bucket);
+    if (this.buckets.size > MAX_BUCKETS) {
+      const oldest = this.buckets.keys().next().value;
+      if (oldest !== undefined) {
+        this.buckets.delete(oldest);
+      }
+    }
+
+    return bucket;
+  }
+
+  /**
+   * Take a token for the client
+   * @returns retryAfter - Seconds until a token is available when the request is refused
+   */
+  take(key: string): { allowed: boolean; retryAfter?: number } {
+    const bucket = this.refill(key, Date.now());
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return { allowed: true };
+    }
+
+    const retryAfter = Math.ceil(((1 - bucket.tokens) / this.config.refillPerMinute) * 60);
+    console.warn(`[RateLimit] ${this.name} limit reached for ${key}, retry in ${retryAfter}s`);
+    return { allowed: false, retryAfter: Math.max(1, retryAfter) };
+  }
+
+  /**
+   * Give a token back, e.g. when the request was answered from a cache
+   */
+  refund(key: string): void {
+    const bucket = this.refill(key, Date.now());
+    bucket.tokens = Math.min(this.config.capacity, bucket.tokens + 1);
+  }
+}
+
+// Conversation turns: bursts of a few messages, ~6 per minute sustained
+export const assistantRateLimiter = new RateLimiter(
+  'assistant',
+  configFromEnv('RATE_LIMIT_ASSISTANT', { capacity: 6, refillPerMinute: 6 })
+);
+
+// Map clicks each trigger a long LLM call: 2 back to back, then one every 20 seconds
+export const mapRateLimiter = new RateLimiter(
+  'map',
+  configFromEnv('RATE_LIMIT_MAP', { capacity: 2, refillPerMinute: 3 })
+);
+
+// Search box autocomplete: a request per pause in typing
+export const searchRateLimiter = new RateLimiter(
+  'search',
+  configFromEnv('RATE_LIMIT_SEARCH', { capacity: 20, refillPerMinute: 30 })
+);
+
+// Map clicks, drawn areas and routes look up places from the public geodata APIs:
+// a few in a row while exploring, then one every 3 seconds
+export const contextRateLimiter = new RateLimiter(
+  'context',
+  configFromEnv('RATE_LIMIT_CONTEXT', { capacity: 10, refillPerMinute: 20 })
+);
+
+// Itineraries geocode every unpinned plan: a few in a row, then one every 6 seconds
+export const itineraryRateLimiter = new RateLimiter(
+  'itinerary',
+  configFromEnv('RATE_LIMIT_ITINERARY', { capacity: 5, refillPerMinute: 10 })
+);
+
+/**
+ * Identify the client by IP, as seen by the outermost trusted proxy
+ * Each proxy appends the address it was connected from to X-Forwarded-For, so with N
+ * trusted proxies the client is the Nth entry from the end; earlier entries are whatever
+ * the client sent. Without an address (no proxy configured, or none in front), clients
+ * share one bucket: anything else in the request is up to the client and could be
+ * varied to get a fresh bucket per request.
+ */
+export function getClientKey(request: NextRequest): string {
+  if (TRUSTED_PROXIES > 0) {
+    const forwarded = (request.headers.get('x-forwarded-for') || '')
+      .split(',')
+      .map(entry => entry.trim())
+      .filter(Boolean);
+    const ip = forwarded.length > 0
+      ? forwarded[Math.max(0, forwarded.length - TRUSTED_PROXIES)]
+      : request.headers.get('x-real-ip')?.trim();
+    if (ip) {
+      return ip;
+    }
+  }
+
+  return SHARED_CLIENT_KEY;
+}
+
+/**
+ * Take a token for the request's client
+ * Returns the RATE_LIMIT ErrorResponse to send when the bucket is empty, otherwise null
+ */
+export function checkRateLimit(request: NextRequest, limiter: RateLimiter): NextResponse<ErrorResponse> | null {
+  const { allowed, retryAfter } = limiter.take(getClientKey(request));
+  if (allowed) {
+    return null;
+  }
+
+  return errorResponse({
+    error: 'Rate limit exceeded',
+    message: `Too many requests. Please wait ${retryAfter} seconds and try again.`,
+    code: 'RATE_LIMIT',
+    retryable: true,
+    retryAfter
+  }, 429);
+}
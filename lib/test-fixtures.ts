@@ -0,0 +1,70 @@
+import { LocationContext, LocationCoordinates, Place, TravelPlan } from './types';
+
+/**
+ * Builders for the unit tests (lib/*.test.ts)
+ */
+
+/**
+ * A valid day-trip plan, with any fields replaced
+ */
+export function makePlan(overrides: Partial<TravelPlan> = {}): TravelPlan {
+  return {
+    id: 'plan-1',
+    destination: 'Sintra',
+    country: 'Portugal',
+    duration: { startDate: '2026-06-01', endDate: '2026-06-01', nights: 0, hours: 4 },
+    budget: { estimated: 80, currency: 'EUR', breakdown: { admission: 30, food: 25, transportation: 25 } },
+    highlights: ['Pena Palace'],
+    activities: ['Walk the palace gardens'],
+    accommodation: { type: 'None', description: 'Day trip - no accommodation needed' },
+    transportation: { arrival: 'Train from Lisbon', local: 'Bus 434' },
+    bestFor: ['History lovers'],
+    considerations: ['Book tickets ahead'],
+    ...overrides
+  };
+}
+
+/**
+ * A plan pinned to coordinates
+ */
+export function makePinnedPlan(id: string, destination: string, coordinates: LocationCoordinates, hours = 3): TravelPlan {
+  return makePlan({
+    id,
+    destination,
+    duration: { startDate: '2026-06-01', endDate: '2026-06-01', nights: 0, hours },
+    location: { coordinates, source: 'attraction' }
+  });
+}
+
+/**
+ * An attraction from the place sources
+ */
+export function makePlace(name: string, coordinates: LocationCoordinates): Place {
+  return {
+    id: `osm:${name}`,
+    name,
+    coordinates,
+    distance: 0,
+    category: 'historic',
+    source: 'osm',
+    sources: ['osm'],
+    externalIds: {}
+  };
+}
+
+/**
+ * Location context around a clicked point with the given attractions
+ */
+export function makeContext(coordinates: LocationCoordinates, attractions: Place[], overrides: Partial<LocationContext> = {}): LocationContext {
+  return {
+    coordinates,
+    locationName: 'Sintra, Lisbon, Portugal',
+    attractions,
+    placeSources: ['osm'],
+    nearbyCities: ['Cascais, Portugal'],
+    isRemote: false,
+    isWater: false,
+    filters: { radiusKm: 25, interests: [] },
+    ...overrides
+  };
+}
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { parseRecommendationJson, parseTravelPlan, validateRecommendationResponse } from './travel-plan-schema';
+import { SchemaValidationError } from './errors';
+
+function rawPlan(overrides: Record<string, unknown> = {}): Record<string, unknown> {
+  return {
+    id: 'plan-1',
+    destination: 'Sintra, Portugal',
+    country: 'Portugal',
+    duration: { startDate: '2026-06-01', endDate: '2026-06-01', nights: 0, hours: 6 },
+    budget: { estimated: 80, currency: 'EUR', breakdown: { admission: 30, food: 25, transportation: 25 } },
+    highlights: ['Pena Palace'],
+    activities: ['Walk the palace gardens'],
+    accommodation: { type: 'None', description: 'Day trip' },
+    transportation: { arrival: 'Train from Lisbon', local: 'Bus 434' },
+    bestFor: ['History lovers'],
+    considerations: ['Book tickets ahead'],
+    ...overrides
+  };
+}
+
+function issuesOf(run: () => unknown) {
+  try {
+    run();
+  } catch (err) {
+    expect(err).toBeInstanceOf(SchemaValidationError);
+    return (err as SchemaValidationError).issues;
+  }
+  throw new Error('expected a SchemaValidationError');
+}
+
+describe('parseRecommendationJson', () => {
+  it('reads JSON wrapped in a markdown code fence', () => {
+    const raw = 'Here you go:\n```json\n' + JSON.stringify({ summary: 'Two ideas', plans: [rawPlan()] }) + '\n```';
+    const { value, repairs } = parseRecommendationJson(raw);
+
+    expect(value.summary).toBe('Two ideas');
+    expect(value.plans[0].destination).toBe('Sintra, Portugal');
+    expect(repairs).toEqual([]);
+  });
+
+  it('rejects output that is not JSON', () => {
+    expect(issuesOf(() => parseRecommendationJson('Sorry, I cannot help'))).toEqual([
+      { path: '$', message: 'response is not valid JSON' }
+    ]);
+  });
+});
+
+describe('validateRecommendationResponse', () => {
+  it('reports every unfixable issue with its field path', () => {
+    const issues = issuesOf(() => validateRecommendationResponse({
+      plans: [rawPlan({ destination: '', highlights: [] }), rawPlan({ budget: { currency: 'EUR' } })]
+    }));
+
+    expect(issues).toEqual([
+      { path: 'summary', message: 'is required' },
+      { path: 'plans[0].destination', message: 'is required' },
+      { path: 'plans[0].highlights', message: 'must be a non-empty array of strings' },
+      { path: 'plans[1].budget.estimated', message: 'must be a number' }
+    ]);
+  });
+
+  it('uses the default summary and trims extra plans', () => {
+    const plans = [1, 2, 3, 4].map(n => rawPlan({ id: `plan-${n}` }));
+    const { value, repairs } = validateRecommendationResponse({ plans }, { defaultSummary: 'Ideas', maxPlans: 2 });
+
+    expect(value.summary).toBe('Ideas');
+    expect(value.plans.map(plan => plan.id)).toEqual(['plan-1', 'plan-2']);
+    expect(repairs.map(r => r.path)).toEqual(['summary', 'plans']);
+  });
+
+  it('replaces missing and duplicate ids with the id prefix', () => {
+    const { value } = validateRecommendationResponse(
+      { summary: 'Ideas', plans: [rawPlan({ id: undefined }), rawPlan({ id: 'same' }), rawPlan({ id: 'same' })] },
+      { idPrefix: 'map' }
+    );
+
+    expect(value.plans.map(plan => plan.id)).toEqual(['map-1', 'same', 'map-3']);
+  });
+
+  it('fills in missing metadata', () => {
+    const { value } = validateRecommendationResponse({ summary: 'Ideas', plans: [rawPlan()] });
+
+    expect(value.metadata.basedOnPreferences).toEqual({ budget: undefined, dates: undefined, interests: [], constraints: [] });
+    expect(Number.isNaN(Date.parse(value.metadata.generatedAt))).toBe(false);
+  });
+});
+
+describe('parseTravelPlan', () => {
+  it('coerces numbers written as strings', () => {
+    const { value, repairs } = parseTravelPlan(rawPlan({
+      budget: { estimated: '$1,200', currency: 'eur', breakdown: { food: '4-6', other: 'lots' } }
+    }));
+
+    expect(value.budget).toEqual({ estimated: 1200, currency: 'EUR', breakdown: { food: 5 } });
+    expect(repairs.map(r => r.path)).toEqual([
+      'plan.budget.breakdown.food',
+      'plan.budget.breakdown.other',
+      'plan.budget.estimated'
+    ]);
+  });
+
+  it('sums the breakdown when the estimate is missing and defaults the currency', () => {
+    const { value } = parseTravelPlan(rawPlan({ budget: { breakdown: { admission: 20, food: 15 } } }));
+
+    expect(value.budget.estimated).toBe(35);
+    expect(value.budget.currency).toBe('USD');
+  });
+
+  it('turns day trips with nights into same-day visits', () => {
+    const { value } = parseTravelPlan(rawPlan({
+      duration: { startDate: '2026-06-01', endDate: '2026-06-03', nights: 2, hours: '5' }
+    }));
+
+    expect(value.duration).toEqual({ startDate: '2026-06-01', endDate: '2026-06-01', nights: 0, hours: 5 });
+  });
+
+  it('swaps reversed dates and derives nights from them', () => {
+    const { value } = parseTravelPlan(rawPlan({
+      duration: { startDate: '2026-06-05', endDate: '2026-06-02T00:00:00Z' }
+    }));
+
+    expect(value.duration).toEqual({ startDate: '2026-06-02', endDate: '2026-06-05', nights: 3 });
+  });
+
+  it('recovers the country from the destination and defaults optional sections', () => {
+    const { value } = parseTravelPlan(rawPlan({
+      country: undefined,
+      accommodation: undefined,
+      transportation: undefined,
+      highlights: 'Pena Palace'
+    }));
+
+    expect(value.country).toBe('Portugal');
+    expect(value.highlights).toEqual(['Pena Palace']);
+    expect(value.accommodation).toEqual({ type: 'None', description: 'Day trip - no accommodation needed' });
+    expect(value.transportation).toEqual({ arrival: 'Not specified', local: 'Not specified' });
+  });
+
+  it('uses the given path in issues', () => {
+    expect(issuesOf(() => parseTravelPlan(rawPlan({ duration: {} }), 'currentPlans[1]'))).toEqual([
+      { path: 'currentPlans[1].duration.startDate', message: 'must be a date (YYYY-MM-DD)' }
+    ]);
+  });
+});
@@ -0,0 +1,476 @@
+import { RecommendationResponse, TravelPlan } from './types';
+import { SchemaValidationError } from './errors';
+
+/**
+ * Runtime schema for TravelPlan / RecommendationResponse shared by both API routes
+ * Coerces common LLM mistakes (numbers as strings, missing ids, nights on day trips,
+ * dates out of order...) and reports anything it can't fix with its field path
+ */
+
+// A problem found at a specific field, e.g. { path: 'plans[1].budget.estimated', message: 'must be a number' }
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export interface SchemaOptions {
+  idPrefix?: string; // Prefix for generated plan ids (default "plan")
+  maxPlans?: number; // Extra plans are dropped (default 3)
+  defaultSummary?: string; // Used when the summary is missing; otherwise a missing summary is an issue
+}
+
+export interface SchemaResult<T> {
+  value: T;
+  repairs: SchemaIssue[]; // Fixes applied while coercing
+}
+
+// Collects issues and repairs while walking the object
+interface SchemaContext {
+  issues: SchemaIssue[];
+  repairs: SchemaIssue[];
+}
+
+const BUDGET_BREAKDOWN_KEYS = [
+  'admission',
+  'activities',
+  'food',
+  'transportation',
+  'flights',
+  'accommodation',
+  'other'
+] as const;
+
+/**
+ * Extract the JSON object from raw LLM output, tolerating markdown code fences
+ * and text before or after the object
+ */
+export function extractJsonObject(rawContent: string): unknown {
+  const content = rawContent.trim();
+
+  // Remove markdown code blocks if present
+  const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*\})\s*```/) ||
+                   content.match(/(\{[\s\S]*\})/);
+
+  try {
+    return JSON.parse(jsonMatch ? jsonMatch[1] : content);
+  } catch {
+    throw new SchemaValidationError('Invalid JSON response from AI', [
+      { path: '$', message: 'response is not valid JSON' }
+    ]);
+  }
+}
+
+/**
+ * Parse raw LLM output into a validated RecommendationResponse
+ * @throws SchemaValidationError listing every unfixable issue
+ */
+export function parseRecommendationJson(
+  rawContent: string,
+  options: SchemaOptions = {}
+): SchemaResult<RecommendationResponse> {
+  return validateRecommendationResponse(extractJsonObject(rawContent), options);
+}
+
+/**
+ * Validate and repair an already-parsed RecommendationResponse
+ * @throws SchemaValidationError listing every unfixable issue
+ */
+export function validateRecommendationResponse(
+  input: unknown,
+  options: SchemaOptions = {}
+): SchemaResult<RecommendationResponse> {
+  const { idPrefix = 'plan', maxPlans = 3, defaultSummary } = options;
+  const ctx: SchemaContext = { issues: [], repairs: [] };
+
+  if (!isRecord(input)) {
+    throw new SchemaValidationError('Invalid response format from AI', [
+      { path: '$', message: 'must be a JSON object' }
+    ]);
+  }
+
+  // Summary
+  let summary = asString(input.summary);
+  if (!summary) {
+    if (defaultSummary) {
+      summary = defaultSummary;
+      repair(ctx, 'summary', 'missing, used default summary');
+    } else {
+      issue(ctx, 'summary', 'is required');
+    }
+  }
+
+  // Plans
+  let rawPlans: unknown[] = [];
+  if (!Array.isArray(input.plans) || input.plans.length === 0) {
+    issue(ctx, 'plans', 'must be a non-empty array');
+  } else {
+    rawPlans = input.plans;
+    // Trim to max plans if AI generated too many
+    if (rawPlans.length > maxPlans) {
+      repair(ctx, 'plans', `trimmed from ${rawPlans.length} to ${maxPlans} plans`);
+      rawPlans = rawPlans.slice(0, maxPlans);
+    }
+  }
+
+  const plans: TravelPlan[] = [];
+  const seenIds = new Set<string>();
+
+  rawPlans.forEach((rawPlan, index) => {
+    const plan = validateTravelPlan(rawPlan, `plans[${index}]`, ctx);
+    if (!plan) return;
+
+    // Ensure each plan has a unique id
+    if (!plan.id || seenIds.has(plan.id)) {
+      const generatedId = `${idPrefix}-${index + 1}`;
+      repair(ctx, `plans[${index}].id`, plan.id ? `duplicate id "${plan.id}", replaced` : 'missing, generated');
+      plan.id = generatedId;
+    }
+    seenIds.add(plan.id);
+
+    plans.push(plan);
+  });
+
+  if (ctx.issues.length > 0) {
+    throw new SchemaValidationError(describeIssues(ctx.issues), ctx.issues);
+  }
+
+  // Metadata is informational; fill in what's missing rather than failing
+  const rawMetadata = isRecord(input.metadata) ? input.metadata : {};
+  const basedOnPreferences = isRecord(rawMetadata.basedOnPreferences) ? rawMetadata.basedOnPreferences : {};
+
+  const value: RecommendationResponse = {
+    summary: summary as string,
+    plans,
+    metadata: {
+      generatedAt: asString(rawMetadata.generatedAt) || new Date().toISOString(),
+      basedOnPreferences: {
+        budget: asString(basedOnPreferences.budget) || undefined,
+        dates: asString(basedOnPreferences.dates) || undefined,
+        interests: asStringArray(basedOnPreferences.interests),
+        constraints: asStringArray(basedOnPreferences.constraints)
+      }
+    }
+  };
+
+  logRepairs(ctx.repairs);
+
+  return { value, repairs: ctx.repairs };
+}
+
+/**
+ * Validate and repair a single plan outside a response (refined plans, plans sent back by the client)
+ * @param path - Field path used in issues, e.g. "plan" or "currentPlans[1]"
+ * @throws SchemaValidationError listing every unfixable issue
+ */
+export function parseTravelPlan(input: unknown, path: string = 'plan'): SchemaResult<TravelPlan> {
+  const ctx: SchemaContext = { issues: [], repairs: [] };
+  const plan = validateTravelPlan(input, path, ctx);
+
+  if (!plan || ctx.issues.length > 0) {
+    throw new SchemaValidationError(describeIssues(ctx.issues), ctx.issues);
+  }
+
+  logRepairs(ctx.repairs);
+
+  return { value: plan, repairs: ctx.repairs };
+}
+
+/**
+ * Validate and repair a single plan; returns null (with issues recorded) when unfixable
+ */
+function validateTravelPlan(input: unknown, path: string, ctx: SchemaContext): TravelPlan | null {
+  if (!isRecord(input)) {
+    issue(ctx, path, 'must be an object');
+    return null;
+  }
+
+  const issueCount = ctx.issues.length;
+
+  // Destination and country ("City, Country" lets us recover a missing country)
+  const destination = asString(input.destination);
+  if (!destination) {
+    issue(ctx, `${path}.destination`, 'is required');
+  }
+
+  let country = asString(input.country);
+  if (!country && destination && destination.includes(',')) {
+    country = destination.split(',').pop()!.trim();
+    repair(ctx, `${path}.country`, `missing, taken from destination ("${country}")`);
+  }
+  if (!country) {
+    issue(ctx, `${path}.country`, 'is required');
+  }
+
+  const duration = validateDuration(input.duration, `${path}.duration`, ctx);
+  const budget = validateBudget(input.budget, `${path}.budget`, ctx);
+
+  // Highlights and activities must have at least one entry
+  const highlights = asStringArray(input.highlights);
+  if (!Array.isArray(input.highlights) && highlights.length > 0) {
+    repair(ctx, `${path}.highlights`, 'converted to an array');
+  }
+  if (highlights.length === 0) {
+    issue(ctx, `${path}.highlights`, 'must be a non-empty array of strings');
+  }
+
+  const activities = asStringArray(input.activities);
+  if (!Array.isArray(input.activities) && activities.length > 0) {
+    repair(ctx, `${path}.activities`, 'converted to an array');
+  }
+  if (activities.length === 0) {
+    issue(ctx, `${path}.activities`, 'must be a non-empty array of strings');
+  }
+
+  // Optional sections get sensible defaults
+  const rawAccommodation = isRecord(input.accommodation) ? input.accommodation : null;
+  if (!rawAccommodation) {
+    repair(ctx, `${path}.accommodation`, 'missing, defaulted');
+  }
+  const rawTransportation = isRecord(input.transportation) ? input.transportation : null;
+  if (!rawTransportation) {
+    repair(ctx, `${path}.transportation`, 'missing, defaulted');
+  }
+
+  if (ctx.issues.length > issueCount || !duration || !budget) {
+    return null;
+  }
+
+  return {
+    id: asString(input.id),
+    destination: destination as string,
+    country: country as string,
+    duration,
+    budget,
+    highlights,
+    activities,
+    accommodation: duration.nights === 0 && !rawAccommodation
+      ? { type: 'None', description: 'Day trip - no accommodation needed' }
+      : {
+          type: asString(rawAccommodation?.type) || 'Not specified',
+          description: asString(rawAccommodation?.description) || ''
+        },
+    transportation: {
+      arrival: asString(rawTransportation?.arrival) || 'Not specified',
+      local: asString(rawTransportation?.local) || 'Not specified'
+    },
+    bestFor: asStringArray(input.bestFor),
+    considerations: asStringArray(input.considerations)
+  };
+}
+
+/**
+ * Validate dates, nights and hours
+ * Normalizes dates to YYYY-MM-DD, swaps reversed dates and zeroes nights on day trips
+ */
+function validateDuration(input: unknown, path: string, ctx: SchemaContext): TravelPlan['duration'] | null {
+  if (!isRecord(input)) {
+    issue(ctx, path, 'is required');
+    return null;
+  }
+
+  let startDate = normalizeDate(input.startDate);
+  let endDate = normalizeDate(input.endDate);
+
+  if (startDate && startDate !== input.startDate) {
+    repair(ctx, `${path}.startDate`, `normalized to ${startDate}`);
+  }
+  if (endDate && endDate !== input.endDate) {
+    repair(ctx, `${path}.endDate`, `normalized to ${endDate}`);
+  }
+
+  // A single known date means a one-day visit
+  if (startDate && !endDate) {
+    endDate = startDate;
+    repair(ctx, `${path}.endDate`, 'missing, set to startDate');
+  } else if (!startDate && endDate) {
+    startDate = endDate;
+    repair(ctx, `${path}.startDate`, 'missing, set to endDate');
+  }
+
+  if (!startDate || !endDate) {
+    issue(ctx, `${path}.startDate`, 'must be a date (YYYY-MM-DD)');
+    return null;
+  }
+
+  if (endDate < startDate) {
+    [startDate, endDate] = [endDate, startDate];
+    repair(ctx, path, 'startDate and endDate were out of order, swapped');
+  }
+
+  let hours = input.hours === undefined || input.hours === null ? undefined : asNumber(input.hours);
+  if (hours === null) {
+    repair(ctx, `${path}.hours`, `unreadable value ${JSON.stringify(input.hours)}, removed`);
+    hours = undefined;
+  } else if (hours !== undefined && typeof input.hours !== 'number') {
+    repair(ctx, `${path}.hours`, `coerced ${JSON.stringify(input.hours)} to ${hours}`);
+  }
+
+  let nights = asNumber(input.nights);
+  if (nights === null) {
+    // Derive nights from the dates
+    nights = Math.round((Date.parse(endDate) - Date.parse(startDate)) / (24 * 60 * 60 * 1000));
+    repair(ctx, `${path}.nights`, `missing or unreadable, derived ${nights} from dates`);
+  } else if (typeof input.nights !== 'number') {
+    repair(ctx, `${path}.nights`, `coerced ${JSON.stringify(input.nights)} to ${nights}`);
+  }
+
+  // Day trips (hour-based visits or same-day dates) never have nights
+  const isDayTrip = (hours !== undefined && hours <= 24) || startDate === endDate;
+  if (isDayTrip && nights !== 0) {
+    repair(ctx, `${path}.nights`, `day trip had ${nights} nights, set to 0`);
+    nights = 0;
+  }
+  if (isDayTrip && endDate !== startDate) {
+    repair(ctx, `${path}.endDate`, 'day trip spanned several days, set to startDate');
+    endDate = startDate;
+  }
+
+  if (nights < 0) {
+    issue(ctx, `${path}.nights`, 'must not be negative');
+    return null;
+  }
+
+  return {
+    startDate,
+    endDate,
+    nights,
+    ...(hours !== undefined && { hours })
+  };
+}
+
+/**
+ * Validate the budget, coercing amounts and defaulting the currency
+ */
+function validateBudget(input: unknown, path: string, ctx: SchemaContext): TravelPlan['budget'] | null {
+  if (!isRecord(input)) {
+    issue(ctx, path, 'is required');
+    return null;
+  }
+
+  const rawBreakdown = isRecord(input.breakdown) ? input.breakdown : {};
+  const breakdown: TravelPlan['budget']['breakdown'] = {};
+
+  for (const key of BUDGET_BREAKDOWN_KEYS) {
+    if (rawBreakdown[key] === undefined || rawBreakdown[key] === null) continue;
+
+    const amount = asNumber(rawBreakdown[key]);
+    if (amount === null) {
+      repair(ctx, `${path}.breakdown.${key}`, `unreadable value ${JSON.stringify(rawBreakdown[key])}, removed`);
+      continue;
+    }
+    if (typeof rawBreakdown[key] !== 'number') {
+      repair(ctx, `${path}.breakdown.${key}`, `coerced ${JSON.stringify(rawBreakdown[key])} to ${amount}`);
+    }
+    breakdown[key] = amount;
+  }
+
+  let estimated = asNumber(input.estimated);
+  if (estimated === null) {
+    // Fall back to the sum of the breakdown when it exists
+    const parts = Object.values(breakdown);
+    if (parts.length > 0) {
+      estimated = parts.reduce((sum, amount) => sum + (amount || 0), 0);
+      repair(ctx, `${path}.estimated`, `missing or unreadable, summed breakdown to ${estimated}`);
+    } else {
+      issue(ctx, `${path}.estimated`, 'must be a number');
+      return null;
+    }
+  } else if (typeof input.estimated !== 'number') {
+    repair(ctx, `${path}.estimated`, `coerced ${JSON.stringify(input.estimated)} to ${estimated}`);
+  }
+
+  if (estimated < 0) {
+    issue(ctx, `${path}.estimated`, 'must not be negative');
+    return null;
+  }
+
+  let currency = asString(input.currency).toUpperCase();
+  if (!/^[A-Z]{3}$/.test(currency)) {
+    repair(ctx, `${path}.currency`, `${currency ? `invalid "${currency}"` : 'missing'}, defaulted to USD`);
+    currency = 'USD';
+  }
+
+  return { estimated, currency, breakdown };
+}
+
+/**
+ * Format issues into a single error message
+ */
+export function describeIssues(issues: SchemaIssue[]): string {
+  const listed = issues.slice(0, 5).map(i => `${i.path} ${i.message}`).join('; ');
+  const more = issues.length > 5 ? ` (and ${issues.length - 5} more)` : '';
+  return `Invalid recommendation format: ${listed}${more}`;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function asString(value: unknown): string {
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  return '';
+}
+
+function asStringArray(value: unknown): string[] {
+  const items = Array.isArray(value) ? value : value === undefined || value === null ? [] : [value];
+  return items.map(asString).filter(item => item.length > 0);
+}
+
+/**
+ * Read a number from a number or a string like "150", "$1,200", "120 USD" or "4-6" (averaged)
+ */
+function asNumber(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const cleaned = value.replace(/[,\s]/g, '').replace(/^[^\d-]+/, '');
+  const match = cleaned.match(/^(-?\d+(?:\.\d+)?)(?:(?:-|–|to)(\d+(?:\.\d+)?))?/);
+  if (!match) {
+    return null;
+  }
+
+  const low = parseFloat(match[1]);
+  return match[2] !== undefined ? (low + parseFloat(match[2])) / 2 : low;
+}
+
+/**
+ * Normalize a date-like value to YYYY-MM-DD, or null when it can't be read
+ */
+function normalizeDate(value: unknown): string | null {
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const isoMatch = value.trim().match(/^(\d{4}-\d{2}-\d{2})/);
+  if (isoMatch && !Number.isNaN(Date.parse(isoMatch[1]))) {
+    return isoMatch[1];
+  }
+
+  const timestamp = Date.parse(value);
+  if (Number.isNaN(timestamp)) {
+    return null;
+  }
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function issue(ctx: SchemaContext, path: string, message: string): void {
+  ctx.issues.push({ path, message });
+}
+
+function repair(ctx: SchemaContext, path: string, message: string): void {
+  ctx.repairs.push({ path, message });
+}
+
+/**
+ * Log repairs for debugging
+ */
+function logRepairs(repairs: SchemaIssue[]): void {
+  if (process.env.NODE_ENV === 'development' && repairs.length > 0) {
+    console.log('[TravelPlanSchema] Repaired:', repairs.map(r => `${r.path}: ${r.message}`));
+  }
+}
@@ -43,6 +43,83 @@ export interface TravelPlan {
   };
   bestFor: string[];
   considerations: string[];
+  grounding?: PlanGrounding; // Map mode: how well the plan matches the provided place data
+  location?: PlanLocation; // Map mode: where the plan is pinned (see lib/plan-locations.ts)
+  routeStop?: RouteStop; // Route mode: where the stop is along the trip
+}
+
+// A plan's position on a route mode trip, computed from its pinned location
+export interface RouteStop {
+  order: number; // 1-based, in driving order
+  routeKm: number; // Distance from the origin along the route to the turn-off
+  detourKm: number; // Extra driving there and back (twice the distance off the route)
+}
+
+// Resolved position of a plan's destination
+export interface PlanLocation {
+  coordinates: LocationCoordinates;
+  source: 'attraction' | 'geocoded'; // Matched to a provided attraction, or found by forward geocoding
+}
+
+// Result of checking a map plan against the attractions it was given (see lib/grounding.ts)
+export interface PlanGrounding {
+  score: number; // 0-1 share of the plan's place references found in the provided data
+  grounded: boolean;
+  matchedPlaces: string[]; // Provided attractions and area names the plan refers to
+  unknownPlaces: string[]; // Named places that aren't in the provided data
+  distanceKm?: number; // Farthest matched attraction from the clicked point
+  reasons: string[]; // Why the plan was flagged (empty when grounded)
+}
+
+// Flag ungrounded map plans, or drop them (see MAP_GROUNDING_MODE)
+export type GroundingMode = 'flag' | 'drop';
+
+// Kinds of entries on an itinerary day
+export type ItineraryItemType = 'visit' | 'travel' | 'meal';
+
+// How a leg between two stops is travelled (estimated from the straight-line distance)
+export type TravelMode = 'walk' | 'drive' | 'flight';
+
+// One entry on an itinerary day
+export interface ItineraryItem {
+  type: ItineraryItemType;
+  start: string; // "HH:MM"
+  end: string; // "HH:MM", may pass midnight on long travel legs
+  title: string; // e.g. the destination, "Drive to Stanley Park", "Lunch"
+  planId?: string; // Visits: the plan being visited
+  travel?: {
+    mode: TravelMode;
+    distanceKm: number; // Straight-line distance
+  };
+  note?: string;
+}
+
+export interface ItineraryDay {
+  day: number; // 1-based
+  date: string; // YYYY-MM-DD
+  items: ItineraryItem[];
+}
+
+// A day-by-day schedule built from selected plans (see lib/itinerary.ts)
+export interface Itinerary {
+  days: ItineraryDay[];
+  planIds: string[]; // Plans in visiting order
+  totalTravelMinutes: number;
+  budget?: {
+    estimated: number; // Sum of the plans' budgets
+    currency: string;
+  }; // Omitted when the plans use different currencies
+  unlocatedPlans: string[]; // Destinations that couldn't be located, so travel to them isn't estimated
+}
+
+// Request body for /api/itinerary
+export interface ItineraryRequest {
+  plans: TravelPlan[]; // Selected plans, from either mode
+  startDate?: string; // YYYY-MM-DD; defaults to the earliest plan start date, or today
+}
+
+export interface ItineraryResponse {
+  itinerary: Itinerary;
 }
 
 // Complete recommendation response from LLM
@@ -60,23 +137,116 @@ export interface RecommendationResponse {
   };
 }
 
+// Travel preferences (slots) extracted from the conversation
+export interface TravelPreferences {
+  destination?: string;
+  dates?: {
+    start?: string; // YYYY-MM-DD
+    end?: string; // YYYY-MM-DD
+    description?: string; // Timeframe in words, e.g. "next summer"
+  };
+  budget?: {
+    amount?: number; // Whole-trip budget
+    currency: string; // ISO 4217 code
+    description?: string; // Budget in words, e.g. "cheap"
+  };
+  interests: string[];
+  constraints: string[];
+  partySize?: number;
+}
+
+// Slots the user edited in the UI; null clears a slot. Edited slots win over extraction
+export type PreferenceOverrides = {
+  [K in keyof TravelPreferences]?: TravelPreferences[K] | null;
+};
+
 // API request/response types
 export interface AssistantRequest {
   messages: Message[];
+  conversationId?: string; // Client-generated id used to aggregate token usage
+  stream?: boolean; // Stream conversational replies as server-sent events (AssistantStreamEvent) instead of JSON
+  preferenceOverrides?: PreferenceOverrides; // Preference chips edited by the user
+  currentPlans?: TravelPlan[]; // Plans on screen, so follow-ups can edit one instead of starting over
+}
+
+// One changed field of a refined plan, formatted for display
+export interface PlanChange {
+  label: string; // e.g. "Budget", "Things to do"
+  before?: string; // Single values: old and new, formatted
+  after?: string;
+  added?: string[]; // Lists: items added and removed
+  removed?: string[];
+}
+
+// A follow-up that edited a single plan in place (its id doesn't change)
+export interface PlanRefinement {
+  planId: string;
+  changes: PlanChange[];
+}
+
+// Token counts reported by the LLM provider
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Aggregated token usage with the estimated cost from the pricing table
+export interface UsageCost extends TokenUsage {
+  calls: number;
+  estimatedCost: number; // USD
+}
+
+// How a response was produced (which model answered after any failover)
+export interface ResponseMetadata {
+  model: string;
+  attemptedModels: string[];
+  repairRounds?: number; // Times the model was asked to correct invalid JSON
+  usage?: {
+    request: UsageCost; // Every LLM call made for this request, including failed attempts
+    conversation?: UsageCost; // Running total for the conversation (voice mode)
+  };
+}
+
+// Summary returned by /api/usage
+export interface UsageReport {
+  windowMinutes: number;
+  since: string;
+  totals: UsageCost;
+  byModel: Array<UsageCost & { model: string; free: boolean; priced: boolean }>;
+  byRoute: Record<string, UsageCost>;
+  freeTokenShare: number; // 0-1, share of tokens served by free models
+  rateLimitHits: number;
+  upgradeEstimate: {
+    model: string;
+    estimatedCost: number; // What the window's tokens would have cost on this model
+  };
+  recommendation: string;
 }
 
 export interface AssistantResponse {
   message?: string;
   travelPlans?: TravelPlan[];
   summary?: string;
+  refinement?: PlanRefinement; // travelPlans is the current list with one plan edited; keep the summary
+  preferences?: TravelPreferences; // Preferences gathered so far, including user edits
+  metadata?: ResponseMetadata;
   error?: string;
 }
 
+// Server-sent events of a streamed /api/assistant reply: the event name is the type,
+// the data is the rest as JSON. done carries the full reply with preferences and metadata
+export type AssistantStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; response: AssistantResponse }
+  | { type: 'error'; error: ErrorResponse };
+
 export interface ErrorResponse {
   error: string;
   message: string;
   code: string;
   retryable: boolean;
+  retryAfter?: number; // Seconds to wait before retrying, when known
 }
 
 // Component prop types
@@ -86,9 +256,57 @@ export interface VoiceRecorderProps {
   disabled?: boolean;
 }
 
+export interface PlaceSearchProps {
+  onSelect: (coordinates: LocationCoordinates) => void; // Same pipeline as a map click
+  disabled?: boolean;
+}
+
+export interface MapFiltersProps {
+  filters: MapSearchFilters;
+  onChange: (filters: MapSearchFilters) => void;
+  disabled?: boolean;
+  radiusNote?: string; // Shown instead of the radius choice when a drawn area or route sets the search radius
+}
+
+export interface AreaDrawerProps {
+  shape: MapAreaShape;
+  onComplete: (area: MapArea) => void;
+  onCancel: () => void;
+}
+
+export interface AttractionLayerProps {
+  places: Place[];
+  selectedIds: string[]; // Attractions ticked to build recommendations around
+  onToggleSelect: (placeId: string) => void;
+}
+
 export interface TravelCardProps {
   plan: TravelPlan;
   index: number;
+  isHighlighted?: boolean; // Map mode: the plan's marker is hovered
+  onHoverChange?: (hovered: boolean) => void;
+  isSelected?: boolean; // Picked for a multi-day itinerary
+  onSelectChange?: (selected: boolean) => void; // Shows the itinerary checkbox when set
+}
+
+export interface PlanChangesProps {
+  destination: string; // The refined plan, for the heading
+  changes: PlanChange[];
+  onDismiss: () => void;
+}
+
+export interface ItineraryBarProps {
+  selectedCount: number;
+  isBuilding: boolean;
+  error: string | null;
+  onBuild: () => void;
+  onClear: () => void;
+}
+
+export interface ItineraryTimelineProps {
+  itinerary: Itinerary;
+  plans: TravelPlan[]; // The plans it was built from, for their details
+  onClose: () => void;
 }
 
 export interface ConversationDisplayProps {
@@ -96,6 +314,13 @@ export interface ConversationDisplayProps {
   isLoading: boolean;
 }
 
+export interface PreferenceChipsProps {
+  preferences: TravelPreferences | null;
+  overrides: PreferenceOverrides;
+  onChange: (overrides: PreferenceOverrides) => void;
+  disabled?: boolean;
+}
+
 // Application state type
 export interface AppState {
   messages: Message[];
@@ -144,15 +369,137 @@ export interface OpenTripMapPlace {
   };
 }
 
-export interface MapRecommendationRequest {
+// Whether each geodata source ("reverse", "cities", or a place source id) was served from the cache
+export type GeoCacheStatus = Record<string, 'hit' | 'miss'>;
+
+// Normalized category of a point of interest
+export type PlaceCategory =
+  | 'museum'
+  | 'historic'
+  | 'religion'
+  | 'architecture'
+  | 'culture'
+  | 'nature'
+  | 'viewpoint'
+  | 'entertainment'
+  | 'food'
+  | 'nightlife'
+  | 'other';
+
+// Interests a user can filter map mode by (see lib/map-filters.ts)
+export type MapInterest = 'museums' | 'nature' | 'food' | 'nightlife' | 'family';
+
+// User-chosen search radius and interests for map mode
+export interface MapSearchFilters {
+  radiusKm: number; // Attraction search radius and the distance limit for recommended plans
+  interests: MapInterest[]; // Empty = all kinds of attractions
+}
+
+// Shapes a map mode search area can be drawn as
+export type MapAreaShape = 'rectangle' | 'polygon';
+
+// A user-drawn search area (see lib/map-area.ts)
+export interface MapArea {
+  shape: MapAreaShape;
+  points: LocationCoordinates[]; // Rectangle: its 4 corners; polygon: its vertices in order (not closed)
+}
+
+// Origin and destination picked for route mode
+export interface RouteEnds {
+  origin: LocationCoordinates;
+  destination: LocationCoordinates;
+}
+
+// A driving route for route mode (see lib/map-route.ts)
+export interface MapRoute extends RouteEnds {
+  originName: string;
+  destinationName: string;
+  points: LocationCoordinates[]; // Simplified route line from origin to destination
+  distanceKm: number;
+  durationMinutes: number; // Driving time without stops
+  corridorKm: number; // How far off the route attractions were searched
+}
+
+// Descriptive details for a place, from source tags and enrichment (see lib/place-details.ts)
+export interface PlaceDetails {
+  description?: string; // Short description (Wikidata / OpenTripMap)
+  wikipediaExtract?: string; // First sentences of the Wikipedia article
+  wikipediaUrl?: string;
+  openingHours?: string; // OSM opening_hours syntax, e.g. "Mo-Su 09:00-18:00"
+  website?: string;
+  image?: string; // Thumbnail URL
+}
+
+// A point of interest from any registered place source (see lib/place-sources.ts)
+export interface Place {
+  id: string; // "<source>:<source id>", from the first source that reported it
+  name: string;
+  coordinates: LocationCoordinates;
+  distance: number; // Meters from the clicked location (route mode: from the route)
+  routeKm?: number; // Route mode: distance along the route to the point closest to the place
+  category: PlaceCategory;
+  popularity?: number; // 0-1 where the source knows it (OpenTripMap rating)
+  source: string; // Source the name and coordinates were taken from
+  sources: string[]; // Every source that reported this place after deduplication
+  externalIds: {
+    xid?: string; // OpenTripMap
+    wikidata?: string; // e.g. "Q243"
+    wikipediaPageId?: number;
+    osm?: string; // e.g. "node/123"
+  };
+  details?: PlaceDetails; // Filled in for the top-ranked places
+}
+
+// Everything known about a clicked location, returned by /api/geo/context
+export interface LocationContext {
   coordinates: LocationCoordinates;
   locationName: string;
-  nearbyAttractions: OpenTripMapPlace[];
+  address?: NominatimResponse['address'];
+  attractions: Place[]; // Ranked and deduplicated across place sources
+  placeSources: string[]; // Sources that contributed at least one place
   nearbyCities: string[];
+  isRemote: boolean; // No attractions and no cities nearby
+  isWater: boolean; // Open water (ocean/sea)
+  filters: MapSearchFilters; // Filters the attractions were searched with
+  area?: MapArea; // Drawn area the attractions were limited to (coordinates is then its center)
+  route?: MapRoute; // Route mode: the trip the attractions were searched along (coordinates is then its midpoint)
+  cache?: GeoCacheStatus; // Which sources were served from the geodata cache
+}
+
+// A forward-geocoding match for the map search box
+export interface GeoSearchResult {
+  id: string;
+  name: string;
+  description: string; // Region and country, e.g. "Bavaria, Germany"
+  type?: string; // e.g. "city", "village", "museum"
+  coordinates: LocationCoordinates;
+}
+
+// Response from /api/geo/search
+export interface GeoSearchResponse {
+  results: GeoSearchResult[];
+}
+
+export interface MapRecommendationRequest {
+  coordinates?: LocationCoordinates; // Clicked point; may be omitted when an area is given
+  area?: MapArea; // Drawn area to keep every plan inside
+  route?: RouteEnds; // Route mode: suggest stops between these points
+  regenerate?: boolean; // Bypass the recommendation cache and generate a fresh answer
+  selectedPlaceIds?: string[]; // Build plans only around these attractions (Place ids from /api/geo/context)
+  filters?: MapSearchFilters; // Used to look up the location context server-side
 }
 
 export interface MapRecommendationResponse {
   travelPlans: TravelPlan[];
   summary: string;
+  metadata?: ResponseMetadata;
+  cache?: {
+    status: 'hit' | 'miss'; // hit = a previously generated answer for this area
+    generatedAt: string;
+  };
+  grounding?: {
+    mode: GroundingMode;
+    droppedPlans: string[]; // Destinations of plans removed for referencing unknown or distant places
+  };
   error?: string;
 }
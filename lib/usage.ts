@@ -0,0 +1,246 @@
+import { TokenUsage, UsageCost, UsageReport } from './types';
+import { ModelRoute } from './model-fallback';
+
+/**
+ * Token usage and cost accounting
+ * Keeps an in-memory log of recent LLM calls (per server instance) so routes can
+ * report per-request and per-conversation usage and /api/usage can summarise it
+ */
+
+// Price per 1M tokens in USD
+interface ModelPrice {
+  prompt: number;
+  completion: number;
+}
+
+// Known OpenRouter prices (USD per 1M tokens); ":free" variants always cost nothing
+export const MODEL_PRICING: Record<string, ModelPrice> = {
+  'meta-llama/llama-3.2-3b-instruct': { prompt: 0.015, completion: 0.025 },
+  'qwen/qwen-2-7b-instruct': { prompt: 0.054, completion: 0.054 },
+  'microsoft/phi-3-mini-128k-instruct': { prompt: 0.1, completion: 0.1 },
+  'anthropic/claude-3-haiku': { prompt: 0.25, completion: 1.25 },
+  'openai/gpt-3.5-turbo': { prompt: 0.5, completion: 1.5 },
+  'google/gemini-pro': { prompt: 0.125, completion: 0.375 },
+  'google/gemini-flash-1.5': { prompt: 0.075, completion: 0.3 }
+};
+
+// Paid model used to estimate what current consumption would cost after upgrading
+const UPGRADE_MODEL = 'anthropic/claude-3-haiku';
+
+// How many calls and conversations to keep in memory
+const MAX_RECORDS = 1000;
+const MAX_CONVERSATIONS = 500;
+
+// Longest window /api/usage can summarise; older calls are dropped from the log
+export const MAX_USAGE_WINDOW_MINUTES = 7 * 24 * 60;
+
+// Rate limit hits within the window that suggest upgrading from free models
+const RATE_LIMIT_UPGRADE_THRESHOLD = 5;
+
+// A single LLM call
+interface UsageRecord extends TokenUsage {
+  route: ModelRoute;
+  model: string;
+  estimatedCost: number;
+  timestamp: number;
+}
+
+const usageLog: UsageRecord[] = [];
+const rateLimitLog: { route: ModelRoute; model: string; timestamp: number }[] = [];
+const conversationTotals = new Map<string, UsageCost>();
+
+/**
+ * Whether a model is served for free
+ */
+export function isFreeModel(model: string): boolean {
+  return model.endsWith(':free') || model.startsWith('mock');
+}
+
+/**
+ * Look up the price of a model, ignoring variant suffixes like ":free" or ":nitro"
+ */
+function getModelPrice(model: string): ModelPrice | undefined {
+  return MODEL_PRICING[model.split(':')[0]];
+}
+
+/**
+ * Estimate the USD cost of a call from the pricing table
+ * Free and unknown models are counted as zero cost
+ */
+export function estimateCost(model: string, usage: TokenUsage): number {
+  if (isFreeModel(model)) {
+    return 0;
+  }
+
+  const price = getModelPrice(model);
+  if (!price) {
+    return 0;
+  }
+
+  return (usage.promptTokens * price.prompt + usage.completionTokens * price.completion) / 1000000;
+}
+
+function emptyUsage(): UsageCost {
+  return { calls: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, estimatedCost: 0 };
+}
+
+function addUsage(total: UsageCost, usage: TokenUsage, estimatedCost: number): void {
+  total.calls += 1;
+  total.promptTokens += usage.promptTokens;
+  total.completionTokens += usage.completionTokens;
+  total.totalTokens += usage.totalTokens;
+  total.estimatedCost += estimatedCost;
+}
+
+/**
+ * Accumulates the usage of every LLM call made while handling one request
+ * (including failed fallback attempts) and records it in the global log
+ */
+export class UsageTracker {
+  private route: ModelRoute;
+  private conversationId?: string;
+  private total: UsageCost = emptyUsage();
+
+  constructor(route: ModelRoute, conversationId?: string) {
+    this.route = route;
+    this.conversationId = conversationId;
+  }
+
+  /**
+   * Record one completed LLM call
+   * @param route - Route to attribute the call to (defaults to the tracker's route)
+   */
+  add(model: string, usage: TokenUsage, route: ModelRoute = this.route): void {
+    const estimatedCost = estimateCost(model, usage);
+
+    addUsage(this.total, usage, estimatedCost);
+
+    usageLog.push({ ...usage, route, model, estimatedCost, timestamp: Date.now() });
+    pruneLog(usageLog);
+
+    if (this.conversationId) {
+      const conversation = conversationTotals.get(this.conversationId) || emptyUsage();
+      addUsage(conversation, usage, estimatedCost);
+
+      // Re-insert so the Map stays ordered by most recent activity, then evict the oldest
+      conversationTotals.delete(this.conversationId);
+      conversationTotals.set(this.conversationId, conversation);
+      if (conversationTotals.size > MAX_CONVERSATIONS) {
+        const oldest = conversationTotals.keys().next().value;
+        if (oldest !== undefined) {
+          conversationTotals.delete(oldest);
+        }
+      }
+    }
+  }
+
+  /**
+   * Usage of this request so far
+   */
+  requestUsage(): UsageCost {
+    return { ...this.total };
+  }
+
+  /**
+   * Running usage of the conversation this request belongs to, if any
+   */
+  conversationUsage(): UsageCost | undefined {
+    if (!this.conversationId) {
+      return undefined;
+    }
+    const conversation = conversationTotals.get(this.conversationId);
+    return conversation ? { ...conversation } : undefined;
+  }
+
+  /**
+   * Usage in the shape returned in response metadata
+   */
+  toMetadata(): { request: UsageCost; conversation?: UsageCost } {
+    return {
+      request: this.requestUsage(),
+      conversation: this.conversationUsage()
+    };
+  }
+}
+
+/**
+ * Record that a model was rate-limited (used to suggest upgrading)
+ */
+export function recordRateLimit(route: ModelRoute, model: string): void {
+  rateLimitLog.push({ route, model, timestamp: Date.now() });
+  pruneLog(rateLimitLog);
+}
+
+/**
+ * Keep a log (oldest first) within MAX_RECORDS entries and the longest summary window
+ */
+function pruneLog(log: { timestamp: number }[]): void {
+  const cutoff = Date.now() - MAX_USAGE_WINDOW_MINUTES * 60 * 1000;
+  const expired = log.findIndex(entry => entry.timestamp >= cutoff);
+  const drop = Math.max(expired === -1 ? log.length : expired, log.length - MAX_RECORDS);
+  if (drop > 0) {
+    log.splice(0, drop);
+  }
+}
+
+/**
+ * Summarise consumption over the last `windowMinutes`
+ */
+export function summarizeUsage(windowMinutes: number): UsageReport {
+  const since = Date.now() - windowMinutes * 60 * 1000;
+  const records = usageLog.filter(record => record.timestamp >= since);
+
+  const totals = emptyUsage();
+  const byModel = new Map<string, UsageCost>();
+  const byRoute: Record<string, UsageCost> = {};
+  let freeTokens = 0;
+
+  for (const record of records) {
+    addUsage(totals, record, record.estimatedCost);
+
+    const modelTotal = byModel.get(record.model) || emptyUsage();
+    addUsage(modelTotal, record, record.estimatedCost);
+    byModel.set(record.model, modelTotal);
+
+    byRoute[record.route] = byRoute[record.route] || emptyUsage();
+    addUsage(byRoute[record.route], record, record.estimatedCost);
+
+    if (isFreeModel(record.model)) {
+      freeTokens += record.totalTokens;
+    }
+  }
+
+  const rateLimitHits = rateLimitLog.filter(hit => hit.timestamp >= since).length;
+  const freeTokenShare = totals.totalTokens > 0 ? freeTokens / totals.totalTokens : 0;
+  const upgradeCost = estimateCost(UPGRADE_MODEL, totals);
+
+  let recommendation = 'Usage is within free-tier limits.';
+  if (rateLimitHits >= RATE_LIMIT_UPGRADE_THRESHOLD && freeTokenShare > 0.5) {
+    recommendation = `Free models were rate-limited ${rateLimitHits} times in the last ${windowMinutes} minutes. ` +
+      `Upgrading to ${UPGRADE_MODEL} would have cost about $${upgradeCost.toFixed(4)} for this traffic (see docs/UPGRADING_MODEL.md).`;
+  } else if (freeTokenShare < 0.5 && totals.totalTokens > 0) {
+    recommendation = 'Most traffic is already served by paid models.';
+  }
+
+  return {
+    windowMinutes,
+    since: new Date(since).toISOString(),
+    totals,
+    byModel: Array.from(byModel.entries())
+      .map(([model, usage]) => ({
+        model,
+        ...usage,
+        free: isFreeModel(model),
+        priced: isFreeModel(model) || getModelPrice(model) !== undefined
+      }))
+      .sort((a, b) => b.totalTokens - a.totalTokens),
+    byRoute,
+    freeTokenShare,
+    rateLimitHits,
+    upgradeEstimate: {
+      model: UPGRADE_MODEL,
+      estimatedCost: upgradeCost
+    },
+    recommendation
+  };
+}
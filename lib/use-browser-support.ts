@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+
+// Browser capabilities don't change while the page is open
+const subscribe = () => () => {};
+
+/**
+ * Whether the browser supports a feature
+ * Reports supported during server rendering, so the first client render matches
+ */
+export function useBrowserSupport(check: () => boolean): boolean {
+  return useSyncExternalStore(subscribe, check, () => true);
+}
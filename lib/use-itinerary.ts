@@ -0,0 +1,101 @@
+import { useCallback, useState } from 'react';
+import { Itinerary, ItineraryResponse, TravelPlan } from './types';
+import { ApiRequestError, apiErrorFromResponse } from './errors';
+import { MAX_ITINERARY_PLANS, MIN_ITINERARY_PLANS } from './itinerary-limits';
+
+// A built itinerary and the plans it was built from (with the ids it refers to)
+export interface BuiltItinerary {
+  itinerary: Itinerary;
+  plans: TravelPlan[];
+}
+
+/**
+ * Plan ids only need to be unique within one response ("plan-1" comes back
+ * every time), so selections are matched on id and destination
+ */
+function planKey(plan: TravelPlan): string {
+  return `${plan.id}|${plan.destination}`;
+}
+
+/**
+ * Plans selected for a multi-day itinerary, and the itinerary built from them
+ * Selections survive new recommendations, so plans from several searches can be combined;
+ * they are copies, so a plan edited on screen must be swapped in with replacePlan
+ */
+export function useItinerary() {
+  const [selectedPlans, setSelectedPlans] = useState<TravelPlan[]>([]);
+  const [built, setBuilt] = useState<BuiltItinerary | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const isSelected = useCallback(
+    (plan: TravelPlan) => selectedPlans.some(selected => planKey(selected) === planKey(plan)),
+    [selectedPlans]
+  );
+
+  const setSelected = useCallback((plan: TravelPlan, selected: boolean) => {
+    const others = selectedPlans.filter(item => planKey(item) !== planKey(plan));
+
+    if (selected && others.length >= MAX_ITINERARY_PLANS) {
+      setError(`An itinerary can have up to ${MAX_ITINERARY_PLANS} plans`);
+      return;
+    }
+
+    setError(null);
+    setSelectedPlans(selected ? [...others, plan] : others);
+  }, [selectedPlans]);
+
+  // A selected plan was edited in place (a refinement): build from the new version,
+  // in the same position, even if the edit changed its destination
+  const replacePlan = useCallback((previous: TravelPlan, updated: TravelPlan) => {
+    setSelectedPlans(current => current.map(plan => planKey(plan) === planKey(previous) ? updated : plan));
+  }, []);
+
+  const clear = useCallback(() => {
+    setSelectedPlans([]);
+    setError(null);
+  }, []);
+
+  const build = useCallback(async () => {
+    if (selectedPlans.length < MIN_ITINERARY_PLANS) {
+      setError(`Select at least ${MIN_ITINERARY_PLANS} plans`);
+      return;
+    }
+
+    // Fresh ids, so plans from different searches can't collide
+    const plans = selectedPlans.map((plan, index) => ({ ...plan, id: `stop-${index + 1}` }));
+
+    setIsBuilding(true);
+    setError(null);
+
+    try {
+      const response = await fetch('/api/itinerary', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ plans }),
+      }).catch((err) => {
+        throw new ApiRequestError(err instanceof Error ? err.message : 'Network error', 'NETWORK_ERROR', 0, true);
+      });
+
+      if (!response.ok) {
+        throw await apiErrorFromResponse(response);
+      }
+
+      const data: ItineraryResponse = await response.json();
+      setBuilt({ itinerary: data.itinerary, plans });
+    } catch (err) {
+      console.error('Error building itinerary:', err);
+      setError(err instanceof ApiRequestError && err.code === 'RATE_LIMIT'
+        ? `⏱️ Too many itineraries at once. Please wait ${err.retryAfter ?? 30} seconds and try again.`
+        : err instanceof Error ? err.message : 'Could not build the itinerary');
+    } finally {
+      setIsBuilding(false);
+    }
+  }, [selectedPlans]);
+
+  const close = useCallback(() => setBuilt(null), []);
+
+  return { selectedPlans, isSelected, setSelected, replacePlan, clear, build, built, isBuilding, error, close };
+}
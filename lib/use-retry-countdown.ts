@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from 'react';
+
+/**
+ * Countdown driven by a server Retry-After value (seconds)
+ * secondsLeft is 0 when no countdown is running
+ */
+export function useRetryCountdown(): { secondsLeft: number; start: (seconds: number) => void } {
+  const [retryAt, setRetryAt] = useState<number | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+
+  useEffect(() => {
+    if (retryAt === null) {
+      return;
+    }
+
+    const tick = () => {
+      const remaining = Math.max(0, Math.ceil((retryAt - Date.now()) / 1000));
+      setSecondsLeft(remaining);
+      if (remaining === 0) {
+        setRetryAt(null);
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [retryAt]);
+
+  const start = useCallback((seconds: number) => {
+    setRetryAt(Date.now() + seconds * 1000);
+  }, []);
+
+  return { secondsLeft, start };
+}